@@ -0,0 +1,231 @@
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Readable } from "stream";
+import { runCli, EXIT_CODES } from "../cli";
+
+const doc = {
+  a: 1,
+  b: { c: "hello", d: [{ e: 3 }, { e: 4 }] },
+  "key with.dot": 3,
+  tags: ["x", "y"],
+};
+
+/** Executa o CLI com `input` na entrada padrão, capturando as saídas. */
+const run = async (args: string[], input = JSON.stringify(doc)) => {
+  let stdout = "";
+  let stderr = "";
+  const code = await runCli(args, {
+    stdin: Readable.from([input]),
+    stdout: { write: (text: string) => (stdout += text) },
+    stderr: { write: (text: string) => (stderr += text) },
+  });
+  return { code, stdout, stderr };
+};
+
+// --- Suítes de Teste ---
+
+describe("deep-tools (CLI)", () => {
+  describe("get", () => {
+    it("deve imprimir o valor no caminho como JSON", async () => {
+      expect(await run(["get", "b.d[1]"])).toEqual({
+        code: EXIT_CODES.ok,
+        stdout: '{\n  "e": 4\n}\n',
+        stderr: "",
+      });
+      expect((await run(["get", "b.c"])).stdout).toBe('"hello"\n');
+      expect((await run(["get", "b.d[-1].e"])).stdout).toBe("4\n");
+    });
+
+    it("deve imprimir strings sem aspas com --output plain", async () => {
+      expect((await run(["get", "b.c", "-o", "plain"])).stdout).toBe("hello\n");
+      expect((await run(["--output", "plain", "get", "tags"])).stdout).toBe(
+        '["x","y"]\n'
+      );
+    });
+
+    it("deve sair com o código de não encontrado", async () => {
+      const result = await run(["get", "b.x"]);
+      expect(result.code).toBe(EXIT_CODES.notFound);
+      expect(result.stdout).toBe("");
+      expect(result.stderr).toBe('deep-tools: caminho "b.x" não encontrado.\n');
+      expect((await run(["get", "a.constructor"])).code).toBe(
+        EXIT_CODES.notFound
+      );
+    });
+
+    it("deve sair com o código de uso incorreto para caminhos malformados", async () => {
+      const result = await run(["get", "b[0"]);
+      expect(result.code).toBe(EXIT_CODES.usage);
+      expect(result.stderr).toContain("'[' não fechado");
+    });
+  });
+
+  describe("find-key", () => {
+    it("deve imprimir o valor da primeira ocorrência", async () => {
+      expect((await run(["find-key", "e"])).stdout).toBe("3\n");
+      expect((await run(["find-key", "zzz"])).code).toBe(EXIT_CODES.notFound);
+    });
+
+    it("deve imprimir todas as ocorrências com --all", async () => {
+      expect(
+        JSON.parse((await run(["find-key", "e", "--all"])).stdout)
+      ).toEqual([
+        { path: "b.d[0].e", value: 3 },
+        { path: "b.d[1].e", value: 4 },
+      ]);
+      expect((await run(["find-key", "e", "-a", "-o", "plain"])).stdout).toBe(
+        "b.d[0].e\nb.d[1].e\n"
+      );
+    });
+  });
+
+  describe("find-value", () => {
+    it("deve imprimir os caminhos onde o valor ocorre", async () => {
+      expect(JSON.parse((await run(["find-value", "3"])).stdout)).toEqual([
+        "b.d[0].e",
+        '["key with.dot"]',
+      ]);
+      expect((await run(["find-value", "3", "-o", "plain"])).stdout).toBe(
+        'b.d[0].e\n["key with.dot"]\n'
+      );
+    });
+
+    it("deve comparar objetos e arrays pelo conteúdo", async () => {
+      expect((await run(["find-value", '{"e":4}', "-o", "plain"])).stdout).toBe(
+        "b.d[1]\n"
+      );
+    });
+
+    it("deve validar o valor e informar quando nada é encontrado", async () => {
+      expect((await run(["find-value", "hello"])).code).toBe(EXIT_CODES.usage);
+      expect((await run(["find-value", '"nada"'])).code).toBe(
+        EXIT_CODES.notFound
+      );
+    });
+  });
+
+  describe("set / unset", () => {
+    it("deve imprimir o documento alterado", async () => {
+      const set = await run(["set", "b.d[0].e", "30"]);
+      expect(set.code).toBe(EXIT_CODES.ok);
+      expect(JSON.parse(set.stdout).b.d[0].e).toBe(30);
+
+      const unset = await run(["unset", "b.d[0]"]);
+      expect(JSON.parse(unset.stdout).b.d).toEqual([{ e: 4 }]);
+      expect((await run(["unset", "b.x"])).code).toBe(EXIT_CODES.notFound);
+    });
+
+    it("deve sair com o código de uso incorreto para argumentos que a biblioteca recusa", async () => {
+      const outOfRange = await run(["set", "tags[-5]", "1"]);
+      expect(outOfRange.code).toBe(EXIT_CODES.usage);
+      expect(outOfRange.stderr).toContain(
+        "deep-tools: deepSet: o índice -5 ultrapassa o início do array"
+      );
+      for (const args of [
+        ["set", "a", "1"],
+        ["unset", "a"],
+      ]) {
+        const result = await run(args, "5");
+        expect(result.code).toBe(EXIT_CODES.usage);
+        expect(result.stderr).toContain(
+          "requer um documento que seja um objeto ou array."
+        );
+      }
+    });
+
+    it("deve recusar caminhos inseguros", async () => {
+      const result = await run(["set", "__proto__.polluted", "true"]);
+      expect(result.code).toBe(EXIT_CODES.usage);
+      expect(result.stderr).toContain('segmento inseguro "__proto__"');
+      expect(({} as any).polluted).toBeUndefined();
+    });
+
+    it("deve gravar o arquivo com --write", async () => {
+      const dir = await fs.mkdtemp(join(tmpdir(), "deep-tools-"));
+      const file = join(dir, "doc.json");
+      try {
+        await fs.writeFile(file, JSON.stringify(doc));
+        const result = await run(["set", "a", '{"n":2}', "-f", file, "-w"]);
+        expect(result).toEqual({ code: EXIT_CODES.ok, stdout: "", stderr: "" });
+        expect(JSON.parse(await fs.readFile(file, "utf8")).a).toEqual({ n: 2 });
+        expect((await run(["get", "a.n", "--file", file])).stdout).toBe("2\n");
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("deve exigir --file com --write", async () => {
+      expect((await run(["set", "a", "1", "--write"])).code).toBe(
+        EXIT_CODES.usage
+      );
+    });
+  });
+
+  describe("entrada e argumentos", () => {
+    it("deve sair com o código de JSON inválido", async () => {
+      const result = await run(["get", "a"], "{ a: 1 ");
+      expect(result.code).toBe(EXIT_CODES.parse);
+      expect(result.stderr).toMatch(/^deep-tools: JSON inválido em stdin: /);
+    });
+
+    it("deve sair com o código de erro de arquivo", async () => {
+      const result = await run([
+        "get",
+        "a",
+        "-f",
+        join(tmpdir(), "nao-existe.json"),
+      ]);
+      expect(result.code).toBe(EXIT_CODES.io);
+    });
+
+    it("deve sair com o código de erro interno para falhas inesperadas", async () => {
+      let stderr = "";
+      const code = await runCli(["get", "a"], {
+        stdin: Readable.from([JSON.stringify(doc)]),
+        stdout: {
+          write: () => {
+            throw new RangeError("falha inesperada");
+          },
+        },
+        stderr: { write: (text: string) => (stderr += text) },
+      });
+      expect(code).toBe(EXIT_CODES.internal);
+      expect(stderr).toBe("deep-tools: falha inesperada\n");
+
+      // TypeError que não vem da validação da biblioteca também é uma falha interna
+      const failing = await runCli(["get", "a"], {
+        stdin: Readable.from([JSON.stringify(doc)]),
+        stdout: {
+          write: () => {
+            throw new TypeError("Cannot read properties of undefined");
+          },
+        },
+        stderr: { write: () => undefined },
+      });
+      expect(failing).toBe(EXIT_CODES.internal);
+    });
+
+    it("deve rejeitar comandos, opções e argumentos inválidos", async () => {
+      for (const args of [
+        [],
+        ["listar"],
+        ["get"],
+        ["get", "a", "b"],
+        ["get", "a", "--formato"],
+        ["get", "a", "-o", "xml"],
+        ["get", "a", "-f"],
+      ]) {
+        const result = await run(args);
+        expect(result.code).toBe(EXIT_CODES.usage);
+        expect(result.stderr).toContain("deep-tools --help");
+      }
+    });
+
+    it("deve mostrar a ajuda", async () => {
+      const result = await run(["--help"]);
+      expect(result.code).toBe(EXIT_CODES.ok);
+      expect(result.stdout).toContain("Uso: deep-tools <comando>");
+    });
+  });
+});
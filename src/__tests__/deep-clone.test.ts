@@ -0,0 +1,182 @@
+import { deepClone, CallbackError, TraversalLimitError } from "../deep-tools";
+
+const testObj = {
+  a: 1,
+  b: { c: 2, d: [3, { e: 4 }] },
+  f: "fim",
+};
+
+// Objeto com referência circular para testes específicos
+const circularObj: any = { prop: "value", arr: [1] };
+circularObj.self = circularObj;
+circularObj.arr.push(circularObj);
+
+// --- Suítes de Teste ---
+
+describe("deepClone", () => {
+  it("deve copiar objetos e arrays aninhados", () => {
+    const clone = deepClone(testObj);
+    expect(clone).toEqual(testObj);
+    expect(clone).not.toBe(testObj);
+    expect(clone.b).not.toBe(testObj.b);
+    expect(clone.b.d[1]).not.toBe(testObj.b.d[1]);
+  });
+
+  it("deve retornar primitivos e funções como estão", () => {
+    const fn = () => 1;
+    expect(deepClone(1)).toBe(1);
+    expect(deepClone(null)).toBeNull();
+    expect(deepClone(undefined)).toBeUndefined();
+    expect(deepClone(fn)).toBe(fn);
+    expect(deepClone({ fn }).fn).toBe(fn);
+  });
+
+  it("deve preservar referências circulares", () => {
+    const clone = deepClone(circularObj);
+    expect(clone).not.toBe(circularObj);
+    expect(clone.self).toBe(clone);
+    expect(clone.arr[1]).toBe(clone);
+    expect(clone.arr).not.toBe(circularObj.arr);
+    expect(clone.prop).toBe("value");
+  });
+
+  it("deve preservar referências compartilhadas", () => {
+    const shared = { v: 1 };
+    const clone = deepClone({ x: shared, y: [shared] });
+    expect(clone.x).toBe(clone.y[0]);
+    expect(clone.x).not.toBe(shared);
+  });
+
+  it("deve copiar Date e RegExp", () => {
+    const regex = /a+/gi;
+    regex.lastIndex = 2;
+    const source = { date: new Date(1000), regex };
+    const clone = deepClone(source);
+    expect(clone.date).toEqual(source.date);
+    expect(clone.date).not.toBe(source.date);
+    expect(clone.regex).not.toBe(regex);
+    expect(clone.regex.source).toBe("a+");
+    expect(clone.regex.flags).toBe("gi");
+    expect(clone.regex.lastIndex).toBe(2);
+  });
+
+  it("deve copiar Map e Set, incluindo chaves e membros", () => {
+    const key = { k: 1 };
+    const member = { m: 1 };
+    const source = {
+      map: new Map<unknown, unknown>([[key, { v: 1 }]]),
+      set: new Set([member]),
+    };
+    source.map.set("self", source.map);
+    const clone = deepClone(source);
+    expect(clone.map).toBeInstanceOf(Map);
+    expect(clone.map).not.toBe(source.map);
+    const [clonedKey] = clone.map.keys();
+    expect(clonedKey).toEqual(key);
+    expect(clonedKey).not.toBe(key);
+    expect(clone.map.get(clonedKey)).toEqual({ v: 1 });
+    expect(clone.map.get("self")).toBe(clone.map);
+    const [clonedMember] = clone.set;
+    expect(clonedMember).toEqual(member);
+    expect(clonedMember).not.toBe(member);
+  });
+
+  it("deve copiar ArrayBuffer, DataView e typed arrays", () => {
+    const buffer = new ArrayBuffer(8);
+    const bytes = new Uint8Array(buffer);
+    const words = new Uint16Array(buffer, 2, 2);
+    const view = new DataView(buffer);
+    bytes.set([1, 2, 3, 4, 5, 6, 7, 8]);
+
+    const clone = deepClone({
+      buffer,
+      bytes,
+      words,
+      view,
+      floats: new Float64Array([1.5]),
+    });
+    expect(clone.buffer).not.toBe(buffer);
+    expect(clone.bytes).toBeInstanceOf(Uint8Array);
+    expect(Array.from(clone.bytes)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(clone.words.byteOffset).toBe(2);
+    expect(clone.words.length).toBe(2);
+    expect(Array.from(clone.floats)).toEqual([1.5]);
+
+    // Views sobre o mesmo buffer continuam compartilhando a cópia do buffer
+    expect(clone.bytes.buffer).toBe(clone.buffer);
+    expect(clone.view.buffer).toBe(clone.buffer);
+    clone.bytes[2] = 99;
+    expect(clone.view.getUint8(2)).toBe(99);
+    expect(bytes[2]).toBe(3);
+  });
+
+  it("deve manter o protótipo de instâncias de classes", () => {
+    class Point {
+      constructor(public x: number, public y: number) {}
+      norm() {
+        return Math.hypot(this.x, this.y);
+      }
+    }
+    const source = { origin: new Point(3, 4) };
+    const clone = deepClone(source);
+    expect(clone.origin).toBeInstanceOf(Point);
+    expect(clone.origin).not.toBe(source.origin);
+    expect(clone.origin.norm()).toBe(5);
+  });
+
+  it("deve copiar erros, propriedades não enumeráveis e símbolos", () => {
+    const symbol = Symbol("s");
+    const source = { error: new Error("falhou"), [symbol]: { v: 1 } };
+    Object.defineProperty(source, "hidden", { value: 1, enumerable: false });
+    const clone = deepClone(source);
+    expect(clone.error).toBeInstanceOf(Error);
+    expect(clone.error).not.toBe(source.error);
+    expect(clone.error.message).toBe("falhou");
+    expect(clone[symbol]).toEqual({ v: 1 });
+    expect(clone[symbol]).not.toBe(source[symbol]);
+    expect(Object.getOwnPropertyDescriptor(clone, "hidden")).toEqual({
+      value: 1,
+      enumerable: false,
+      writable: false,
+      configurable: false,
+    });
+  });
+
+  it("deve usar o customizer para tipos personalizados", () => {
+    class Handle {
+      constructor(public id: number, public meta: { tag: string }) {}
+    }
+    const meta = { tag: "x" };
+    const source = { handle: new Handle(1, meta), meta };
+    const clone = deepClone(source, {
+      customizer: (value, clone) =>
+        value instanceof Handle
+          ? new Handle(value.id + 100, clone(value.meta) as { tag: string })
+          : undefined,
+    });
+    expect(clone.handle).toBeInstanceOf(Handle);
+    expect(clone.handle.id).toBe(101);
+    expect(clone.handle.meta).toBe(clone.meta);
+    expect(clone.meta).not.toBe(meta);
+  });
+
+  it("deve aplicar onError a customizers que falham e aos limites", () => {
+    const customizer = (value: unknown) => {
+      if (value instanceof Date) {
+        throw new Error("falhou");
+      }
+      return undefined;
+    };
+    const obj = { a: { criado: new Date(0) } };
+    expect(() => deepClone(obj, { customizer })).toThrow(CallbackError);
+    const copy = deepClone(obj, { customizer, onError: "ignore" });
+    expect(copy.a.criado).toEqual(new Date(0)); // Regras padrão
+    expect(copy.a.criado).not.toBe(obj.a.criado);
+
+    const errors: Error[] = [];
+    expect(
+      deepClone(testObj, { maxDepth: 2, onError: "collect", errors })
+    ).toEqual({ a: 1, b: { c: 2, d: [undefined, undefined] }, f: "fim" });
+    expect((errors[0] as TraversalLimitError).path).toEqual(["b", "d", 0]);
+  });
+});
@@ -0,0 +1,285 @@
+import {
+  deepDiff,
+  applyPatch,
+  toJsonPointer,
+  fromJsonPointer,
+  deepGet,
+  PatchError,
+  PathSyntaxError,
+  TraversalLimitError,
+} from "../deep-tools";
+import type { PatchOperation } from "../deep-tools";
+
+/**
+ * Snapshots de configuração usados para testar deepDiff/applyPatch.
+ */
+const before = {
+  name: "app",
+  version: 1,
+  features: { login: true, signup: false },
+  servers: [
+    { host: "a.example.com", port: 80 },
+    { host: "b.example.com", port: 80 },
+  ],
+  tags: ["x", "y", "z"],
+  legacy: { timeout: 30 },
+};
+
+const after = {
+  name: "app",
+  version: 2,
+  features: { login: true, signup: true, sso: { provider: "okta" } },
+  servers: [{ host: "a.example.com", port: 443 }],
+  tags: ["x", "y", "z", "w"],
+  timeouts: { timeout: 30 },
+};
+
+// --- Suítes de Teste ---
+
+describe("deepDiff", () => {
+  it("deve gerar operações add, remove e replace", () => {
+    expect(deepDiff(before, after)).toEqual([
+      { op: "remove", path: "/legacy" },
+      { op: "replace", path: "/version", value: 2 },
+      { op: "replace", path: "/features/signup", value: true },
+      { op: "add", path: "/features/sso", value: { provider: "okta" } },
+      { op: "replace", path: "/servers/0/port", value: 443 },
+      { op: "remove", path: "/servers/1" },
+      { op: "add", path: "/tags/3", value: "w" },
+      { op: "add", path: "/timeouts", value: { timeout: 30 } },
+    ]);
+  });
+
+  it("deve retornar uma lista vazia para documentos iguais", () => {
+    expect(deepDiff(before, JSON.parse(JSON.stringify(before)))).toEqual([]);
+    expect(deepDiff(1, 1)).toEqual([]);
+    expect(deepDiff(NaN, NaN)).toEqual([]);
+  });
+
+  it("deve substituir valores de tipos diferentes e a raiz", () => {
+    expect(deepDiff({ a: [1] }, { a: { 0: 1 } })).toEqual([
+      { op: "replace", path: "/a", value: { 0: 1 } },
+    ]);
+    expect(deepDiff(1, "1")).toEqual([{ op: "replace", path: "", value: "1" }]);
+  });
+
+  it("deve substituir Map, Set, RegExp e Date que diferem", () => {
+    const m = new Map([["a", 2]]);
+    expect(deepDiff({ m: new Map([["a", 1]]) }, { m })).toEqual([
+      { op: "replace", path: "/m", value: m },
+    ]);
+    const set = new Set([2]);
+    expect(deepDiff({ s: new Set([1]) }, { s: set })).toEqual([
+      { op: "replace", path: "/s", value: set },
+    ]);
+    expect(deepDiff({ r: /a/ }, { r: /b/ })).toEqual([
+      { op: "replace", path: "/r", value: /b/ },
+    ]);
+    expect(deepDiff([new Date(0)], [new Date(1)])).toEqual([
+      { op: "replace", path: "/0", value: new Date(1) },
+    ]);
+    // Iguais pelo conteúdo: nenhuma operação
+    expect(
+      deepDiff(
+        { m: new Map([["a", { x: 1 }]]), s: new Set([1]), r: /a/g },
+        { m: new Map([["a", { x: 1 }]]), s: new Set([1]), r: /a/g }
+      )
+    ).toEqual([]);
+  });
+
+  it("deve remover elementos de arrays do fim para o começo", () => {
+    expect(deepDiff([1, 2, 3, 4], [1])).toEqual([
+      { op: "remove", path: "/3" },
+      { op: "remove", path: "/2" },
+      { op: "remove", path: "/1" },
+    ]);
+  });
+
+  it("deve escapar chaves com '/' e '~'", () => {
+    expect(deepDiff({}, { "a/b": 1, "c~d": 2 })).toEqual([
+      { op: "add", path: "/a~1b", value: 1 },
+      { op: "add", path: "/c~0d", value: 2 },
+    ]);
+  });
+
+  it("deve detectar moves quando solicitado", () => {
+    expect(deepDiff(before, after, { detectMoves: true })).toEqual(
+      expect.arrayContaining([
+        { op: "move", from: "/legacy", path: "/timeouts" },
+      ])
+    );
+    expect(deepDiff(before, after, { detectMoves: true })).not.toEqual(
+      expect.arrayContaining([{ op: "remove", path: "/legacy" }])
+    );
+  });
+
+  it("deve detectar copies quando solicitado", () => {
+    const a = { base: { retries: 3 } };
+    const b = { base: { retries: 3 }, derived: { retries: 3 } };
+    expect(deepDiff(a, b, { detectCopies: true })).toEqual([
+      { op: "copy", from: "/base", path: "/derived" },
+    ]);
+    // A busca de origens não conta novamente os valores já comparados
+    expect(deepDiff(a, b, { detectCopies: true, maxNodes: 2 })).toEqual([
+      { op: "copy", from: "/base", path: "/derived" },
+    ]);
+    expect(() => deepDiff(a, b, { detectCopies: true, maxNodes: 1 })).toThrow(
+      TraversalLimitError
+    );
+  });
+
+  it("deve lidar com referências circulares", () => {
+    const a: any = { v: 1 };
+    a.self = a;
+    const b: any = { v: 2 };
+    b.self = b;
+    expect(deepDiff(a, b)).toEqual([{ op: "replace", path: "/v", value: 2 }]);
+  });
+
+  it("deve produzir operações que transformam a em b", () => {
+    for (const options of [{}, { detectMoves: true }, { detectCopies: true }]) {
+      expect(applyPatch(before, deepDiff(before, after, options))).toEqual(
+        after
+      );
+    }
+  });
+
+  it("deve aplicar maxDepth e maxNodes", () => {
+    const a = { x: { y: { z: 1 } }, w: 1 };
+    const b = { x: { y: { z: 2 } }, w: 2 };
+    expect(() => deepDiff(a, b, { maxDepth: 2 })).toThrow(TraversalLimitError);
+    expect(deepDiff(a, b, { maxDepth: 2, onError: "ignore" })).toEqual([
+      { op: "replace", path: "/w", value: 2 },
+    ]);
+    expect(() => deepDiff(a, b, { maxNodes: 2 })).toThrow(/maxNodes: 2/);
+  });
+});
+
+describe("applyPatch", () => {
+  it("deve aplicar todas as operações sem modificar a entrada", () => {
+    const doc = { a: 1, b: [1, 2], c: { d: "x" } };
+    const result = applyPatch<Record<string, unknown>>(doc, [
+      { op: "test", path: "/a", value: 1 },
+      { op: "replace", path: "/a", value: 2 },
+      { op: "add", path: "/b/-", value: 3 },
+      { op: "add", path: "/b/0", value: 0 },
+      { op: "move", from: "/c/d", path: "/e" },
+      { op: "copy", from: "/b", path: "/f" },
+      { op: "remove", path: "/c" },
+    ]);
+    expect(result).toEqual({ a: 2, b: [0, 1, 2, 3], e: "x", f: [0, 1, 2, 3] });
+    expect(result.f).not.toBe(result.b);
+    expect(doc).toEqual({ a: 1, b: [1, 2], c: { d: "x" } });
+  });
+
+  it("deve compartilhar os ramos não modificados", () => {
+    const doc = { a: { x: 1 }, b: { y: 2 } };
+    const result = applyPatch(doc, [{ op: "replace", path: "/a/x", value: 5 }]);
+    expect(result.b).toBe(doc.b);
+    expect(result.a).not.toBe(doc.a);
+  });
+
+  it("deve modificar a entrada no lugar com mutate: true", () => {
+    const doc = { a: 1, b: [1] };
+    const result = applyPatch(
+      doc,
+      [
+        { op: "replace", path: "/a", value: 2 },
+        { op: "add", path: "/b/1", value: 2 },
+      ],
+      { mutate: true }
+    );
+    expect(result).toBe(doc);
+    expect(doc).toEqual({ a: 2, b: [1, 2] });
+  });
+
+  it("deve desfazer todas as alterações se uma operação falhar", () => {
+    const doc = { a: 1, b: [1, 2], c: { d: 1 } };
+    const snapshot = JSON.parse(JSON.stringify(doc));
+    const operations: PatchOperation[] = [
+      { op: "replace", path: "/a", value: 2 },
+      { op: "remove", path: "/b/0" },
+      { op: "add", path: "/c/e", value: 3 },
+      { op: "move", from: "/c/d", path: "/d" },
+      { op: "test", path: "/a", value: 999 },
+    ];
+    expect(() => applyPatch(doc, operations, { mutate: true })).toThrow(
+      PatchError
+    );
+    expect(doc).toEqual(snapshot);
+    expect(() => applyPatch(doc, operations)).toThrow(PatchError);
+    expect(doc).toEqual(snapshot);
+  });
+
+  it("deve informar a operação que falhou", () => {
+    expect.assertions(3);
+    const failing = { op: "remove", path: "/x" } as const;
+    try {
+      applyPatch({ a: 1 }, [{ op: "test", path: "/a", value: 1 }, failing]);
+    } catch (error) {
+      expect(error).toBeInstanceOf(PatchError);
+      expect((error as PatchError).index).toBe(1);
+      expect((error as PatchError).operation).toBe(failing);
+    }
+  });
+
+  it("deve rejeitar caminhos e índices inválidos", () => {
+    const doc = { a: [1, 2], b: { c: 1 } };
+    const invalid: PatchOperation[][] = [
+      [{ op: "add", path: "/x/y", value: 1 }],
+      [{ op: "add", path: "/a/5", value: 1 }],
+      [{ op: "add", path: "/a/01", value: 1 }],
+      [{ op: "replace", path: "/a/2", value: 1 }],
+      [{ op: "remove", path: "/b/x" }],
+      [{ op: "move", from: "/b", path: "/b/c/d" }],
+      [{ op: "add", path: "sem-barra", value: 1 }],
+      [{ op: "bogus", path: "/a" } as unknown as PatchOperation],
+    ];
+    for (const operations of invalid) {
+      expect(() => applyPatch(doc, operations)).toThrow(PatchError);
+    }
+  });
+
+  it("deve substituir a raiz com o caminho vazio", () => {
+    expect(
+      applyPatch({ a: 1 }, [{ op: "replace", path: "", value: [1] }])
+    ).toEqual([1]);
+  });
+
+  it("deve comparar estruturalmente na operação test", () => {
+    const doc = { a: { b: [1, { c: 2 }] } };
+    expect(() =>
+      applyPatch(doc, [{ op: "test", path: "/a", value: { b: [1, { c: 2 }] } }])
+    ).not.toThrow();
+    expect(() =>
+      applyPatch(doc, [{ op: "test", path: "/a", value: { b: [1] } }])
+    ).toThrow(PatchError);
+  });
+});
+
+describe("toJsonPointer / fromJsonPointer", () => {
+  it("deve converter caminhos em JSON Pointers", () => {
+    expect(toJsonPointer("b.d[0].e")).toBe("/b/d/0/e");
+    expect(toJsonPointer(["a/b", "c~d"])).toBe("/a~1b/c~0d");
+    expect(toJsonPointer('["key with.dot"]')).toBe("/key with.dot");
+    expect(toJsonPointer([])).toBe("");
+  });
+
+  it("deve converter JSON Pointers em segmentos", () => {
+    expect(fromJsonPointer("/b/d/0/e")).toEqual(["b", "d", "0", "e"]);
+    expect(fromJsonPointer("/a~1b/c~0d")).toEqual(["a/b", "c~d"]);
+    expect(fromJsonPointer("/~01")).toEqual(["~1"]);
+    expect(fromJsonPointer("")).toEqual([]);
+    expect(fromJsonPointer("/")).toEqual([""]);
+  });
+
+  it("deve produzir segmentos que deepGet resolve", () => {
+    const obj = { b: { d: [{ e: 3 }] } };
+    expect(deepGet(obj, fromJsonPointer(toJsonPointer("b.d[0].e")))).toBe(3);
+  });
+
+  it("deve lançar PathSyntaxError para ponteiros inválidos", () => {
+    expect(() => fromJsonPointer("a/b")).toThrow(PathSyntaxError);
+    expect(() => fromJsonPointer("/a~2")).toThrow(PathSyntaxError);
+  });
+});
@@ -0,0 +1,244 @@
+import {
+  deepEqual,
+  deepEqualExplain,
+  deepClone,
+  CallbackError,
+  TraversalLimitError,
+} from "../deep-tools";
+
+const testObj = {
+  a: 1,
+  b: { c: "hello", d: [{ e: 3 }, { e: 4 }] },
+  f: [1, 2, 3],
+};
+
+// Objeto com referência circular para testes específicos
+const circularObj: any = { prop: "value", arr: [1] };
+circularObj.self = circularObj;
+circularObj.arr.push(circularObj);
+
+// --- Suítes de Teste ---
+
+describe("deepEqual", () => {
+  it("deve comparar objetos e arrays aninhados pelo conteúdo", () => {
+    expect(deepEqual(testObj, deepClone(testObj))).toBe(true);
+    expect(deepEqual({ a: 1, b: 2 }, { b: 2, a: 1 })).toBe(true);
+    expect(deepEqual(testObj, { ...testObj, a: 2 })).toBe(false);
+    expect(deepEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+    expect(deepEqual([1, 2], [1, 2, 3])).toBe(false);
+    expect(deepEqual([], {})).toBe(false);
+    expect(deepEqual(null, {})).toBe(false);
+    expect(deepEqual(undefined, null)).toBe(false);
+  });
+
+  it("deve tratar NaN e ±0", () => {
+    expect(deepEqual(NaN, NaN)).toBe(true);
+    expect(deepEqual({ x: [NaN] }, { x: [NaN] })).toBe(true);
+    expect(deepEqual(0, -0)).toBe(true);
+    expect(deepEqual(0, -0, { distinguishZeros: true })).toBe(false);
+    expect(deepEqual(NaN, NaN, { distinguishZeros: true })).toBe(true);
+    expect(deepEqual("1", 1)).toBe(false);
+  });
+
+  it("deve comparar Date, RegExp, objetos primitivos e erros", () => {
+    expect(deepEqual(new Date(5), new Date(5))).toBe(true);
+    expect(deepEqual(new Date(5), new Date(6))).toBe(false);
+    expect(deepEqual(new Date(NaN), new Date(NaN))).toBe(true);
+    expect(deepEqual(new Date(0), 0)).toBe(false);
+    expect(deepEqual(/a+/gi, /a+/gi)).toBe(true);
+    expect(deepEqual(/a+/g, /a+/i)).toBe(false);
+    expect(deepEqual(Object("x"), Object("x"))).toBe(true);
+    expect(deepEqual(Object(1), Object(2))).toBe(false);
+    expect(deepEqual(new Error("x"), new Error("x"))).toBe(true);
+    expect(deepEqual(new Error("x"), new TypeError("x"))).toBe(false);
+  });
+
+  it("deve comparar Map, Set e typed arrays", () => {
+    expect(
+      deepEqual(new Map([["k", { v: [1] }]]), new Map([["k", { v: [1] }]]))
+    ).toBe(true);
+    expect(deepEqual(new Map([["k", 1]]), new Map([["k", 2]]))).toBe(false);
+    expect(deepEqual(new Map([["k", 1]]), new Map([["j", 1]]))).toBe(false);
+    expect(deepEqual(new Set([1, 2, 3]), new Set([3, 1, 2]))).toBe(true);
+    expect(deepEqual(new Set([{ a: 1 }]), new Set([{ a: 1 }]))).toBe(true);
+    expect(deepEqual(new Set([1, 2]), new Set([1, 3]))).toBe(false);
+    expect(deepEqual(new Set([1]), [1])).toBe(false);
+    expect(deepEqual(new Uint8Array([1, 2]), new Uint8Array([1, 2]))).toBe(
+      true
+    );
+    expect(deepEqual(new Uint8Array([1, 2]), new Int8Array([1, 2]))).toBe(
+      false
+    );
+    expect(
+      deepEqual(new Uint8Array([1]).buffer, new Uint8Array([2]).buffer)
+    ).toBe(false);
+  });
+
+  it("deve comparar instâncias de classes pelo protótipo", () => {
+    class Point {
+      constructor(public x: number) {}
+    }
+    expect(deepEqual(new Point(1), new Point(1))).toBe(true);
+    expect(deepEqual(new Point(1), { x: 1 })).toBe(false);
+    expect(
+      deepEqual(Object.assign(Object.create(null), { x: 1 }), { x: 1 })
+    ).toBe(true);
+  });
+
+  it("deve lidar com referências circulares", () => {
+    const other: any = { prop: "value", arr: [1] };
+    other.self = other;
+    other.arr.push(other);
+    expect(deepEqual(circularObj, other)).toBe(true);
+    expect(deepEqual(circularObj, deepClone(circularObj))).toBe(true);
+
+    other.prop = "outro";
+    expect(deepEqual(circularObj, other)).toBe(false);
+
+    // Um ciclo e uma estrutura que não volta ao mesmo ponto
+    const loop: any = { next: null };
+    loop.next = loop;
+    expect(deepEqual(loop, { next: { next: {} } })).toBe(false);
+  });
+
+  it("deve comparar arrays sem ordem com unorderedArrays", () => {
+    expect(deepEqual([1, 2, 3], [3, 1, 2])).toBe(false);
+    expect(deepEqual([1, 2, 3], [3, 1, 2], { unorderedArrays: true })).toBe(
+      true
+    );
+    expect(
+      deepEqual([{ id: 1 }, { id: 2 }], [{ id: 2 }, { id: 1 }], {
+        unorderedArrays: true,
+      })
+    ).toBe(true);
+    // Multiconjuntos: as repetições contam
+    expect(deepEqual([1, 1, 2], [1, 2, 2], { unorderedArrays: true })).toBe(
+      false
+    );
+  });
+
+  it("deve ignorar caminhos com ignorePaths", () => {
+    const a = { id: 1, updatedAt: 1, items: [{ id: 2, updatedAt: 3 }] };
+    const b = { id: 1, updatedAt: 2, items: [{ id: 2 }] };
+    expect(deepEqual(a, b)).toBe(false);
+    expect(deepEqual(a, b, { ignorePaths: "updatedAt" })).toBe(true);
+    expect(deepEqual(a, b, { ignorePaths: ["updatedAt"] })).toBe(true);
+    expect(deepEqual(a, b, { ignorePaths: ["items[*].updatedAt"] })).toBe(
+      false
+    );
+    expect(
+      deepEqual(a, b, { ignorePaths: ["updatedAt", "items[*].updatedAt"] })
+    ).toBe(true);
+  });
+
+  it("deve usar o customizer quando ele decidir o resultado", () => {
+    const customizer = (a: unknown, b: unknown) =>
+      typeof a === "number" && typeof b === "number"
+        ? Math.abs(a - b) < 1e-9
+        : undefined;
+    expect(deepEqual({ total: 0.1 + 0.2 }, { total: 0.3 })).toBe(false);
+    expect(
+      deepEqual({ total: 0.1 + 0.2 }, { total: 0.3 }, { customizer })
+    ).toBe(true);
+
+    const paths: unknown[] = [];
+    deepEqual(
+      { a: [1] },
+      { a: [1] },
+      {
+        customizer: (_a, _b, path) => {
+          paths.push(path);
+          return undefined;
+        },
+      }
+    );
+    expect(paths).toEqual([[], ["a"], ["a", 0]]);
+  });
+
+  it("deve aplicar onError e os limites de SafetyOptions", () => {
+    const boom = () => {
+      throw new Error("falhou");
+    };
+    expect(() => deepEqual({ a: 1 }, { a: 1 }, { customizer: boom })).toThrow(
+      CallbackError
+    );
+    // Com 'ignore', o customizer que falhou não decide: as regras padrão são usadas
+    expect(
+      deepEqual({ a: 1 }, { a: 2 }, { customizer: boom, onError: "ignore" })
+    ).toBe(false);
+
+    expect(() => deepEqual(testObj, testObj, { maxDepth: 1 })).not.toThrow();
+    expect(() =>
+      deepEqual(testObj, deepClone(testObj), { maxDepth: 1 })
+    ).toThrow(TraversalLimitError);
+    const errors: Error[] = [];
+    expect(
+      deepEqual(
+        { a: { b: 1 } },
+        { a: { b: 2 } },
+        {
+          maxDepth: 1,
+          onError: "collect",
+          errors,
+        }
+      )
+    ).toBe(true); // Valores além do limite não são comparados
+    expect(errors[0]).toBeInstanceOf(TraversalLimitError);
+  });
+});
+
+describe("deepEqualExplain", () => {
+  it("deve retornar a primeira diferença, com caminho e motivo", () => {
+    expect(deepEqualExplain(testObj, deepClone(testObj))).toEqual([]);
+    expect(
+      deepEqualExplain(testObj, {
+        ...testObj,
+        b: { c: "hello", d: [{ e: 3 }] },
+      })
+    ).toEqual([
+      { path: ["b", "d", 1], reason: "missing", a: { e: 4 }, b: undefined },
+    ]);
+    expect(deepEqualExplain([1, 2], [1, "2"])).toEqual([
+      { path: [1], reason: "type", a: 2, b: "2" },
+    ]);
+    expect(deepEqualExplain(1, 2)).toEqual([
+      { path: [], reason: "value", a: 1, b: 2 },
+    ]);
+  });
+
+  it("deve listar todas as diferenças com all", () => {
+    expect(
+      deepEqualExplain(
+        { user: { name: "Ana", age: 30 }, tags: ["a"] },
+        { user: { name: "Bia" }, tags: ["a", "b"], extra: true },
+        { all: true }
+      )
+    ).toEqual([
+      { path: ["user", "name"], reason: "value", a: "Ana", b: "Bia" },
+      { path: ["user", "age"], reason: "missing", a: 30, b: undefined },
+      { path: ["tags", 1], reason: "extra", a: undefined, b: "b" },
+      { path: ["extra"], reason: "extra", a: undefined, b: true },
+    ]);
+  });
+
+  it("deve indicar os elementos sem correspondente em arrays sem ordem e Sets", () => {
+    expect(
+      deepEqualExplain([1, 2, 3], [3, 4, 1], {
+        unorderedArrays: true,
+        all: true,
+      })
+    ).toEqual([
+      { path: [1], reason: "missing", a: 2, b: undefined },
+      { path: [1], reason: "extra", a: undefined, b: 4 },
+    ]);
+    expect(
+      deepEqualExplain({ s: new Set(["x"]) }, { s: new Set(["y"]) })
+    ).toEqual([{ path: ["s", 0], reason: "missing", a: "x", b: undefined }]);
+  });
+
+  it("deve usar as chaves de Map nos caminhos", () => {
+    expect(
+      deepEqualExplain(new Map([["k", { v: 1 }]]), new Map([["k", { v: 2 }]]))
+    ).toEqual([{ path: ["k", "v"], reason: "value", a: 1, b: 2 }]);
+  });
+});
@@ -0,0 +1,150 @@
+import {
+  deepFlatten,
+  deepUnflatten,
+  PathSyntaxError,
+  TraversalLimitError,
+} from "../deep-tools";
+
+/**
+ * Configuração usada nos testes de planificação, com chaves especiais e contêineres vazios.
+ */
+const createConfig = () => ({
+  db: { host: "localhost", ports: [5432, 5433] },
+  features: [
+    { name: "a", on: true },
+    { name: "b", on: false },
+  ],
+  "key with.dot": "dot-value",
+  "0": "chave numérica",
+  empty: {},
+  none: [],
+  nothing: null,
+  created: new Date(0),
+});
+
+// --- Suítes de Teste ---
+
+describe("deepFlatten", () => {
+  it("deve planificar objetos e arrays com a sintaxe de caminho", () => {
+    expect(deepFlatten(createConfig())).toEqual({
+      "0": "chave numérica",
+      "db.host": "localhost",
+      "db.ports[0]": 5432,
+      "db.ports[1]": 5433,
+      "features[0].name": "a",
+      "features[0].on": true,
+      "features[1].name": "b",
+      "features[1].on": false,
+      '["key with.dot"]': "dot-value",
+      empty: {},
+      none: [],
+      nothing: null,
+      created: new Date(0),
+    });
+  });
+
+  it("deve usar um separador personalizado e escapar chaves que o contêm", () => {
+    expect(
+      deepFlatten(
+        { db: { host: "x", a__b: 1 }, list: [1] },
+        { delimiter: "__" }
+      )
+    ).toEqual({ db__host: "x", 'db["a__b"]': 1, "list[0]": 1 });
+  });
+
+  it("deve usar notação de ponto para arrays com arrayFormat 'dot'", () => {
+    expect(
+      deepFlatten({ a: [{ b: 1 }], o: { "0": 2 } }, { arrayFormat: "dot" })
+    ).toEqual({ "a.0.b": 1, 'o["0"]': 2 });
+  });
+
+  it("deve manter as chaves como estão com escapeKeys false", () => {
+    expect(deepFlatten({ "x.y": { z: 1 } }, { escapeKeys: false })).toEqual({
+      "x.y.z": 1,
+    });
+  });
+
+  it("deve respeitar maxDepth e keepEmpty", () => {
+    const nested = { a: { b: { c: 1 } }, e: {} };
+    expect(deepFlatten(nested, { maxDepth: 1 })).toEqual({
+      a: { b: { c: 1 } },
+      e: {},
+    });
+    expect(deepFlatten(nested, { maxDepth: 2, keepEmpty: false })).toEqual({
+      "a.b": { c: 1 },
+    });
+  });
+
+  it("deve planificar arrays na raiz", () => {
+    expect(deepFlatten([1, { a: 2 }])).toEqual({ "[0]": 1, "[1].a": 2 });
+  });
+
+  it("deve lançar TypeError para referências circulares e entradas inválidas", () => {
+    const circular: any = { a: { b: 1 } };
+    circular.a.self = circular;
+    expect(() => deepFlatten(circular)).toThrow(
+      /referência circular em "a.self"/
+    );
+    expect(() => deepFlatten(1)).toThrow(TypeError);
+    expect(() => deepFlatten({}, { delimiter: "" })).toThrow(TypeError);
+    expect(() => deepFlatten({}, { delimiter: "[" })).toThrow(TypeError);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    expect(() => deepFlatten({}, { arrayFormat: "x" as any })).toThrow(
+      TypeError
+    );
+  });
+
+  it("deve aplicar maxNodes, mantendo o significado de maxDepth", () => {
+    expect(() => deepFlatten(createConfig(), { maxNodes: 2 })).toThrow(
+      TraversalLimitError
+    );
+    expect(
+      deepFlatten({ a: { b: { c: 1 } } }, { maxDepth: 1, onError: "throw" })
+    ).toEqual({ a: { b: { c: 1 } } });
+  });
+});
+
+describe("deepUnflatten", () => {
+  it("deve reconstruir objetos e arrays", () => {
+    expect(
+      deepUnflatten({ "db.host": "x", "db.ports[0]": 1, "db.ports[1]": 2 })
+    ).toEqual({ db: { host: "x", ports: [1, 2] } });
+  });
+
+  it.each([
+    ["padrão", {}],
+    ["separador '__'", { delimiter: "__" }],
+    [
+      "separador '/' com arrays em ponto",
+      { delimiter: "/", arrayFormat: "dot" as const },
+    ],
+    ["notação de ponto", { arrayFormat: "dot" as const }],
+  ])("deve fazer o round-trip com %s", (_, options) => {
+    const config = createConfig();
+    expect(deepUnflatten(deepFlatten(config, options), options)).toEqual(
+      config
+    );
+  });
+
+  it("deve criar uma raiz array quando a primeira chave é um índice", () => {
+    expect(deepUnflatten({ "[0]": 1, "[1].a": 2 })).toEqual([1, { a: 2 }]);
+    expect(deepUnflatten({})).toEqual({});
+  });
+
+  it("não deve poluir protótipos com chaves __proto__ ou constructor", () => {
+    const result = deepUnflatten<Record<string, unknown>>({
+      "__proto__.polluted": true,
+      "constructor.prototype.polluted": true,
+    });
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+    expect(Object.keys(result)).toEqual(["__proto__", "constructor"]);
+  });
+
+  it("deve lançar PathSyntaxError para chaves malformadas", () => {
+    expect(() => deepUnflatten({ "a[0": 1 })).toThrow(PathSyntaxError);
+    expect(() => deepUnflatten({ "a__[0": 1 }, { delimiter: "__" })).toThrow(
+      PathSyntaxError
+    );
+  });
+});
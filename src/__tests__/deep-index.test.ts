@@ -0,0 +1,188 @@
+import {
+  createDeepIndex,
+  deepFindByKey,
+  deepFindAllByKey,
+  deepFindByValue,
+  TraversalLimitError,
+} from "../deep-tools";
+
+const catalog = () => ({
+  meta: { id: "cat", version: 2 },
+  products: [
+    { id: 1, sku: "A1", tags: ["x", "y"] },
+    {
+      id: 2,
+      sku: "B2",
+      variants: [
+        { id: 3, sku: "B2-P" },
+        { id: 4, sku: "B2-G", price: 2 },
+      ],
+    },
+  ],
+  id: 0,
+});
+
+// Objeto com referências compartilhadas e circulares
+const sharedObj = () => {
+  const item: any = { id: 1, name: "shared" };
+  const root: any = { a: { deep: { item } }, list: [item], id: 0 };
+  root.self = root;
+  item.owner = root.a;
+  return root;
+};
+
+const expectSameAsFinders = (obj: any, keys: string[], values: unknown[]) => {
+  const index = createDeepIndex(obj);
+  for (const key of keys) {
+    expect(index.findByKey(key)).toBe(deepFindByKey(obj, key));
+    for (const order of ["bfs", "dfs"] as const) {
+      for (const maxDepth of [1, 2, 3, Infinity]) {
+        expect(index.findAllByKey(key, { order, maxDepth })).toEqual(
+          deepFindAllByKey(obj, key, { order, maxDepth })
+        );
+      }
+      expect(index.findAllByKey(key, { order, limit: 2 })).toEqual(
+        deepFindAllByKey(obj, key, { order, limit: 2 })
+      );
+    }
+  }
+  for (const value of values) {
+    expect(index.findByValue(value)).toEqual(deepFindByValue(obj, value));
+    expect(index.findByValue(value, { pathFormat: "segments" })).toEqual(
+      deepFindByValue(obj, value, undefined, { pathFormat: "segments" })
+    );
+  }
+};
+
+// --- Suítes de Teste ---
+
+describe("createDeepIndex", () => {
+  it("deve retornar os mesmos resultados, na mesma ordem, que os finders", () => {
+    const obj = catalog();
+    expectSameAsFinders(
+      obj,
+      ["id", "sku", "price", "tags", "ausente"],
+      [1, 2, "B2-G", "x", obj.meta, obj.products[1].variants, 99]
+    );
+  });
+
+  it("deve retornar os mesmos resultados em estruturas compartilhadas e circulares", () => {
+    const obj = sharedObj();
+    expectSameAsFinders(
+      obj,
+      ["id", "item", "owner", "self", "name"],
+      [1, 0, obj, obj.a, obj.a.deep.item]
+    );
+  });
+
+  it("deve responder sem percorrer o objeto novamente", () => {
+    const obj = catalog();
+    const index = createDeepIndex(obj);
+    // O índice não acompanha alterações: as consultas vêm do que foi indexado
+    obj.products[0].sku = "Z9";
+    expect(index.findByValue("A1")).toEqual(["products[0].sku"]);
+    expect(index.findByValue("Z9")).toEqual([]);
+  });
+
+  it("deve tratar NaN, chaves symbol e getters como os finders", () => {
+    const sym = Symbol("tag");
+    const obj = {
+      n: NaN,
+      [sym]: { id: 7 },
+      get lazy() {
+        return { id: 8 };
+      },
+    };
+    expect(createDeepIndex(obj).findByValue(NaN)).toEqual([]);
+    expect(createDeepIndex(obj).findAllByKey("id")).toEqual(
+      deepFindAllByKey(obj, "id")
+    );
+
+    const index = createDeepIndex(obj, {
+      includeSymbols: true,
+      includeGetters: true,
+    });
+    expect(index.findByKey(sym)).toBe(obj[sym]);
+    expect(index.findAllByKey("id")).toEqual(
+      deepFindAllByKey(obj, "id", {
+        includeSymbols: true,
+        includeGetters: true,
+      })
+    );
+  });
+
+  it("deve validar a chave procurada", () => {
+    const index = createDeepIndex(catalog());
+    expect(() => index.findByKey("")).toThrow(
+      "findByKey: chaveAlvo deve ser uma string não vazia."
+    );
+    expect(() => index.findAllByKey(1 as any)).toThrow(
+      "findAllByKey: chaveAlvo deve ser uma string não vazia."
+    );
+    expect(index.findAllByKey("id", { limit: 0 })).toEqual([]);
+  });
+
+  it("deve aplicar os limites de SafetyOptions na indexação", () => {
+    expect(() => createDeepIndex(catalog(), { maxDepth: 2 })).toThrow(
+      TraversalLimitError
+    );
+    // Com 'ignore', o índice contém apenas o que foi percorrido até o limite
+    const index = createDeepIndex(catalog(), {
+      maxNodes: 3,
+      onError: "ignore",
+    });
+    expect(index.findByValue("cat")).toEqual(["meta.id"]);
+    expect(index.findByKey("products")).toBeUndefined();
+  });
+});
+
+describe("DeepIndex.rebuild", () => {
+  it("deve reindexar apenas o valor alterado", () => {
+    const obj: any = catalog();
+    const index = createDeepIndex(obj);
+    obj.products[1].variants[0] = { id: 5, sku: "B2-M" };
+    index.rebuild("products[1].variants[0]");
+    expectSameAsFinders(obj, ["id", "sku"], [3, 5, "B2-M", "B2-P"]);
+    expect(index.findByValue(5)).toEqual(["products[1].variants[0].id"]);
+    expect(index.findAllByKey("sku", { order: "dfs" })).toEqual(
+      deepFindAllByKey(obj, "sku", { order: "dfs" })
+    );
+
+    obj.products[0].sku = "A9";
+    index.rebuild(["products", 0, "sku"]);
+    expect(index.findByValue("A9")).toEqual(["products[0].sku"]);
+    expect(index.findByValue("A1")).toEqual([]);
+  });
+
+  it("deve reindexar o pai quando uma chave é adicionada ou removida", () => {
+    const obj: any = catalog();
+    const index = createDeepIndex(obj);
+    obj.products[0].price = 1;
+    index.rebuild("products[0].price");
+    expect(index.findAllByKey("price")).toEqual(deepFindAllByKey(obj, "price"));
+
+    delete obj.products[1].variants;
+    index.rebuild("products[1].variants");
+    expect(index.findByValue("B2-P")).toEqual([]);
+    expect(index.findAllByKey("sku", { order: "dfs" })).toEqual(
+      deepFindAllByKey(obj, "sku", { order: "dfs" })
+    );
+  });
+
+  it("deve reindexar tudo em estruturas compartilhadas ou na raiz", () => {
+    const obj = catalog() as any;
+    const index = createDeepIndex(obj);
+    // A alteração cria uma referência repetida
+    obj.products[0].tags = obj.meta;
+    index.rebuild("products[0].tags");
+    expect(index.findAllByKey("version")).toEqual(
+      deepFindAllByKey(obj, "version")
+    );
+    expect(index.findByValue("x")).toEqual([]);
+
+    obj.extra = { id: 9 };
+    index.rebuild([]);
+    expect(index.findByKey("extra")).toBe(obj.extra);
+    expect(index.findAllByKey("id")).toEqual(deepFindAllByKey(obj, "id"));
+  });
+});
@@ -0,0 +1,296 @@
+import {
+  deepMerge,
+  deepMergeWith,
+  mergeOptions,
+  CallbackError,
+  TraversalLimitError,
+} from "../deep-tools";
+
+/**
+ * Camadas de configuração usadas nos testes de mesclagem.
+ */
+const defaults = () => ({
+  server: { host: "localhost", port: 80, tls: { enabled: false } },
+  plugins: ["log"],
+  users: [
+    { id: 1, name: "Ana" },
+    { id: 2, name: "Bia" },
+  ],
+});
+
+const overrides = () => ({
+  server: { port: 8080, tls: { enabled: true, cert: "c.pem" } },
+  plugins: ["auth"],
+  users: [{ id: 2, admin: true }, { id: 3, name: "Caio" }, { name: "sem id" }],
+});
+
+// --- Suítes de Teste ---
+
+describe("deepMerge", () => {
+  it("deve mesclar objetos recursivamente, mutando o destino", () => {
+    const target = defaults();
+    const result = deepMerge(target, overrides());
+    expect(result).toBe(target);
+    expect(result.server).toEqual({
+      host: "localhost",
+      port: 8080,
+      tls: { enabled: true, cert: "c.pem" },
+    });
+  });
+
+  it("deve substituir arrays por padrão", () => {
+    const result = deepMerge(defaults(), overrides());
+    expect(result.plugins).toEqual(["auth"]);
+    expect(result.users).toEqual(overrides().users);
+  });
+
+  it("deve dar precedência às últimas fontes e ignorar null/undefined", () => {
+    expect(
+      deepMerge({ a: 1, b: 1 }, { a: 2 }, null, undefined, { a: 3, c: 3 })
+    ).toEqual({ a: 3, b: 1, c: 3 });
+  });
+
+  it("não deve sobrescrever valores com undefined", () => {
+    expect(deepMerge({ a: 1 }, { a: undefined, b: undefined })).toEqual({
+      a: 1,
+      b: undefined,
+    });
+  });
+
+  it("deve copiar os valores das fontes, sem modificá-las", () => {
+    const source = overrides();
+    const result = deepMerge({}, source, { server: { port: 1 } });
+    expect(result).toMatchObject({ server: { port: 1 } });
+    expect(source.server.port).toBe(8080);
+    expect(source).toEqual(overrides());
+  });
+
+  it("deve tratar Date, Map e instâncias de classes como valores atômicos", () => {
+    class Point {
+      constructor(public x: number) {}
+    }
+    const date = new Date(0);
+    const map = new Map([["k", 1]]);
+    const point = new Point(1);
+    const result = deepMerge(
+      { date: new Date(1), map: new Map(), point: new Point(2) },
+      { date, map, point }
+    );
+    expect(result.date).toBe(date);
+    expect(result.map).toBe(map);
+    expect(result.point).toBe(point);
+  });
+
+  it("deve substituir valores de tipos diferentes", () => {
+    expect(deepMerge({ a: { b: 1 }, c: [1] }, { a: [1], c: { d: 1 } })).toEqual(
+      { a: [1], c: { d: 1 } }
+    );
+    expect(deepMerge({ a: 1 }, { a: { b: 1 } })).toEqual({ a: { b: 1 } });
+  });
+
+  it("deve ignorar chaves __proto__ e constructor", () => {
+    const payload = JSON.parse(
+      '{"__proto__": {"polluted": true}, "constructor": {"prototype": {"polluted": true}}, "a": {"__proto__": {"polluted": true}}}'
+    );
+    const result = deepMerge({}, payload);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    expect(Object.prototype.hasOwnProperty.call(result, "constructor")).toBe(
+      false
+    );
+    expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+    expect(
+      (result as { a: Record<string, unknown> }).a.polluted
+    ).toBeUndefined();
+  });
+
+  it("deve lidar com referências circulares nas fontes", () => {
+    const source: any = { name: "fonte", arr: [1] };
+    source.self = source;
+    source.arr.push(source);
+
+    const copy: any = deepMerge({}, source);
+    expect(copy.self).toBe(copy);
+    expect(copy.arr[1]).toBe(copy);
+    expect(copy).not.toBe(source);
+
+    const target: any = { self: { existing: true } };
+    target.self.self = target.self;
+    const merged: any = deepMerge(target, source);
+    expect(merged.self.existing).toBe(true);
+    expect(merged.self.name).toBe("fonte");
+  });
+
+  it("deve preservar referências compartilhadas dentro de uma fonte", () => {
+    const shared = { v: 1 };
+    const result: any = deepMerge({}, { x: shared, y: shared });
+    expect(result.x).toBe(result.y);
+    expect(result.x).not.toBe(shared);
+  });
+
+  it("deve lançar TypeError para destinos e fontes inválidos", () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    expect(() => deepMerge(null as any, {})).toThrow(TypeError);
+    expect(() => deepMerge({}, 1)).toThrow(TypeError);
+    expect(() => deepMerge({}, new Date())).toThrow(TypeError);
+    expect(() => deepMerge({}, [1])).toThrow(TypeError);
+  });
+
+  it("deve aceitar opções de mergeOptions como último argumento", () => {
+    const base = defaults();
+    const result = deepMerge(
+      base,
+      overrides(),
+      mergeOptions({ arrayStrategy: "merge-by-key", immutable: true })
+    );
+    expect(result).not.toBe(base);
+    expect(base).toEqual(defaults());
+    expect(result).toEqual(
+      deepMergeWith(
+        { arrayStrategy: "merge-by-key", immutable: true },
+        defaults(),
+        overrides()
+      )
+    );
+
+    // Um objeto simples ao final continua sendo uma fonte
+    expect(deepMerge({ a: [1] }, { immutable: true })).toEqual({
+      a: [1],
+      immutable: true,
+    });
+    const options = mergeOptions({ arrayStrategy: "concat" });
+    expect(Object.keys(options)).toEqual(["arrayStrategy"]);
+    expect(deepMerge({ a: [1] }, { a: [2] }, options)).toEqual({ a: [1, 2] });
+    expect(() =>
+      deepMerge({}, mergeOptions({ arrayStrategy: "x" as any }))
+    ).toThrow('deepMerge: arrayStrategy inválida "x".');
+    expect(() => mergeOptions(null as any)).toThrow(
+      "mergeOptions: opcoes deve ser um objeto."
+    );
+  });
+});
+
+describe("deepMergeWith", () => {
+  it("deve concatenar arrays com 'concat'", () => {
+    const result = deepMergeWith<ReturnType<typeof defaults>>(
+      { arrayStrategy: "concat" },
+      defaults(),
+      overrides()
+    );
+    expect(result.plugins).toEqual(["log", "auth"]);
+  });
+
+  it("deve mesclar arrays por índice com 'merge-by-index'", () => {
+    expect(
+      deepMergeWith(
+        { arrayStrategy: "merge-by-index" },
+        { list: [{ a: 1 }, { b: 1 }, 3] },
+        { list: [{ c: 1 }, undefined] }
+      )
+    ).toEqual({ list: [{ a: 1, c: 1 }, { b: 1 }, 3] });
+  });
+
+  it("deve mesclar arrays por chave com 'merge-by-key'", () => {
+    const result = deepMergeWith<ReturnType<typeof defaults>>(
+      { arrayStrategy: "merge-by-key" },
+      defaults(),
+      overrides()
+    );
+    expect(result.users).toEqual([
+      { id: 1, name: "Ana" },
+      { id: 2, name: "Bia", admin: true },
+      { id: 3, name: "Caio" },
+      { name: "sem id" },
+    ]);
+    expect(
+      deepMergeWith(
+        { arrayStrategy: "merge-by-key", arrayKey: "sku" },
+        [{ sku: "x", qty: 1 }],
+        [{ sku: "x", qty: 2 }]
+      )
+    ).toEqual([{ sku: "x", qty: 2 }]);
+  });
+
+  it("deve aplicar o customizer por caminho", () => {
+    const calls: string[] = [];
+    const result = deepMergeWith(
+      {
+        customizer: (targetValue, sourceValue, path) => {
+          calls.push(path.join("."));
+          if (path.join(".") === "server.port") {
+            return Math.max(targetValue as number, sourceValue as number);
+          }
+          return undefined;
+        },
+      },
+      { server: { port: 9000, host: "a" } },
+      { server: { port: 8080, host: "b" } }
+    );
+    expect(result).toEqual({ server: { port: 9000, host: "b" } });
+    expect(calls).toEqual(["server", "server.port", "server.host"]);
+  });
+
+  it("não deve modificar nenhuma fonte no modo imutável", () => {
+    const base = defaults();
+    const result = deepMergeWith<ReturnType<typeof defaults>>(
+      { immutable: true, arrayStrategy: "merge-by-key" },
+      base,
+      overrides()
+    );
+    expect(base).toEqual(defaults());
+    expect(result).not.toBe(base);
+    expect(result.server).not.toBe(base.server);
+    expect(result.users[0]).not.toBe(base.users[0]);
+    expect(result.users[1]).toEqual({ id: 2, name: "Bia", admin: true });
+  });
+
+  it("deve retornar um objeto vazio no modo imutável sem fontes", () => {
+    expect(deepMergeWith({ immutable: true })).toEqual({});
+    expect(deepMergeWith({ immutable: true }, null, { a: 1 })).toEqual({
+      a: 1,
+    });
+  });
+
+  it("deve lançar TypeError para uma arrayStrategy inválida", () => {
+    expect(() =>
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      deepMergeWith({ arrayStrategy: "zip" as any }, {}, {})
+    ).toThrow(TypeError);
+  });
+
+  it("deve limitar a profundidade de fontes não confiáveis", () => {
+    const untrusted = { a: { b: { c: { d: 1 } } }, e: 2 };
+    expect(() => deepMergeWith({ maxDepth: 2 }, {}, untrusted)).toThrow(
+      TraversalLimitError
+    );
+    expect(
+      deepMergeWith(
+        { maxDepth: 2, onError: "ignore" },
+        { a: { b: "antes" } },
+        untrusted
+      )
+    ).toEqual({ a: { b: { c: undefined } }, e: 2 });
+  });
+
+  it("deve reportar exceções do customizer com o caminho", () => {
+    const customizer = (
+      _target: unknown,
+      _source: unknown,
+      path: unknown[]
+    ) => {
+      if (path.join(".") === "server.port") {
+        throw new Error("falhou");
+      }
+      return undefined;
+    };
+    expect(() =>
+      deepMergeWith({ customizer }, defaults(), { server: { port: 1 } })
+    ).toThrow(CallbackError);
+    const errors: Error[] = [];
+    expect(
+      deepMergeWith({ customizer, onError: "collect", errors }, defaults(), {
+        server: { port: 1 },
+      })
+    ).toMatchObject({ server: { port: 1 } }); // Mesclagem padrão
+    expect((errors[0] as CallbackError).path).toEqual(["server", "port"]);
+  });
+});
@@ -0,0 +1,288 @@
+import { deepObserve, deepUnobserve, deepGet } from "../deep-tools";
+import type { ChangeEvent } from "../deep-tools";
+
+/** Observa um objeto acumulando os eventos recebidos. */
+const observe = <T extends object>(obj: T) => {
+  const events: ChangeEvent[] = [];
+  const state = deepObserve(obj, (changes) => events.push(...changes));
+  return { state, events };
+};
+
+// --- Suítes de Teste ---
+
+describe("deepObserve", () => {
+  it("deve emitir atribuições em qualquer profundidade com o caminho e os valores", () => {
+    const { state, events } = observe({ user: { name: "Ana", tags: ["a"] } });
+    state.user.name = "Bia";
+    state.user.tags[1] = "b";
+    (state.user as any).age = 30;
+    expect(events).toEqual([
+      {
+        op: "set",
+        path: ["user", "name"],
+        oldValue: "Ana",
+        newValue: "Bia",
+      },
+      {
+        op: "set",
+        path: ["user", "tags", 1],
+        oldValue: undefined,
+        newValue: "b",
+      },
+      { op: "set", path: ["user", "age"], oldValue: undefined, newValue: 30 },
+    ]);
+  });
+
+  it("deve emitir remoções com o valor anterior", () => {
+    const { state, events } = observe<any>({ a: { b: 1 } });
+    delete state.a.b;
+    delete state.a.inexistente;
+    expect(events).toEqual([
+      { op: "delete", path: ["a", "b"], oldValue: 1, newValue: undefined },
+    ]);
+  });
+
+  it("não deve emitir quando o valor não muda", () => {
+    const { state, events } = observe({ a: 1, n: NaN });
+    state.a = 1;
+    state.n = NaN;
+    expect(events).toEqual([]);
+  });
+
+  it("deve emitir um único evento por método que modifica arrays", () => {
+    const { state, events } = observe({ list: [3, 1, 2] });
+    state.list.push(4);
+    state.list.splice(0, 1);
+    state.list.sort();
+    expect(events).toEqual([
+      {
+        op: "push",
+        path: ["list"],
+        oldValue: [3, 1, 2],
+        newValue: [3, 1, 2, 4],
+      },
+      {
+        op: "splice",
+        path: ["list"],
+        oldValue: [3, 1, 2, 4],
+        newValue: [1, 2, 4],
+      },
+      { op: "sort", path: ["list"], oldValue: [1, 2, 4], newValue: [1, 2, 4] },
+    ]);
+  });
+
+  it("deve retornar o proxy em métodos que retornam o próprio array", () => {
+    const { state, events } = observe({ list: [1, 2] });
+    const reversed = state.list.reverse();
+    expect(reversed).toBe(state.list);
+    reversed[0] = 9;
+    expect(events.map((e) => e.op)).toEqual(["reverse", "set"]);
+  });
+
+  it("deve emitir propriedades definidas com Object.defineProperty", () => {
+    const raw: any = { m: { a: 1 } };
+    const { state, events } = observe(raw);
+    Object.defineProperty(state.m, "z", {
+      value: state.m,
+      enumerable: true,
+      configurable: true,
+      writable: true,
+    });
+    Reflect.defineProperty(state.m, "a", { value: 2 });
+    Reflect.defineProperty(state.m, "a", { value: 2 }); // Sem alteração
+    expect(events).toEqual([
+      { op: "set", path: ["m", "z"], oldValue: undefined, newValue: raw.m },
+      { op: "set", path: ["m", "a"], oldValue: 1, newValue: 2 },
+    ]);
+    expect(raw.m.z).toBe(raw.m); // Armazenado sem proxy
+    state.m.a = 3; // Atribuições continuam gerando um único evento
+    expect(events).toHaveLength(3);
+  });
+
+  it("deve gerar caminhos que deepGet resolve na estrutura original", () => {
+    const raw = { todos: [{ done: false }] };
+    const { state, events } = observe(raw);
+    state.todos[0].done = true;
+    expect(events[0].path).toEqual(["todos", 0, "done"]);
+    expect(deepGet(raw as any, events[0].path)).toBe(true);
+  });
+
+  it("deve usar o caminho atual após o array ser reorganizado", () => {
+    const { state, events } = observe({ list: [{ id: 1 }, { id: 2 }] });
+    expect(state.list[1].id).toBe(2);
+    state.list.shift();
+    state.list[0].id = 20;
+    expect(events[1].path).toEqual(["list", 0, "id"]);
+  });
+
+  it("deve usar o caminho atual em proxies obtidos antes da reorganização", () => {
+    const raw = { list: [{ n: "a" }, { n: "b" }, { n: "c" }] };
+    const { state, events } = observe(raw);
+    const b = state.list[1];
+    const c = state.list[2];
+    state.list.shift();
+    b.n = "B";
+    expect(events[1].path).toEqual(["list", 0, "n"]);
+    state.list.splice(0, 0, { n: "z" }, { n: "y" });
+    c.n = "C";
+    expect(events[3].path).toEqual(["list", 3, "n"]);
+    expect(deepGet(raw as any, events[3].path)).toBe("C");
+
+    // Objeto movido para outra chave do pai
+    const moved: any = observe<any>({ a: { v: 1 }, b: null });
+    const a = moved.state.a;
+    moved.state.b = moved.state.a;
+    moved.state.a = null;
+    a.v = 2;
+    expect(moved.events[2].path).toEqual(["b", "v"]);
+  });
+
+  it("deve modificar o objeto original sem armazenar proxies", () => {
+    const raw: any = { a: { b: 1 }, c: null };
+    const state = deepObserve(raw, () => undefined);
+    state.c = state.a;
+    state.a.b = 2;
+    expect(raw.a.b).toBe(2);
+    expect(raw.c).toBe(raw.a);
+  });
+
+  it("deve retornar sempre o mesmo proxy para o mesmo caminho", () => {
+    const { state } = observe({ a: { b: {} } });
+    expect(state.a).toBe(state.a);
+    expect(state.a.b).toBe(state.a.b);
+  });
+
+  it("deve tratar referências circulares retornando o proxy do ancestral", () => {
+    const raw: any = { name: "root", child: { name: "child" } };
+    raw.self = raw;
+    raw.child.parent = raw;
+    const { state, events } = observe<any>(raw);
+    expect(state.self).toBe(state);
+    expect(state.child.parent).toBe(state);
+    state.child.parent.child.name = "x";
+    expect(events).toEqual([
+      { op: "set", path: ["child", "name"], oldValue: "child", newValue: "x" },
+    ]);
+  });
+
+  it("não deve observar Map, Set, Date, instâncias de classes nem valores congelados", () => {
+    class Ponto {
+      x = 1;
+    }
+    const raw = {
+      m: new Map(),
+      d: new Date(0),
+      p: new Ponto(),
+      f: Object.freeze({ a: 1 }),
+    };
+    const { state, events } = observe(raw);
+    expect(state.m).toBe(raw.m);
+    expect(state.d).toBe(raw.d);
+    expect(state.p).toBe(raw.p);
+    expect(state.f).toBe(raw.f);
+    state.p.x = 2;
+    expect(events).toEqual([]);
+  });
+
+  it("deve entregar apenas as alterações que afetam os padrões informados", () => {
+    const received: ChangeEvent[] = [];
+    const state = deepObserve(
+      { todos: [{ done: false, title: "a" }], filter: "all" },
+      (changes) => received.push(...changes),
+      { patterns: "todos[*].done" }
+    );
+    state.todos[0].done = true; // o próprio caminho
+    state.todos[0].title = "b"; // outro campo
+    state.filter = "done"; // outra raiz
+    state.todos.push({ done: false, title: "c" }); // ancestral do padrão
+    expect(received.map((e) => [e.op, e.path])).toEqual([
+      ["set", ["todos", 0, "done"]],
+      ["push", ["todos"]],
+    ]);
+  });
+
+  it("deve entregar alterações de descendentes de um padrão selecionado", () => {
+    const received: ChangeEvent[] = [];
+    const state = deepObserve(
+      { user: { address: { city: "x" }, name: "Ana" }, other: 1 },
+      (changes) => received.push(...changes),
+      { patterns: ["user.address"] }
+    );
+    state.user.address.city = "y";
+    state.user.name = "Bia";
+    state.other = 2;
+    expect(received.map((e) => e.path)).toEqual([["user", "address", "city"]]);
+  });
+
+  it("deve agrupar as alterações com batch: true", async () => {
+    const calls: ChangeEvent[][] = [];
+    const state = deepObserve(
+      { a: 1, b: 1 },
+      (changes) => calls.push(changes),
+      { batch: true }
+    );
+    state.a = 2;
+    state.b = 2;
+    expect(calls).toEqual([]);
+    await Promise.resolve();
+    expect(calls).toHaveLength(1);
+    expect(calls[0].map((e) => e.path)).toEqual([["a"], ["b"]]);
+
+    state.a = 3;
+    await Promise.resolve();
+    expect(calls).toHaveLength(2);
+  });
+
+  it("deve acrescentar listeners ao observar um proxy já observado", () => {
+    const first: ChangeEvent[] = [];
+    const second: ChangeEvent[] = [];
+    const state = deepObserve({ a: { b: 1 } }, (c) => first.push(...c));
+    const again = deepObserve(state.a, (c) => second.push(...c));
+    expect(again).toBe(state);
+    state.a.b = 2;
+    expect(first).toHaveLength(1);
+    expect(second[0].path).toEqual(["a", "b"]);
+  });
+
+  it("deve lançar TypeError para entradas inválidas", () => {
+    expect(() => deepObserve(null as any, () => undefined)).toThrow(
+      "deepObserve: obj deve ser um objeto ou array."
+    );
+    expect(() => deepObserve({}, "x" as any)).toThrow(
+      "deepObserve: listener deve ser uma função."
+    );
+  });
+});
+
+describe("deepUnobserve", () => {
+  it("deve remover um listener específico", () => {
+    const events: ChangeEvent[] = [];
+    const listener = (changes: ChangeEvent[]) => events.push(...changes);
+    const other = jest.fn();
+    const state = deepObserve({ a: { b: 1 } }, listener);
+    deepObserve(state, other);
+    expect(deepUnobserve(state.a, listener)).toBe(true);
+    expect(deepUnobserve(state, listener)).toBe(false);
+    state.a.b = 2;
+    expect(events).toEqual([]);
+    expect(other).toHaveBeenCalledTimes(1);
+  });
+
+  it("deve remover todos os listeners quando nenhum for informado", () => {
+    const listener = jest.fn();
+    const state = deepObserve({ a: 1 }, listener);
+    expect(deepUnobserve(state)).toBe(true);
+    state.a = 2;
+    expect(listener).not.toHaveBeenCalled();
+    expect(deepUnobserve({})).toBe(false);
+  });
+
+  it("deve descartar alterações pendentes de um lote", async () => {
+    const listener = jest.fn();
+    const state = deepObserve({ a: 1 }, listener, { batch: true });
+    state.a = 2;
+    deepUnobserve(state, listener);
+    await Promise.resolve();
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
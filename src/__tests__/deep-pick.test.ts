@@ -0,0 +1,238 @@
+import {
+  deepPick,
+  deepOmit,
+  deepRedact,
+  PathSyntaxError,
+  TraversalLimitError,
+} from "../deep-tools";
+
+/**
+ * Payload de requisição com segredos em várias profundidades.
+ */
+const createPayload = () => ({
+  user: "ana",
+  password: "p4ss",
+  auth: { token: "t0k", refreshToken: "r3f", scope: "read" },
+  payment: {
+    creditCard: { number: "4111", holder: "ANA" },
+    method: "card",
+  },
+  items: [
+    { sku: "a", price: 10, meta: { token: "x" } },
+    { sku: "b", price: 20 },
+  ],
+  headers: new Map<unknown, unknown>([
+    ["authorization", "Bearer abc"],
+    ["accept", "json"],
+  ]),
+  tags: new Set(["x", "y"]),
+});
+
+// Objeto com referência circular para testes específicos
+const createCircular = () => {
+  const obj: any = { name: "raiz", secret: "s", child: { secret: "c" } };
+  obj.child.parent = obj;
+  return obj;
+};
+
+class User {
+  constructor(public name: string, public password: string) {}
+
+  greet() {
+    return `Olá, ${this.name}`;
+  }
+}
+
+// Segredos dentro de instâncias de classes e de erros
+const createInstances = () => ({
+  user: new User("ana", "s3cret"),
+  err: Object.assign(new Error("falhou"), { token: "tk", code: 42 }),
+  at: new Date(0),
+});
+
+// --- Suítes de Teste ---
+
+describe("deepOmit", () => {
+  it("deve remover chaves em qualquer profundidade com padrões de um segmento", () => {
+    const result = deepOmit<any>(createPayload(), ["password", "token"]);
+    expect(result).not.toHaveProperty("password");
+    expect(result.auth).toEqual({ refreshToken: "r3f", scope: "read" });
+    expect(result.items[0].meta).toEqual({});
+  });
+
+  it("deve aceitar curingas '*' e '**'", () => {
+    const result = deepOmit<any>(createPayload(), [
+      "*.creditCard.number",
+      "**.price",
+      "auth.*Token",
+    ]);
+    expect(result.payment.creditCard).toEqual({ holder: "ANA" });
+    expect(result.items).toEqual([
+      { sku: "a", meta: { token: "x" } },
+      { sku: "b" },
+    ]);
+    expect(result.auth).toEqual({ token: "t0k", scope: "read" });
+  });
+
+  it("não deve casar padrões de vários segmentos fora da raiz", () => {
+    const result = deepOmit<any>({ a: { b: 1 }, x: { a: { b: 2 } } }, "a.b");
+    expect(result).toEqual({ a: {}, x: { a: { b: 2 } } });
+  });
+
+  it("deve remover elementos de arrays sem deixar buracos e manter os tipos dos contêineres", () => {
+    const result = deepOmit<any>(createPayload(), [
+      "items[0]",
+      "headers.authorization",
+    ]);
+    expect(result.items).toEqual([{ sku: "b", price: 20 }]);
+    expect(result.headers).toBeInstanceOf(Map);
+    expect([...result.headers.keys()]).toEqual(["accept"]);
+    expect(result.tags).toBeInstanceOf(Set);
+    expect([...result.tags]).toEqual(["x", "y"]);
+  });
+
+  it("não deve modificar a entrada", () => {
+    const payload = createPayload();
+    deepOmit(payload, ["password", "**"]);
+    expect(payload).toEqual(createPayload());
+  });
+
+  it("deve preservar referências circulares", () => {
+    const obj = createCircular();
+    const result = deepOmit<any>(obj, "secret");
+    expect(result).toEqual({ name: "raiz", child: { parent: result } });
+    expect(result.child.parent).toBe(result);
+    expect(obj.secret).toBe("s");
+  });
+
+  it("deve avaliar referências compartilhadas em cada caminho", () => {
+    const shared = { v: 1, w: 2 };
+    const result = deepOmit<any>({ x: shared, y: shared }, "y.v");
+    expect(result.x).toEqual({ v: 1, w: 2 });
+    expect(result.y).toEqual({ w: 2 });
+  });
+
+  it("deve lançar erros para padrões inválidos", () => {
+    expect(() => deepOmit({}, [""])).toThrow(TypeError);
+    expect(() => deepOmit({}, "a[0")).toThrow(PathSyntaxError);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    expect(() => deepOmit({}, null as any)).toThrow(TypeError);
+  });
+});
+
+describe("deepPick", () => {
+  it("deve manter apenas as entradas selecionadas e os seus ancestrais", () => {
+    const result = deepPick(createPayload(), [
+      "user",
+      "payment.creditCard.holder",
+      "items[*].sku",
+    ]);
+    expect(result).toEqual({
+      user: "ana",
+      payment: { creditCard: { holder: "ANA" } },
+      items: [{ sku: "a" }, { sku: "b" }],
+    });
+  });
+
+  it("deve manter subárvores inteiras e omitir contêineres sem seleções", () => {
+    const result = deepPick(createPayload(), ["auth", "items[*].meta.token"]);
+    expect(result).toEqual({
+      auth: { token: "t0k", refreshToken: "r3f", scope: "read" },
+      items: [{ meta: { token: "x" } }],
+    });
+  });
+
+  it("deve selecionar entradas de Map e Set", () => {
+    const result = deepPick<any>(createPayload(), [
+      "headers.accept",
+      "tags[1]",
+    ]);
+    expect(result.headers).toEqual(new Map([["accept", "json"]]));
+    expect(result.tags).toEqual(new Set(["y"]));
+  });
+
+  it("deve retornar um contêiner vazio se nada for selecionado", () => {
+    expect(deepPick(createPayload(), "inexistente")).toEqual({});
+    expect(deepPick([1, 2], "x")).toEqual([]);
+  });
+
+  it("deve preservar referências circulares", () => {
+    const result = deepPick<any>(createCircular(), ["name", "child.parent"]);
+    expect(result.name).toBe("raiz");
+    expect(result.child.parent).toBe(result);
+    expect(result).not.toHaveProperty("secret");
+  });
+});
+
+describe("deepRedact", () => {
+  it("deve substituir os valores selecionados mantendo as chaves", () => {
+    const result = deepRedact<any>(createPayload(), [
+      "password",
+      "token",
+      "*.creditCard",
+    ]);
+    expect(result.password).toBe("[REDACTED]");
+    expect(result.auth.token).toBe("[REDACTED]");
+    expect(result.items[0].meta.token).toBe("[REDACTED]");
+    expect(result.payment.creditCard).toBe("[REDACTED]");
+    expect(result.auth.scope).toBe("read");
+  });
+
+  it("deve aceitar uma máscara personalizada", () => {
+    expect(deepRedact({ a: { pin: 1 }, pin: 2 }, "pin", null)).toEqual({
+      a: { pin: null },
+      pin: null,
+    });
+  });
+
+  it("não deve expor valores além dos limites", () => {
+    const payload = { user: "ana", deep: { a: { password: "p4ss" } } };
+    expect(() =>
+      deepRedact(payload, "password", "***", { maxDepth: 2 })
+    ).toThrow(TraversalLimitError);
+    // Valores não visitados são omitidos, nunca copiados sem máscara
+    expect(
+      deepRedact(payload, "password", "***", { maxDepth: 2, onError: "ignore" })
+    ).toEqual({ user: "ana", deep: { a: {} } });
+    expect(
+      deepPick(payload, "**.password", { maxNodes: 3, onError: "ignore" })
+    ).toEqual({});
+  });
+
+  it("deve percorrer instâncias de classes e erros, mantendo o protótipo", () => {
+    const input = createInstances();
+    const result = deepRedact<any>(input, ["password", "token"]);
+    expect(result.user).toBeInstanceOf(User);
+    expect(result.user).not.toBe(input.user);
+    expect({ ...result.user }).toEqual({ name: "ana", password: "[REDACTED]" });
+    expect(result.user.greet()).toBe("Olá, ana");
+    expect(result.err).toBeInstanceOf(Error);
+    expect(result.err.message).toBe("falhou");
+    expect(result.err.stack).toBe(input.err.stack);
+    expect({ ...result.err }).toEqual({ token: "[REDACTED]", code: 42 });
+    expect(result.at).toBe(input.at);
+    expect(input.user.password).toBe("s3cret");
+
+    const omitted = deepOmit<any>(input, ["password", "token"]);
+    expect({ ...omitted.user }).toEqual({ name: "ana" });
+    expect({ ...omitted.err }).toEqual({ code: 42 });
+
+    const picked = deepPick<any>(input, ["user.name", "err.code"]);
+    expect(picked.user).toBeInstanceOf(User);
+    expect({ ...picked.user }).toEqual({ name: "ana" });
+    expect({ ...picked.err }).toEqual({ code: 42 });
+    expect(picked.err.message).toBe("falhou");
+  });
+
+  it("deve contar cada valor uma única vez em maxNodes", () => {
+    // deepPick percorre o objeto duas vezes, mas os limites valem para os valores visitados
+    expect(deepPick({ a: 1, b: 2 }, ["a"], { maxNodes: 2 })).toEqual({ a: 1 });
+    expect(deepOmit({ a: 1, b: 2 }, ["a"], { maxNodes: 2 })).toEqual({ b: 2 });
+    expect(() => deepPick({ a: 1, b: 2 }, ["a"], { maxNodes: 1 })).toThrow(
+      TraversalLimitError
+    );
+    expect(() => deepOmit({ a: 1, b: 2 }, ["a"], { maxNodes: 1 })).toThrow(
+      TraversalLimitError
+    );
+  });
+});
@@ -0,0 +1,168 @@
+import {
+  deepQuery,
+  deepGet,
+  PathSyntaxError,
+  TraversalLimitError,
+} from "../deep-tools";
+
+const testObj = {
+  a: 1,
+  b: {
+    c: "hello",
+    d: [
+      { e: 3, f: true, nested: { g: "deep" } },
+      { e: 4, f: false },
+      null,
+      { e: 3, f: true },
+    ],
+    h: null,
+  },
+  "key with.dot": "dot-value",
+  j: [10, 20, 30, 40, 50],
+  k: 3,
+};
+
+// Objeto com referência circular para testes específicos
+const circularObj: any = { prop: "value", arr: [1] };
+circularObj.self = circularObj;
+circularObj.arr.push(circularObj);
+
+/** Retorna apenas os valores encontrados por deepQuery. */
+const values = (expression: string, obj: unknown = testObj) =>
+  deepQuery(obj, expression).map((match) => match.value);
+
+// --- Suítes de Teste ---
+
+describe("deepQuery", () => {
+  it("deve aceitar a sintaxe de caminho comum", () => {
+    expect(deepQuery(testObj, "b.d[0].e")).toEqual([
+      { path: ["b", "d", 0, "e"], value: 3 },
+    ]);
+    expect(values('["key with.dot"]')).toEqual(["dot-value"]);
+    expect(values("$.b.c")).toEqual(["hello"]);
+    expect(values("j[-1]")).toEqual([50]);
+    expect(values("b.x")).toEqual([]);
+  });
+
+  it("deve suportar curingas", () => {
+    expect(values("b.d[*].e")).toEqual([3, 4, 3]);
+    expect(values("b.d.*.f")).toEqual([true, false, true]);
+    expect(values("$.*")).toHaveLength(5);
+  });
+
+  it("deve suportar descida recursiva", () => {
+    expect(values("$..e")).toEqual([3, 4, 3]);
+    expect(values("..g")).toEqual(["deep"]);
+    expect(deepQuery(testObj, "b..f").map((match) => match.path)).toEqual([
+      ["b", "d", 0, "f"],
+      ["b", "d", 1, "f"],
+      ["b", "d", 3, "f"],
+    ]);
+    expect(values("$..[0]")).toEqual([testObj.b.d[0], 10]);
+  });
+
+  it("deve suportar fatias de arrays", () => {
+    expect(values("j[1:3]")).toEqual([20, 30]);
+    expect(values("j[:2]")).toEqual([10, 20]);
+    expect(values("j[-2:]")).toEqual([40, 50]);
+    expect(values("j[::2]")).toEqual([10, 30, 50]);
+    expect(values("j[::-1]")).toEqual([50, 40, 30, 20, 10]);
+    expect(values("j[10:]")).toEqual([]);
+  });
+
+  it("deve suportar uniões", () => {
+    expect(values("j[0,2]")).toEqual([10, 30]);
+    expect(values("$['a','k']")).toEqual([1, 3]);
+    expect(values("j[0,3:]")).toEqual([10, 40, 50]);
+  });
+
+  it("deve suportar filtros", () => {
+    expect(deepQuery(testObj, "b.d[?(@.f == true)].e")).toEqual([
+      { path: ["b", "d", 0, "e"], value: 3 },
+      { path: ["b", "d", 3, "e"], value: 3 },
+    ]);
+    expect(values("b.d[?(@.e > 3)].e")).toEqual([4]);
+    expect(values("b.d[?(@.nested)].e")).toEqual([3]);
+    expect(values("b.d[?(!@.nested && @.f)].e")).toEqual([4, 3]);
+    expect(values("b.d[?(@.f == false || @.nested.g == 'deep')].e")).toEqual([
+      3, 4,
+    ]);
+    expect(values("j[?(@ >= 30 && @ < 50)]")).toEqual([30, 40]);
+    expect(values("b.d[?(@.e == $.k)].f")).toEqual([true, true]);
+    expect(values("b.d[?(@ == null)]")).toEqual([null]);
+  });
+
+  it("deve produzir caminhos que deepGet resolve", () => {
+    for (const { path, value } of deepQuery(testObj, "$..*")) {
+      expect(deepGet(testObj, path)).toBe(value);
+    }
+  });
+
+  it("deve resolver posições de Set e índices de typed arrays como deepGet", () => {
+    const obj = {
+      s: new Set([{ id: 1 }, { id: 2 }]),
+      t: new Uint8Array([4, 5, 6]),
+    };
+    const [, second] = deepQuery(obj, "$.s[*].id");
+    expect(second.path).toEqual(["s", 1, "id"]);
+    expect(deepQuery(obj, second.path.join("."))).toEqual([second]);
+    expect(deepQuery(obj, "$.s[-1].id")).toEqual([second]);
+    expect(deepQuery(obj, "$.s[2]")).toEqual([]);
+    expect(deepQuery(obj, "$.t[-1]")).toEqual([{ path: ["t", 2], value: 6 }]);
+    expect(deepQuery(obj, "$.t[0]")[0].value).toBe(deepGet(obj, "t[0]"));
+  });
+
+  it("deve lidar com referências circulares", () => {
+    expect(values("$..prop", circularObj)).toEqual(["value"]);
+    expect(values("$..[0]", circularObj)).toEqual([1]);
+  });
+
+  it("deve lançar PathSyntaxError com a posição do erro", () => {
+    expect(() => deepQuery(testObj, "b.d[0")).toThrow(PathSyntaxError);
+    expect(() => deepQuery(testObj, "b.d[?(@.e ==)]")).toThrow(PathSyntaxError);
+    expect(() => deepQuery(testObj, "b..")).toThrow(PathSyntaxError);
+    expect(() => deepQuery(testObj, "j[::0]")).toThrow(PathSyntaxError);
+
+    expect.assertions(7);
+    try {
+      deepQuery(testObj, "b.d[?(@.e > 3]");
+    } catch (error) {
+      expect(error).toBeInstanceOf(PathSyntaxError);
+      expect((error as PathSyntaxError).position).toBe(13);
+      expect((error as PathSyntaxError).path).toBe("b.d[?(@.e > 3]");
+    }
+  });
+
+  it("deve lançar TypeError se a expressão não for uma string", () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    expect(() => deepQuery(testObj, null as any)).toThrow(TypeError);
+  });
+
+  it("deve aplicar maxDepth e maxNodes à descida recursiva", () => {
+    expect(() => deepQuery(testObj, "$..g", { maxDepth: 4 })).toThrow(
+      TraversalLimitError
+    );
+    expect(
+      deepQuery(testObj, "$..g", { maxDepth: 4, onError: "ignore" })
+    ).toEqual([]);
+    expect(deepQuery(testObj, "$..g", { maxDepth: 5 })).toEqual([
+      { path: ["b", "d", 0, "nested", "g"], value: "deep" },
+    ]);
+    expect(() => deepQuery(testObj, "$..*", { maxNodes: 5 })).toThrow(
+      TraversalLimitError
+    );
+  });
+
+  it("deve contar cada valor uma única vez em maxNodes", () => {
+    // 'a' e 'a.b' são alcançados pela descida recursiva e de novo pelo seletor
+    expect(deepQuery({ a: { b: 1 } }, "$..b", { maxNodes: 2 })).toEqual([
+      { path: ["a", "b"], value: 1 },
+    ]);
+    expect(() => deepQuery({ a: { b: 1 } }, "$..b", { maxNodes: 1 })).toThrow(
+      TraversalLimitError
+    );
+    expect(deepQuery({ a: { b: 1 } }, "a.b", { maxNodes: 2 })).toEqual([
+      { path: ["a", "b"], value: 1 },
+    ]);
+  });
+});
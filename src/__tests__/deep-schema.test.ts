@@ -0,0 +1,206 @@
+import { inferSchema, deepGet, TraversalLimitError } from "../deep-tools";
+
+const users = [
+  { id: 1, name: "Ana", tags: ["a"], address: { city: "Recife" } },
+  {
+    id: 2,
+    name: null,
+    tags: [],
+    address: { city: "Natal", zip: "59000" },
+    email: "bia@x.com",
+  },
+  { id: 3.5, name: "Caio", tags: ["b", 2], address: null },
+];
+
+// --- Suítes de Teste ---
+
+describe("inferSchema", () => {
+  it("deve combinar as amostras, detectando chaves opcionais, uniões e campos anuláveis", () => {
+    expect(inferSchema(users).root).toEqual({
+      types: ["object"],
+      properties: [
+        { key: "id", required: true, schema: { types: ["number"] } },
+        { key: "name", required: true, schema: { types: ["string", "null"] } },
+        {
+          key: "tags",
+          required: true,
+          schema: {
+            types: ["array"],
+            items: { types: ["string", "integer"] },
+          },
+        },
+        {
+          key: "address",
+          required: true,
+          schema: {
+            types: ["object", "null"],
+            properties: [
+              { key: "city", required: true, schema: { types: ["string"] } },
+              { key: "zip", required: false, schema: { types: ["string"] } },
+            ],
+          },
+        },
+        { key: "email", required: false, schema: { types: ["string"] } },
+      ],
+    });
+  });
+
+  it("deve gerar um documento JSON Schema draft 2020-12", () => {
+    expect(inferSchema(users).toJsonSchema()).toEqual({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      type: "object",
+      properties: {
+        id: { type: "number" },
+        name: { type: ["string", "null"] },
+        tags: { type: "array", items: { type: ["string", "integer"] } },
+        address: {
+          type: ["object", "null"],
+          properties: { city: { type: "string" }, zip: { type: "string" } },
+          required: ["city"],
+        },
+        email: { type: "string" },
+      },
+      required: ["id", "name", "tags", "address"],
+    });
+    // Arrays sem elementos observados aceitam qualquer elemento
+    expect(inferSchema([[], { a: 1 }]).toJsonSchema()).toEqual({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      type: ["object", "array"],
+      properties: { a: { type: "integer" } },
+      required: ["a"],
+    });
+    expect(inferSchema([]).toJsonSchema()).toEqual({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+    });
+  });
+
+  it("deve gerar declarações TypeScript", () => {
+    expect(inferSchema(users).toTypeScript("User")).toBe(
+      [
+        "export interface User {",
+        "  id: number;",
+        "  name: string | null;",
+        "  tags: (string | number)[];",
+        "  address: {",
+        "    city: string;",
+        "    zip?: string;",
+        "  } | null;",
+        "  email?: string;",
+        "}",
+        "",
+      ].join("\n")
+    );
+    expect(inferSchema([[{ "first-name": "Ana" }, {}]]).toTypeScript()).toBe(
+      'export type Root = {\n  "first-name"?: string;\n}[];\n'
+    );
+    expect(inferSchema([1, "a", [], {}]).toTypeScript("Value")).toBe(
+      "export type Value = Record<string, unknown> | unknown[] | string | number;\n"
+    );
+    expect(inferSchema([]).toTypeScript()).toBe(
+      "export type Root = unknown;\n"
+    );
+    expect(() => inferSchema(users).toTypeScript("meu tipo")).toThrow(
+      "toTypeScript: nome deve ser um identificador válido."
+    );
+  });
+
+  it("deve listar os caminhos permitidos, utilizáveis com deepGet e deepPick", () => {
+    const paths = inferSchema(users).paths();
+    expect(paths).toEqual([
+      "id",
+      "name",
+      "tags",
+      "tags[*]",
+      "address",
+      "address.city",
+      "address.zip",
+      "email",
+    ]);
+    expect(inferSchema([{ "a.b": [{ c: 1 }] }, [[true]]]).paths()).toEqual([
+      '["a.b"]',
+      '["a.b"][*]',
+      '["a.b"][*].c',
+      "[*]",
+      "[*][*]",
+    ]);
+    expect(deepGet(users[1], paths[6])).toBe("59000");
+  });
+
+  it("deve descrever valores como JSON.stringify", () => {
+    const sample = {
+      at: new Date(0),
+      big: BigInt(1),
+      fn: () => 1,
+      missing: undefined,
+      list: [undefined],
+      set: new Set([1.5]),
+      map: new Map([["k", true]]),
+    };
+    expect(inferSchema([sample]).toJsonSchema()).toEqual({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      type: "object",
+      properties: {
+        at: { type: "string" },
+        big: { type: "integer" },
+        list: { type: "array", items: { type: "null" } },
+        set: { type: "array", items: { type: "number" } },
+        map: {
+          type: "object",
+          properties: { k: { type: "boolean" } },
+          required: ["k"],
+        },
+      },
+      required: ["at", "big", "list", "set", "map"],
+    });
+  });
+
+  it("deve tratar referências compartilhadas e circulares", () => {
+    const shared = { id: 1 };
+    const node: any = { name: "raiz", a: shared, b: shared, children: [] };
+    node.children.push(node);
+    node.parent = node;
+    expect(inferSchema([node]).toJsonSchema()).toEqual({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        a: {
+          type: "object",
+          properties: { id: { type: "integer" } },
+          required: ["id"],
+        },
+        b: {
+          type: "object",
+          properties: { id: { type: "integer" } },
+          required: ["id"],
+        },
+        children: { type: "array", items: { type: "object" } },
+        parent: { type: "object" },
+      },
+      required: ["name", "a", "b", "children", "parent"],
+    });
+  });
+
+  it("deve tratar a chave __proto__ como uma propriedade comum", () => {
+    const schema = inferSchema([JSON.parse('{"__proto__": {"x": 1}}')]);
+    const json = schema.toJsonSchema() as any;
+    expect(Object.keys(json.properties)).toEqual(["__proto__"]);
+    expect(Object.getPrototypeOf(json.properties)).toBe(Object.prototype);
+    expect(schema.paths()).toEqual(["__proto__", "__proto__.x"]);
+  });
+
+  it("deve validar as amostras e aplicar os limites de SafetyOptions", () => {
+    expect(() => inferSchema({} as any)).toThrow(
+      "inferSchema: amostras deve ser um array."
+    );
+    expect(() => inferSchema(users, { maxDepth: 1 })).toThrow(
+      TraversalLimitError
+    );
+    // Os limites valem para todas as amostras juntas
+    const schema = inferSchema([{ a: 1, b: 2 }, { c: 3 }], {
+      maxNodes: 2,
+      onError: "ignore",
+    });
+    expect(schema.paths()).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,266 @@
+import {
+  deepStringify,
+  deepParse,
+  deepEqual,
+  CallbackError,
+  PathSyntaxError,
+  TraversalLimitError,
+} from "../deep-tools";
+import type { TypeHandler } from "../deep-tools";
+
+const testObj = {
+  a: 1,
+  b: { c: "hello", d: [{ e: 3 }, { e: 4 }] },
+  f: [1, "x", null, true],
+};
+
+// Objeto com referência circular para testes específicos
+const circularObj: any = { prop: "value", arr: [1] };
+circularObj.self = circularObj;
+circularObj.arr.push(circularObj);
+
+class Money {
+  constructor(public cents: number, public currency: string) {}
+}
+
+const moneyHandler: TypeHandler<Money> = {
+  type: "Money",
+  test: (value) => value instanceof Money,
+  serialize: (money) => [money.cents, money.currency],
+  deserialize: (data) => {
+    const [cents, currency] = data as [number, string];
+    return new Money(cents, currency);
+  },
+};
+
+// --- Suítes de Teste ---
+
+describe("deepStringify", () => {
+  it("deve produzir o mesmo texto de JSON.stringify para JSON comum", () => {
+    expect(deepStringify(testObj)).toBe(JSON.stringify(testObj));
+    expect(deepStringify(testObj, { space: 2 })).toBe(
+      JSON.stringify(testObj, null, 2)
+    );
+    expect(deepStringify({ a: [], b: {} }, { space: "\t" })).toBe(
+      JSON.stringify({ a: [], b: {} }, null, "\t")
+    );
+    const special = {
+      u: undefined,
+      fn: () => 1,
+      n: NaN,
+      arr: [undefined, Infinity],
+      s: 'aspas " e \n',
+    };
+    expect(deepStringify(special)).toBe(JSON.stringify(special));
+    expect(deepStringify("x")).toBe('"x"');
+  });
+
+  it("deve escrever os buracos de arrays esparsos como null", () => {
+    const sparse = [1, , 3];
+    expect(deepStringify(sparse)).toBe("[1,null,3]");
+    expect(deepStringify({ a: sparse }, { space: 2 })).toBe(
+      JSON.stringify({ a: sparse }, null, 2)
+    );
+    expect(deepParse(deepStringify(new Array(2)))).toEqual([null, null]);
+  });
+
+  it("deve escrever referências circulares e repetidas como $ref", () => {
+    expect(JSON.parse(deepStringify(circularObj))).toEqual({
+      prop: "value",
+      arr: [1, { $ref: "" }],
+      self: { $ref: "" },
+    });
+
+    const shared = { id: 1 };
+    const doc = { "key.dot": shared, list: [shared, { inner: shared }] };
+    expect(JSON.parse(deepStringify(doc))).toEqual({
+      "key.dot": { id: 1 },
+      list: [{ $ref: '["key.dot"]' }, { inner: { $ref: '["key.dot"]' } }],
+    });
+  });
+
+  it("deve ordenar as chaves com sortKeys", () => {
+    const a = { b: 1, a: { z: 1, y: 2 }, "10": 0, "2": 0 };
+    const b = { "2": 0, a: { y: 2, z: 1 }, "10": 0, b: 1 };
+    expect(deepStringify(a, { sortKeys: true })).toBe(
+      '{"10":0,"2":0,"a":{"y":2,"z":1},"b":1}'
+    );
+    expect(deepStringify(a, { sortKeys: true })).toBe(
+      deepStringify(b, { sortKeys: true })
+    );
+    expect(
+      deepStringify({ a: 1, b: 2 }, { sortKeys: (x, y) => y.localeCompare(x) })
+    ).toBe('{"b":2,"a":1}');
+  });
+
+  it("deve gravar Date, Map e Set com $type", () => {
+    const doc = {
+      at: new Date(0),
+      map: new Map<unknown, unknown>([
+        ["k", 1],
+        [2, [3]],
+      ]),
+      set: new Set(["x"]),
+    };
+    expect(JSON.parse(deepStringify(doc))).toEqual({
+      at: { $type: "Date", value: "1970-01-01T00:00:00.000Z" },
+      map: {
+        $type: "Map",
+        value: [
+          ["k", 1],
+          [2, [3]],
+        ],
+      },
+      set: { $type: "Set", value: ["x"] },
+    });
+    expect(JSON.parse(deepStringify(doc, { space: 2 }))).toEqual(
+      JSON.parse(deepStringify(doc))
+    );
+  });
+
+  it("deve escapar chaves que começam com $", () => {
+    expect(deepStringify({ $ref: "x", $$y: 1, a$: 2 })).toBe(
+      '{"$$ref":"x","$$$y":1,"a$":2}'
+    );
+  });
+
+  it("deve lançar TypeError para BigInt e ciclos que não podem ser representados", () => {
+    expect(() => deepStringify({ n: BigInt(1) })).toThrow(TypeError);
+    // Os dados de um tipo personalizado existem antes do próprio valor
+    const wrapper: TypeHandler = {
+      type: "Wrapper",
+      test: (value) => value instanceof Money,
+      serialize: (value) => ({ self: value }),
+      deserialize: (data) => data,
+    };
+    expect(() =>
+      deepStringify({ m: new Money(1, "BRL") }, { types: [wrapper] })
+    ).toThrow(
+      'deepStringify: referência circular em "m.self" não pode ser representada.'
+    );
+  });
+
+  it("deve referenciar objetos usados como chaves de Map pela ordem", () => {
+    const key: any = { id: 1 };
+    key.me = key;
+    const other = { id: 2 };
+    const obj = {
+      m: new Map<unknown, unknown>([
+        [key, "v"],
+        [other, key],
+      ]),
+      first: key,
+      second: other,
+    };
+    const text = deepStringify(obj);
+    expect(JSON.parse(text).first).toEqual({ $ref: 0 });
+    const parsed = deepParse<any>(text);
+    const [parsedKey, parsedOther] = [...parsed.m.keys()];
+    expect(parsedKey.me).toBe(parsedKey);
+    expect(parsed.m.get(parsedOther)).toBe(parsedKey);
+    expect(parsed.first).toBe(parsedKey);
+    expect(parsed.second).toBe(parsedOther);
+    expect(parsedKey).toEqual(key);
+  });
+
+  it("deve aplicar onError e os limites de SafetyOptions", () => {
+    const failing: TypeHandler = {
+      type: "X",
+      test: () => true,
+      serialize: () => {
+        throw new Error("falhou");
+      },
+      deserialize: (data) => data,
+    };
+    expect(() => deepStringify({ a: 1 }, { types: [failing] })).toThrow(
+      CallbackError
+    );
+    expect(
+      deepStringify({ a: 1 }, { types: [failing], onError: "ignore" })
+    ).toBe('{"a":1}');
+    expect(() => deepStringify(testObj, { maxDepth: 2 })).toThrow(
+      TraversalLimitError
+    );
+    expect(
+      deepStringify({ a: { b: 1 }, c: 2 }, { maxDepth: 1, onError: "ignore" })
+    ).toBe('{"a":{},"c":2}');
+  });
+});
+
+describe("deepParse", () => {
+  it("deve restaurar referências circulares e compartilhadas", () => {
+    const copy = deepParse<any>(deepStringify(circularObj));
+    expect(copy).not.toBe(circularObj);
+    expect(copy.self).toBe(copy);
+    expect(copy.arr[1]).toBe(copy);
+    expect(copy.prop).toBe("value");
+    expect(deepEqual(copy, circularObj)).toBe(true);
+
+    const shared = { id: 1 };
+    const doc = { "key.dot": shared, list: [shared, { inner: shared }] };
+    const parsed = deepParse<any>(deepStringify(doc, { space: 2 }));
+    expect(parsed.list[0]).toBe(parsed["key.dot"]);
+    expect(parsed.list[1].inner).toBe(parsed["key.dot"]);
+  });
+
+  it("deve restaurar Date, Map, Set e chaves com $", () => {
+    const inner = { v: 1 };
+    const doc: any = {
+      at: new Date(1234),
+      invalid: new Date(NaN),
+      map: new Map<unknown, unknown>([
+        ["k", inner],
+        [1, "chave numérica"],
+      ]),
+      set: new Set([inner, 2]),
+      $ref: "não é referência",
+    };
+    doc.map.set("self", doc.map);
+    const copy = deepParse<any>(deepStringify(doc));
+    expect(deepEqual(copy, doc)).toBe(true);
+    expect(copy.at).toBeInstanceOf(Date);
+    expect(copy.map.get("self")).toBe(copy.map);
+    expect([...copy.set][0]).toBe(copy.map.get("k"));
+    expect(copy.$ref).toBe("não é referência");
+
+    const objectKey = deepParse<Map<unknown, unknown>>(
+      deepStringify(new Map([[{ id: 1 }, "valor"]]))
+    );
+    expect([...objectKey]).toEqual([[{ id: 1 }, "valor"]]);
+  });
+
+  it("deve usar handlers de tipos personalizados", () => {
+    const price = new Money(150, "BRL");
+    const doc = { price, again: price };
+    const text = deepStringify(doc, { types: [moneyHandler] });
+    expect(JSON.parse(text)).toEqual({
+      price: { $type: "Money", value: [150, "BRL"] },
+      again: { $ref: "price" },
+    });
+    const copy = deepParse<any>(text, { types: [moneyHandler] });
+    expect(copy.price).toBeInstanceOf(Money);
+    expect(copy.price).toEqual(price);
+    expect(copy.again).toBe(copy.price);
+    expect(() => deepParse(text)).toThrow(
+      'deepParse: tipo "Money" desconhecido em "price"; informe um handler em types.'
+    );
+  });
+
+  it("deve aceitar JSON comum e criar __proto__ como propriedade própria", () => {
+    expect(deepParse(JSON.stringify(testObj))).toEqual(testObj);
+    const parsed = deepParse<any>('{"__proto__": {"polluted": true}}');
+    expect(Object.keys(parsed)).toEqual(["__proto__"]);
+    expect(({} as any).polluted).toBeUndefined();
+  });
+
+  it("deve lançar erros para referências inválidas", () => {
+    expect(() => deepParse('{"a": {"$ref": "b"}, "b": 1}')).toThrow(
+      SyntaxError
+    );
+    expect(() => deepParse('{"a": {"$ref": "b[0"}}')).toThrow(PathSyntaxError);
+    expect(() => deepParse('{"a": {"$ref": 0}}')).toThrow(
+      'deepParse: referência 0 em "a" não aponta para um valor já lido.'
+    );
+    expect(() => deepParse("{")).toThrow(SyntaxError);
+  });
+});
@@ -0,0 +1,287 @@
+import {
+  deepSet,
+  deepUnset,
+  deepUpdate,
+  deepSetImmutable,
+  deepUnsetImmutable,
+  deepUpdateImmutable,
+} from "../deep-tools";
+
+/**
+ * Cria um novo objeto de teste a cada chamada, já que as funções mutáveis
+ * alteram a entrada.
+ */
+const createTestObj = () => ({
+  a: 1,
+  b: {
+    c: "hello",
+    d: [{ e: 3 }, { e: 4 }],
+  },
+  "key with.dot": "dot-value",
+  j: [10, 20, 30],
+});
+
+// --- Suítes de Teste ---
+
+describe("deepSet", () => {
+  it("deve definir valores existentes usando notação de ponto e de array", () => {
+    const obj = createTestObj();
+    deepSet(obj, "b.c", "world");
+    deepSet(obj, ["b", "d", 1, "e"], 5);
+    expect(obj.b.c).toBe("world");
+    expect(obj.b.d[1].e).toBe(5);
+  });
+
+  it("deve retornar o próprio objeto", () => {
+    const obj = createTestObj();
+    expect(deepSet(obj, "a", 2)).toBe(obj);
+  });
+
+  it("deve criar objetos ou arrays intermediários de acordo com o próximo segmento", () => {
+    const obj: any = {};
+    deepSet(obj, "x.y[0].z", 1);
+    deepSet(obj, "w.0", "zero");
+    deepSet(obj, "v.k", "chave");
+    expect(obj).toEqual({
+      x: { y: [{ z: 1 }] },
+      w: ["zero"],
+      v: { k: "chave" },
+    });
+    expect(Array.isArray(obj.x.y)).toBe(true);
+  });
+
+  it("deve suportar a sintaxe de colchetes com aspas", () => {
+    const obj: any = createTestObj();
+    deepSet(obj, '["key with.dot"]', "novo");
+    deepSet(obj, "b['chave com.ponto'].x", 1);
+    expect(obj["key with.dot"]).toBe("novo");
+    expect(obj.b["chave com.ponto"]).toEqual({ x: 1 });
+  });
+
+  it("deve substituir valores intermediários primitivos", () => {
+    const obj: any = { a: 1 };
+    deepSet(obj, "a.b", 2);
+    expect(obj).toEqual({ a: { b: 2 } });
+  });
+
+  it("deve suportar índices negativos e entradas de Map", () => {
+    const obj = { j: [10, 20, 30], m: new Map<unknown, unknown>([[1, "um"]]) };
+    deepSet(obj, "j[-1]", 99);
+    deepSet(obj, "m[1]", "UM");
+    deepSet(obj, "m.novo.x", 1);
+    expect(obj.j).toEqual([10, 20, 99]);
+    expect(obj.m.get(1)).toBe("UM");
+    expect(obj.m.get("novo")).toEqual({ x: 1 });
+  });
+
+  it("deve escrever membros de Set pela posição e índices negativos de typed arrays", () => {
+    const obj: any = { s: new Set(["a", { v: 1 }, "c"]), t: new Uint8Array(3) };
+    deepSet(obj, "s[0]", "A");
+    deepSet(obj, "s[-2].v", 2);
+    deepSet(obj, "s[3]", "d"); // A posição seguinte ao último membro acrescenta
+    expect([...obj.s]).toEqual(["A", { v: 2 }, "c", "d"]);
+    deepSet(obj, "t[-1]", 7);
+    expect([...obj.t]).toEqual([0, 0, 7]);
+
+    const empty: any = { s: new Set() };
+    deepSet(empty, "s[0]", 1);
+    expect(empty.s.size).toBe(1);
+    expect(empty.s.has(1)).toBe(true);
+    expect(() => deepSet(empty, "s[5]", 1)).toThrow(
+      'deepSet: "5" não é uma posição válida do Set (tamanho 1).'
+    );
+    expect(() => deepSet(empty, "s.x", 1)).toThrow(TypeError);
+  });
+
+  it("deve recusar valores repetidos em Set e índices negativos além do início", () => {
+    const obj: any = { s: new Set([1, 2]), a: [1] };
+    deepSet(obj, "s[1]", 2); // O mesmo membro na mesma posição
+    expect(() => deepSet(obj, "s[1]", 1)).toThrow(
+      "deepSet: o valor já é membro do Set na posição 0."
+    );
+    expect([...obj.s]).toEqual([1, 2]);
+    expect(() => deepSet(obj, "a[-3]", 5)).toThrow(
+      "deepSet: o índice -3 ultrapassa o início do array (tamanho 1)."
+    );
+    expect(() => deepSetImmutable(obj, "a[-2].b", 5)).toThrow(TypeError);
+    expect(obj.a).toEqual([1]);
+    expect(Object.keys(obj.a)).toEqual(["0"]);
+  });
+
+  it("deve lançar TypeError para entradas inválidas", () => {
+    expect(() => deepSet(null, "a", 1)).toThrow(TypeError);
+    expect(() => deepSet(123, "a", 1)).toThrow(TypeError);
+    expect(() => deepSet({}, "", 1)).toThrow(TypeError);
+    expect(() => deepSet({}, [], 1)).toThrow(TypeError);
+  });
+});
+
+describe("deepUnset", () => {
+  it("deve remover propriedades de objetos", () => {
+    const obj = createTestObj();
+    expect(deepUnset(obj, "b.c")).toBe(true);
+    expect(obj.b).not.toHaveProperty("c");
+  });
+
+  it("deve remover elementos de arrays sem deixar buracos", () => {
+    const obj = createTestObj();
+    expect(deepUnset(obj, "j[1]")).toBe(true);
+    expect(obj.j).toEqual([10, 30]);
+  });
+
+  it("deve remover entradas de Map e índices negativos", () => {
+    const obj = { j: [10, 20, 30], m: new Map([["k", 1]]) };
+    expect(deepUnset(obj, "j[-1]")).toBe(true);
+    expect(deepUnset(obj, "m.k")).toBe(true);
+    expect(obj.j).toEqual([10, 20]);
+    expect(obj.m.size).toBe(0);
+  });
+
+  it("deve remover membros de Set pela posição", () => {
+    const obj: any = { s: new Set(["a", "b", "c"]) };
+    expect(deepUnset(obj, "s[1]")).toBe(true);
+    expect(deepUnset(obj, "s[-1]")).toBe(true);
+    expect(deepUnset(obj, "s[5]")).toBe(false);
+    expect([...obj.s]).toEqual(["a"]);
+  });
+
+  it("deve retornar false para caminhos inexistentes", () => {
+    const obj = createTestObj();
+    // @ts-expect-error - caminhos inexistentes no tipo são rejeitados
+    expect(deepUnset(obj, "x.y")).toBe(false);
+    // @ts-expect-error
+    expect(deepUnset(obj, "b.x")).toBe(false);
+    expect(deepUnset(null, "a")).toBe(false);
+  });
+});
+
+describe("deepUpdate", () => {
+  it("deve aplicar a função ao valor atual", () => {
+    const obj = createTestObj();
+    deepUpdate(obj, "b.d[0].e", (e) => (e as number) * 10);
+    expect(obj.b.d[0].e).toBe(30);
+  });
+
+  it("deve passar undefined e criar o caminho quando ele não existir", () => {
+    const obj: any = {};
+    const fn = jest.fn(() => 1);
+    deepUpdate(obj, "contador.total", fn);
+    expect(fn).toHaveBeenCalledWith(undefined);
+    expect(obj).toEqual({ contador: { total: 1 } });
+  });
+
+  it("deve lançar TypeError se fn não for uma função", () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    expect(() => deepUpdate({}, "a", null as any)).toThrow(TypeError);
+  });
+});
+
+describe("deepSetImmutable", () => {
+  it("deve retornar uma nova estrutura sem modificar a entrada", () => {
+    const obj = createTestObj();
+    const result = deepSetImmutable(obj, "b.d[0].e", 99);
+    expect(result.b.d[0].e).toBe(99);
+    expect(obj.b.d[0].e).toBe(3);
+    expect(result).not.toBe(obj);
+  });
+
+  it("deve compartilhar os ramos não modificados", () => {
+    const obj = createTestObj();
+    const result = deepSetImmutable(obj, "b.d[0].e", 99);
+    expect(result.j).toBe(obj.j);
+    expect(result.b.d[1]).toBe(obj.b.d[1]);
+    expect(result.b.d).not.toBe(obj.b.d);
+  });
+
+  it("deve retornar a própria entrada se o valor não mudar", () => {
+    const obj = createTestObj();
+    expect(deepSetImmutable(obj, "b.c", "hello")).toBe(obj);
+  });
+
+  it("deve criar contêineres ausentes, inclusive na raiz", () => {
+    expect(deepSetImmutable(undefined, "a[0]", 1)).toEqual({ a: [1] });
+    expect(deepSetImmutable(null, "[0].a", 1)).toEqual([{ a: 1 }]);
+  });
+
+  it("deve preservar o protótipo de instâncias de classe copiadas", () => {
+    class Ponto {
+      constructor(public x: number, public y: number) {}
+    }
+    const obj = { p: new Ponto(1, 2) };
+    const result = deepSetImmutable(obj, "p.x", 5);
+    expect(result.p).toBeInstanceOf(Ponto);
+    expect(result.p).toEqual(new Ponto(5, 2));
+    expect(obj.p.x).toBe(1);
+  });
+
+  it("deve copiar Maps ao longo do caminho", () => {
+    const obj = { m: new Map([["k", { v: 1 }]]) };
+    const result = deepSetImmutable(obj, "m.k.v", 2);
+    expect(result.m).not.toBe(obj.m);
+    expect(result.m.get("k")).toEqual({ v: 2 });
+    expect(obj.m.get("k")).toEqual({ v: 1 });
+  });
+
+  it("deve copiar typed arrays, Date e RegExp ao longo do caminho", () => {
+    const obj: any = {
+      t: new Uint8Array([1, 2]),
+      d: new Date(0),
+      r: /a/g,
+    };
+    const result = deepSetImmutable(obj, "t[0]", 9);
+    expect(result.t).toBeInstanceOf(Uint8Array);
+    expect([...result.t]).toEqual([9, 2]);
+    expect([...obj.t]).toEqual([1, 2]);
+    expect(deepSetImmutable(obj, "t[-1]", 7).t[1]).toBe(7);
+
+    const dated = deepSetImmutable(obj, "d.label", "x");
+    expect(dated.d.getTime()).toBe(0);
+    expect(dated.d.label).toBe("x");
+    expect(obj.d.label).toBeUndefined();
+    const tagged = deepSetImmutable(obj, "r.label", "x");
+    expect(tagged.r.test("a")).toBe(true);
+    expect(tagged.r.flags).toBe("g");
+  });
+
+  it("deve copiar Sets ao longo do caminho", () => {
+    const member = { a: 1 };
+    const obj: any = { s: new Set([member, "x"]) };
+    const result = deepSetImmutable(obj, "s[0].a", 2);
+    expect(result.s).toBeInstanceOf(Set);
+    expect(result.s).not.toBe(obj.s);
+    expect([...result.s]).toEqual([{ a: 2 }, "x"]);
+    expect(result.s.has("x")).toBe(true);
+    expect([...obj.s]).toEqual([{ a: 1 }, "x"]);
+    expect(member).toEqual({ a: 1 });
+
+    const removed: any = deepUnsetImmutable(obj, "s[1]");
+    expect([...removed.s]).toEqual([member]);
+    expect(obj.s.size).toBe(2);
+  });
+});
+
+describe("deepUnsetImmutable", () => {
+  it("deve remover a propriedade em uma cópia", () => {
+    const obj = createTestObj();
+    const result = deepUnsetImmutable(obj, "j[0]");
+    expect(result.j).toEqual([20, 30]);
+    expect(obj.j).toEqual([10, 20, 30]);
+    expect(result.b).toBe(obj.b);
+  });
+
+  it("deve retornar a própria entrada se o caminho não existir", () => {
+    const obj = createTestObj();
+    // @ts-expect-error - caminhos inexistentes no tipo são rejeitados
+    expect(deepUnsetImmutable(obj, "b.x.y")).toBe(obj);
+  });
+});
+
+describe("deepUpdateImmutable", () => {
+  it("deve atualizar em uma cópia com compartilhamento estrutural", () => {
+    const obj = createTestObj();
+    const result = deepUpdateImmutable(obj, "a", (a) => (a as number) + 1);
+    expect(result.a).toBe(2);
+    expect(obj.a).toBe(1);
+    expect(result.b).toBe(obj.b);
+  });
+});
@@ -0,0 +1,217 @@
+import { Readable } from "stream";
+import {
+  streamFindByKey,
+  streamGet,
+  deepFindAllByKey,
+  deepGet,
+  TraversalLimitError,
+} from "../deep-tools";
+import type { JsonSource, StreamMatch } from "../deep-tools";
+
+const doc = {
+  id: 1,
+  user: { name: "Ana", email: "ana@x.com", tags: ["a", "b"] },
+  items: [
+    { id: 10, price: 1.5, meta: { id: "m" } },
+    { id: 20, price: -2e3, meta: null },
+  ],
+  "key.dot": { id: true },
+  text: 'aspas " barra \\ unicode é 😀 controle \n\t',
+};
+const json = JSON.stringify(doc);
+
+/** Divide o texto em partes de `size` caracteres, dividindo tokens em posições arbitrárias. */
+const chunks = (text: string, size: number): JsonSource =>
+  Readable.from(
+    Array.from({ length: Math.ceil(text.length / size) }, (_, i) =>
+      text.slice(i * size, (i + 1) * size)
+    )
+  );
+
+const collect = async (iterable: AsyncIterable<StreamMatch>) => {
+  const matches: StreamMatch[] = [];
+  for await (const match of iterable) {
+    matches.push(match);
+  }
+  return matches;
+};
+
+// --- Suítes de Teste ---
+
+describe("streamFindByKey", () => {
+  it("deve encontrar as mesmas correspondências de deepFindAllByKey (dfs) com qualquer divisão do texto", async () => {
+    const expected = deepFindAllByKey(doc, "id", { order: "dfs" }).map(
+      ({ path, value }) => ({ path, value })
+    );
+    for (const size of [1, 3, 7, json.length]) {
+      expect(await collect(streamFindByKey(chunks(json, size), "id"))).toEqual(
+        expected
+      );
+    }
+  });
+
+  it("deve produzir um valor antes dos valores aninhados nele", async () => {
+    const text = JSON.stringify({ a: { a: { a: 1 } } });
+    const matches = await collect(streamFindByKey(chunks(text, 2), "a"));
+    expect(matches.map((m) => m.path)).toEqual([
+      ["a"],
+      ["a", "a"],
+      ["a", "a", "a"],
+    ]);
+    expect(matches[0].value).toEqual({ a: { a: 1 } });
+    expect(matches[1].value).toBe((matches[0].value as any).a);
+  });
+
+  it("deve produzir correspondências antes do fim da entrada", async () => {
+    let read = 0;
+    async function* source() {
+      yield '{"first": {"x": 1}, ';
+      read++;
+      yield '"rest": [';
+      read++;
+      yield "1, 2]}";
+    }
+    for await (const match of streamFindByKey(source(), "x")) {
+      expect(match).toEqual({ path: ["first", "x"], value: 1 });
+      expect(read).toBe(0);
+      break; // Encerra a leitura
+    }
+    expect(read).toBe(0);
+  });
+
+  it("deve decodificar Buffers com caracteres divididos entre partes", async () => {
+    const bytes = Buffer.from(JSON.stringify({ k: "é😀" }));
+    const parts = Array.from(bytes, (byte) => Buffer.from([byte]));
+    expect(await collect(streamFindByKey(Readable.from(parts), "k"))).toEqual([
+      { path: ["k"], value: "é😀" },
+    ]);
+  });
+
+  it("deve criar __proto__ como propriedade própria, como JSON.parse", async () => {
+    const text = '{"v": {"__proto__": {"polluted": true}}}';
+    const [match] = await collect(streamFindByKey(chunks(text, 4), "v"));
+    expect(Object.getPrototypeOf(match.value)).toBe(Object.prototype);
+    expect(Object.keys(match.value as object)).toEqual(["__proto__"]);
+    expect(({} as any).polluted).toBeUndefined();
+  });
+
+  it("deve lançar SyntaxError com a posição para JSON inválido", async () => {
+    const cases: [string, RegExp][] = [
+      [
+        '{"a": 1,}',
+        /esperado nome de propriedade, encontrado "}" \(posição 8\)/,
+      ],
+      ['{"a" 1}', /esperado ':'/],
+      ["[1 2]", /esperado ',' ou ']'/],
+      ['{"a": tru}', /literal inválido "tru"/],
+      ['{"a": 01}', /número inválido "01"/],
+      ['{"a": "\\x"}', /escape inválido/],
+      ['{"a": 1', /fim inesperado da entrada/],
+      ['{"a": 1} x', /após o fim do documento/],
+      ["", /fim inesperado da entrada/],
+    ];
+    for (const [text, message] of cases) {
+      await expect(
+        collect(streamFindByKey(chunks(text || " ", 3), "a"))
+      ).rejects.toThrow(SyntaxError);
+      await expect(
+        collect(streamFindByKey(chunks(text || " ", 3), "a"))
+      ).rejects.toThrow(message);
+    }
+  });
+
+  it("deve aplicar maxDepth e maxNodes", async () => {
+    const errors: Error[] = [];
+    const matches = await collect(
+      streamFindByKey(chunks(json, 5), "id", {
+        maxDepth: 2,
+        onError: "collect",
+        errors,
+      })
+    );
+    expect(matches.map((m) => m.path)).toEqual([["id"], ["key.dot", "id"]]);
+    expect(errors[0]).toBeInstanceOf(TraversalLimitError);
+
+    await expect(
+      collect(streamFindByKey(chunks(json, 5), "id", { maxNodes: 3 }))
+    ).rejects.toThrow(TraversalLimitError);
+  });
+
+  it("deve validar os argumentos", () => {
+    expect(() => streamFindByKey(chunks(json, 5), "")).toThrow(
+      "streamFindByKey: chaveAlvo deve ser uma string não vazia."
+    );
+    expect(() => streamFindByKey(json as any, "id")).toThrow(
+      "streamFindByKey: source deve ser um Readable ou iterável assíncrono."
+    );
+  });
+});
+
+describe("streamGet", () => {
+  it("deve ler valores com a sintaxe de caminho de deepGet", async () => {
+    expect(await streamGet(chunks(json, 4), "user.name")).toBe("Ana");
+    expect(await streamGet(chunks(json, 4), "items[1].price")).toBe(-2000);
+    expect(await streamGet(chunks(json, 4), "items.0.meta")).toEqual({
+      id: "m",
+    });
+    expect(await streamGet(chunks(json, 4), ["user", "tags", 1])).toBe("b");
+    expect(await streamGet(chunks(json, 4), '["key.dot"].id')).toBe(true);
+    expect(await streamGet(chunks(json, 4), "text")).toBe(doc.text);
+    expect(await streamGet(chunks(json, 4), "")).toEqual(doc);
+  });
+
+  it("deve retornar o valor padrão para caminhos inexistentes", async () => {
+    expect(await streamGet(chunks(json, 4), "user.x")).toBeUndefined();
+    expect(await streamGet(chunks(json, 4), "items[5].id", "padrão")).toBe(
+      "padrão"
+    );
+    expect(await streamGet(chunks(json, 4), "items[-3]", 0)).toBe(0);
+  });
+
+  it("deve resolver índices negativos", async () => {
+    expect(await streamGet(chunks(json, 4), "items[-1].price")).toBe(-2000);
+    expect(await streamGet(chunks(json, 4), "items[-2].meta.id")).toBe("m");
+    expect(await streamGet(chunks(json, 4), "user.tags[-1]")).toBe("b");
+  });
+
+  it("deve resolver o restante do caminho em valores primitivos, como deepGet", async () => {
+    for (const path of [
+      "user.name[0]",
+      "user.name.length",
+      "user.tags[-1][0]",
+      "items[-1].meta.id",
+      "items[1].price.x",
+    ]) {
+      expect(await streamGet(chunks(json, 4), path, "padrão")).toBe(
+        deepGet(doc, path, "padrão")
+      );
+    }
+    expect(await streamGet(chunks('{"root": "abc"}', 3), "root[0]")).toBe("a");
+  });
+
+  it("deve parar de ler a fonte assim que o valor termina", async () => {
+    let read = 0;
+    async function* source() {
+      yield '{"meta": {"version": "2.1"}, "data": [';
+      for (let i = 0; i < 1000; i++) {
+        read++;
+        yield `${i},`;
+      }
+      yield "0]}";
+    }
+    expect(await streamGet(source(), "meta.version")).toBe("2.1");
+    expect(read).toBe(0);
+  });
+
+  it("não deve construir o documento para percorrer entradas grandes", async () => {
+    async function* source() {
+      yield '{"data": [';
+      for (let i = 0; i < 20000; i++) {
+        yield `${i ? "," : ""}{"id": ${i}, "payload": "${"x".repeat(50)}"}`;
+      }
+      yield '], "last": 42}';
+    }
+    expect(await streamGet(source(), "last")).toBe(42);
+    expect(await streamGet(source(), "data[-1].id")).toBe(19999);
+  });
+});
@@ -1,5 +1,16 @@
-import { deepGet, deepFindByKey, deepFindByValue } from "../deep-tools";
-import { isEqual } from "lodash"; // Usando lodash isEqual para comparações profundas nos testes
+import {
+  deepGet,
+  deepFindByKey,
+  deepFindAllByKey,
+  deepFindByValue,
+  deepFindFirstByValue,
+  deepFindByValueAsync,
+  PathSyntaxError,
+  TraversalLimitError,
+  CallbackError,
+  stringifyPath,
+  ObjectPath,
+} from "../deep-tools";
 
 /**
  * Objeto de teste principal contendo diferentes tipos de dados e estruturas aninhadas
@@ -83,21 +94,26 @@ describe("deepGet", () => {
   });
 
   it("deve retornar indefinido para caminhos inexistentes", () => {
+    // @ts-expect-error - caminhos literais inexistentes no tipo são rejeitados
     expect(deepGet(testObj, "x")).toBeUndefined();
+    // @ts-expect-error
     expect(deepGet(testObj, "a.x")).toBeUndefined();
     expect(deepGet(testObj, "b.d[5]")).toBeUndefined();
+    // @ts-expect-error
     expect(deepGet(testObj, "b.d[0].nonexistent")).toBeUndefined();
+    // @ts-expect-error
     expect(deepGet(testObj, ["b", "d", 0, "nonexistent"])).toBeUndefined();
   });
 
   it("deve retornar defaultValue para caminhos inexistentes quando fornecido", () => {
     const defaultVal = "default";
-    expect(deepGet(testObj, "x", defaultVal)).toBe(defaultVal);
-    expect(deepGet(testObj, "a.x", defaultVal)).toBe(defaultVal);
-    expect(deepGet(testObj, "b.d[5]", defaultVal)).toBe(defaultVal);
-    expect(deepGet(testObj, ["b", "d", 0, "nonexistent"], defaultVal)).toBe(
-      defaultVal
-    );
+    const missing: string[] = ["x", "a.x", "b.d[5]", "b.d[0].nonexistent"];
+    for (const path of missing) {
+      expect(deepGet(testObj, path, defaultVal)).toBe(defaultVal);
+    }
+    expect(
+      deepGet(testObj, ["b", "d", 0, "nonexistent"] as ObjectPath, defaultVal)
+    ).toBe(defaultVal);
   });
 
   it("deve retornar defaultValue se o valor resolvido for indefinido", () => {
@@ -132,24 +148,61 @@ describe("deepGet", () => {
     expect(deepGet(testObj, "b.d[2]")).toBeNull();
   });
 
+  it("deve lidar com chaves com caracteres especiais usando colchetes com aspas", () => {
+    expect(deepGet(testObj, '["key with.dot"]')).toBe("dot-value");
+    expect(deepGet(testObj, "['key with[bracket]']")).toBe("bracket-value");
+  });
+
+  it("deve resolver índices negativos a partir do fim do array", () => {
+    expect(deepGet(testObj, "j[-1]")).toBe(30);
+    expect(deepGet(testObj, ["j", -3])).toBe(10);
+    expect(deepGet(testObj, "b.d[-1].e")).toBe(3);
+    expect(deepGet(testObj, "j[-4]")).toBeUndefined();
+  });
+
+  it("deve resolver chaves de Map", () => {
+    const withMap = {
+      m: new Map<unknown, unknown>([
+        ["k", { v: 1 }],
+        [2, "dois"],
+      ]),
+    };
+    expect(deepGet(withMap, "m.k.v")).toBe(1);
+    expect(deepGet(withMap, "m[2]")).toBe("dois");
+    expect(deepGet(withMap, "m.2")).toBe("dois");
+    expect(deepGet(withMap, "m.x", "padrao")).toBe("padrao");
+  });
+
+  it("deve acessar propriedades de valores primitivos", () => {
+    expect(deepGet(testObj, "b.c.length")).toBe(5);
+  });
+
+  it("deve lançar PathSyntaxError para caminhos malformados", () => {
+    // @ts-expect-error - caminhos malformados também não são caminhos válidos do tipo
+    expect(() => deepGet(testObj, "b.d[0")).toThrow(PathSyntaxError);
+    // @ts-expect-error
+    expect(() => deepGet(testObj, 'b["c')).toThrow(PathSyntaxError);
+  });
+
   it("deve inferir o tipo de retorno a partir de defaultValue", () => {
+    const missingPath: string = "nonexistent"; // Caminho conhecido só em tempo de execução
     const numDefault = 123;
     const strDefault = "abc";
     const objDefault = { x: 1 };
 
     const numResult: number | undefined = deepGet(
       testObj,
-      "nonexistent",
+      missingPath,
       numDefault
     );
     const strResult: string | undefined = deepGet(
       testObj,
-      "nonexistent",
+      missingPath,
       strDefault
     );
     const objResult: { x: number } | undefined = deepGet(
       testObj,
-      "nonexistent",
+      missingPath,
       objDefault
     );
 
@@ -163,6 +216,104 @@ describe("deepGet", () => {
   });
 });
 
+describe("deepGet com caminhos tipados", () => {
+  /** `true` somente se `A` e `B` forem exatamente o mesmo tipo. */
+  type Equals<A, B> = (<G>() => G extends A ? 1 : 2) extends <
+    G
+  >() => G extends B ? 1 : 2
+    ? true
+    : false;
+  const expectType = <A, B>(equal: Equals<A, B>) => expect(equal).toBe(true);
+
+  const config = {
+    server: { host: "localhost", port: 80 },
+    users: [{ name: "Ana", address: { city: "Recife" } }, { name: "Bia" }],
+    proxy: undefined as { url: string } | undefined,
+    pair: [1, "dois"] as [number, string],
+    cache: new Map<string, { hits: number }>(),
+    "key with.dot": true,
+  };
+
+  it("deve inferir o tipo do valor a partir do caminho literal", () => {
+    const port = deepGet(config, "server.port");
+    const city = deepGet(config, "users[0].address.city");
+    const name = deepGet(config, ["users", 1, "name"]);
+    const url = deepGet(config, "proxy.url");
+    const second = deepGet(config, "pair[1]");
+    const hits = deepGet(config, "cache.home.hits");
+    const dot = deepGet(config, '["key with.dot"]');
+
+    expectType<typeof port, number>(true);
+    expectType<typeof city, string | undefined>(true);
+    expectType<typeof name, string>(true);
+    expectType<typeof url, string | undefined>(true);
+    expectType<typeof second, string>(true);
+    expectType<typeof hits, number | undefined>(true);
+    expectType<typeof dot, boolean>(true);
+    expect([port, city, name, url, second, hits, dot]).toEqual([
+      80,
+      "Recife",
+      "Bia",
+      undefined,
+      "dois",
+      undefined,
+      true,
+    ]);
+  });
+
+  it("deve combinar o tipo do caminho com o defaultValue", () => {
+    const url = deepGet(config, "proxy.url", "http://padrao");
+    expectType<typeof url, string>(true);
+    expect(url).toBe("http://padrao");
+  });
+
+  it("deve aceitar caminhos dinâmicos e objetos sem tipo sem verificação", () => {
+    const dynamicPath: string = "server.host";
+    const host = deepGet(config, dynamicPath);
+    const parsed = deepGet(JSON.parse('{"a":{"b":1}}'), "a.b");
+    const explicit = deepGet<string>(config, dynamicPath);
+
+    expectType<typeof host, unknown>(true);
+    expectType<typeof explicit, string | undefined>(true);
+    expect([host, parsed, explicit]).toEqual(["localhost", 1, "localhost"]);
+  });
+
+  it("deve rejeitar caminhos inexistentes em tempo de compilação", () => {
+    // @ts-expect-error - "prot" não é uma chave de server
+    expect(deepGet(config, "server.prot")).toBeUndefined();
+    // @ts-expect-error - tuplas também são verificadas
+    expect(deepGet(config, ["users", 0, "email"])).toBeUndefined();
+  });
+});
+
+describe("deepGet com Map e Set", () => {
+  const store = {
+    users: new Map<unknown, unknown>([
+      ["ana", { tags: new Set(["admin", "dev"]) }],
+      [1, "um"],
+    ]),
+    bytes: new Uint8Array([1, 2, 3]),
+  };
+
+  it("deve resolver membros de Set pela posição", () => {
+    expect(deepGet(store, "users.ana.tags[0]")).toBe("admin");
+    expect(deepGet(store, "users.ana.tags[-1]")).toBe("dev");
+    expect(deepGet(store, "users.ana.tags[2]")).toBeUndefined();
+    expect(deepGet(store, "users.ana.tags.x")).toBeUndefined();
+  });
+
+  it("deve resolver índices negativos em typed arrays", () => {
+    expect(deepGet(store, "bytes[-1]")).toBe(3);
+  });
+
+  it("deve resolver de volta os caminhos produzidos pelos finders", () => {
+    for (const value of ["admin", "dev", "um", 2]) {
+      const [path] = deepFindByValue(store, value);
+      expect(deepGet(store, path)).toBe(value);
+    }
+  });
+});
+
 // === Suíte de Testes deepFindByKey ===
 
 describe("deepFindByKey", () => {
@@ -202,6 +353,39 @@ describe("deepFindByKey", () => {
     expect(() => deepFindByKey(testObj, 123 as any)).toThrow(TypeError);
   });
 
+  it("deve encontrar chaves de Map e chaves dentro de Set", () => {
+    const store = {
+      cache: new Map<unknown, unknown>([
+        ["sessao", { token: "abc" }],
+        [42, "resposta"],
+      ]),
+      filas: new Set([{ prioridade: 1 }]),
+    };
+    expect(deepFindByKey(store, "sessao")).toEqual({ token: "abc" });
+    expect(deepFindByKey(store, "token")).toBe("abc");
+    expect(deepFindByKey(store, "42")).toBe("resposta");
+    expect(deepFindByKey(store, "prioridade")).toBe(1);
+  });
+
+  it("deve encontrar chaves symbol e getters apenas quando solicitado", () => {
+    const key = Symbol("id");
+    const obj = {
+      [key]: 7,
+      get calculado() {
+        return "ok";
+      },
+    };
+    Object.defineProperty(obj, "oculto", { get: () => 1, enumerable: false });
+    expect(deepFindByKey(obj, key)).toBeUndefined();
+    expect(deepFindByKey(obj, key, { includeSymbols: true })).toBe(7);
+    expect(deepFindByKey(obj, "Symbol(id)", { includeSymbols: true })).toBe(
+      undefined
+    );
+    expect(deepFindByKey(obj, "calculado")).toBe("ok"); // getter próprio enumerável
+    expect(deepFindByKey(obj, "oculto")).toBeUndefined();
+    expect(deepFindByKey(obj, "oculto", { includeGetters: true })).toBe(1);
+  });
+
   it("deve lidar com referências circulares", () => {
     expect(deepFindByKey(circularObj, "prop")).toBe("value");
     expect(deepFindByKey(circularObj, "self")).toBe(circularObj); // Encontra a chave 'self'
@@ -210,6 +394,119 @@ describe("deepFindByKey", () => {
   });
 });
 
+// === Suíte de Testes deepFindAllByKey ===
+
+describe("deepFindAllByKey", () => {
+  it("deve encontrar todas as ocorrências com caminho, valor, profundidade e pai", () => {
+    const matches = deepFindAllByKey(testObj, "e");
+    expect(matches).toEqual([
+      { path: ["b", "d", 0, "e"], value: 3, depth: 4, parent: testObj.b.d[0] },
+      { path: ["b", "d", 1, "e"], value: 4, depth: 4, parent: testObj.b.d[1] },
+      { path: ["b", "d", 3, "e"], value: 3, depth: 4, parent: testObj.b.d[3] },
+    ]);
+  });
+
+  it("deve retornar primeiro as ocorrências mais rasas em BFS", () => {
+    const obj = { x: { deep: { k: 1 } }, y: { k: 2 }, k: 3 };
+    expect(deepFindAllByKey(obj, "k").map((m) => m.value)).toEqual([3, 2, 1]);
+    expect(deepFindAllByKey(obj, "k")[0].value).toBe(deepFindByKey(obj, "k"));
+  });
+
+  it("deve seguir a ordem do documento em DFS", () => {
+    const obj = { x: { deep: { k: 1 } }, y: { k: 2 }, k: 3 };
+    const matches = deepFindAllByKey(obj, "k", { order: "dfs" });
+    expect(matches.map((m) => stringifyPath(m.path))).toEqual([
+      "x.deep.k",
+      "y.k",
+      "k",
+    ]);
+  });
+
+  it("deve aceitar expressões regulares e predicados", () => {
+    expect(deepFindAllByKey(testObj, /^key with/).map((m) => m.value)).toEqual([
+      "dot-value",
+      "bracket-value",
+    ]);
+    expect(
+      deepFindAllByKey(testObj, /^[ef]$/g, { order: "dfs" }).map((m) =>
+        stringifyPath(m.path)
+      )
+    ).toEqual([
+      "b.d[0].e",
+      "b.d[0].f",
+      "b.d[1].e",
+      "b.d[1].f",
+      "b.d[3].e",
+      "b.d[3].f",
+    ]);
+    expect(deepFindAllByKey(testObj, (key, value) => value === "deep")).toEqual(
+      [
+        {
+          path: ["b", "d", 0, "nested", "g"],
+          value: "deep",
+          depth: 5,
+          parent: testObj.b.d[0]!.nested,
+        },
+      ]
+    );
+  });
+
+  it("deve respeitar maxDepth e limit", () => {
+    expect(deepFindAllByKey(testObj, "e", { maxDepth: 3 })).toEqual([]);
+    expect(deepFindAllByKey(testObj, "e", { maxDepth: 4 })).toHaveLength(3);
+    expect(deepFindAllByKey(testObj, "e", { limit: 2 })).toHaveLength(2);
+    expect(deepFindAllByKey(testObj, "e", { limit: 0 })).toEqual([]);
+  });
+
+  it("deve retornar um array vazio para entradas não pesquisáveis", () => {
+    expect(deepFindAllByKey(nullObj, "a")).toEqual([]);
+    expect(deepFindAllByKey(primitiveObj, "a")).toEqual([]);
+    expect(deepFindAllByKey(emptyArr, "a")).toEqual([]);
+  });
+
+  it("deve lançar TypeError para matcher inválido", () => {
+    expect(() => deepFindAllByKey(testObj, "")).toThrow(TypeError);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    expect(() => deepFindAllByKey(testObj, 123 as any)).toThrow(TypeError);
+  });
+
+  it("deve encontrar chaves em Map e symbols com includeSymbols", () => {
+    const key = Symbol("k");
+    const map = new Map<unknown, unknown>([
+      ["id", 1],
+      [key, { id: 2 }],
+    ]);
+    expect(deepFindAllByKey({ map }, "id").map((m) => m.path)).toEqual([
+      ["map", "id"],
+    ]);
+    expect(
+      deepFindAllByKey({ map }, "id", { includeSymbols: true }).map(
+        (m) => m.path
+      )
+    ).toEqual([
+      ["map", "id"],
+      ["map", key, "id"],
+    ]);
+    expect(
+      deepFindAllByKey({ map }, key, { includeSymbols: true })[0].parent
+    ).toBe(map);
+    expect(
+      deepFindAllByKey({ map }, /.*/, { includeSymbols: true }).map(
+        (m) => m.path
+      )
+    ).toEqual([["map"], ["map", "id"], ["map", key, "id"]]);
+  });
+
+  it("deve lidar com referências circulares", () => {
+    expect(deepFindAllByKey(circularObj, "self")).toEqual([
+      { path: ["self"], value: circularObj, depth: 1, parent: circularObj },
+    ]);
+    expect(
+      deepFindAllByKey(circularObj, "prop", { order: "dfs" }).map((m) => m.path)
+    ).toEqual([["prop"]]);
+  });
+});
+
 // === Suíte de Testes deepFindByValue ===
 
 describe("deepFindByValue", () => {
@@ -278,9 +575,27 @@ describe("deepFindByValue", () => {
       expect.arrayContaining(["b.d[0]", "b.d[3]"])
     );
 
-    // Igualdade profunda para objetos (usando lodash isEqual)
-    const targetObj = { e: 3, f: true, nested: { g: "deep" } };
-    expect(deepFindByValue(testObj, targetObj, isEqual)).toEqual(["b.d[0]"]);
+    // Igualdade profunda para objetos (modo 'deep', via deepEqual)
+    const targetObj = { nested: { g: "deep" }, f: true, e: 3 };
+    expect(deepFindByValue(testObj, targetObj, "deep")).toEqual(["b.d[0]"]);
+  });
+
+  it("deve comparar pelo conteúdo com o modo 'deep'", () => {
+    const store = {
+      a: { tags: new Set(["x", "y"]), at: new Date(0) },
+      b: [{ tags: new Set(["y", "x"]), at: new Date(0) }],
+    };
+    expect(
+      deepFindByValue(
+        store,
+        { tags: new Set(["x", "y"]), at: new Date(0) },
+        "deep"
+      )
+    ).toEqual(["a", "b[0]"]);
+    expect(deepFindByValue(circularObj, circularObj, "deep")).toEqual([
+      "arr[1]",
+      "self",
+    ]);
   });
 
   it("deve lançar TypeError se compareFn for fornecida, mas não for uma função", () => {
@@ -317,20 +632,335 @@ describe("deepFindByValue", () => {
     expect(deepFindByValue(testObj, 20)).toEqual(["j[1]"]); // Valor direto do array
     expect(deepFindByValue(testObj, "deep")).toEqual(["b.d[0].nested.g"]); // Objeto profundamente aninhado
   });
-  // Opcional: Teste do log de aviso se compareFn lançar erro (difícil de testar de forma confiável)
-  // it('deve lidar com erros dentro de compareFn de forma segura', () => {
-  //   const faultyCompare = (a: unknown, b: unknown) => {
-  //     if (typeof a === 'object' && a !== null) {
-  //       // @ts-ignore Erro intencional: acessando propriedade em um tipo possivelmente incorreto
-  //       return a.nonExistent.prop === b;
-  //     }
-  //     return a === b;
-  //   };
-  //   const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
-  //   // Espera-se que não quebre e encontre valores antes do erro, se possível
-  //   expect(() => deepFindByValue(testObj, 'someValue', faultyCompare)).not.toThrow();
-  //   // Verifica se console.warn foi chamado (pode ser frágil)
-  //   expect(consoleWarnSpy).toHaveBeenCalled();
-  //   consoleWarnSpy.mockRestore();
-  // });
+  it("deve gerar caminhos reutilizáveis para chaves com caracteres especiais", () => {
+    expect(deepFindByValue(testObj, "dot-value")).toEqual(['["key with.dot"]']);
+    expect(deepFindByValue(testObj, "bracket-value")).toEqual([
+      '["key with[bracket]"]',
+    ]);
+    expect(deepGet(testObj, deepFindByValue(testObj, "dot-value")[0])).toBe(
+      "dot-value"
+    );
+    expect(deepGet(testObj, deepFindByValue(testObj, "bracket-value")[0])).toBe(
+      "bracket-value"
+    );
+  });
+
+  it("deve percorrer Map, Set e typed arrays", () => {
+    const obj = {
+      m: new Map([["chave com.ponto", new Set([5])]]),
+      t: new Float32Array([0.5, 5]),
+    };
+    expect(deepFindByValue(obj, 5)).toEqual([
+      'm["chave com.ponto"][0]',
+      "t[1]",
+    ]);
+  });
+
+  it("deve exigir pathFormat 'segments' para chaves symbol", () => {
+    const key = Symbol("s");
+    const obj = { [key]: 1 };
+    expect(deepFindByValue(obj, 1)).toEqual([]);
+    expect(
+      deepFindByValue(obj, 1, undefined, {
+        includeSymbols: true,
+        pathFormat: "segments",
+      })
+    ).toEqual([[key]]);
+    expect(() =>
+      deepFindByValue(obj, 1, undefined, { includeSymbols: true })
+    ).toThrow(TypeError);
+  });
+
+  it("deve retornar arrays de segmentos com pathFormat 'segments'", () => {
+    expect(
+      deepFindByValue(testObj, "deep", undefined, { pathFormat: "segments" })
+    ).toEqual([["b", "d", 0, "nested", "g"]]);
+    expect(
+      deepFindByValue(testObj, "dot-value", undefined, {
+        pathFormat: "segments",
+      })
+    ).toEqual([["key with.dot"]]);
+    expect(
+      deepFindByValue(testObj, 3, undefined, { pathFormat: "segments" })
+    ).toEqual(
+      expect.arrayContaining([["b", "d", 0, "e"], ["b", "d", 3, "e"], ["k"]])
+    );
+  });
+
+  // Comparador que falha em objetos: o primeiro objeto visitado é 'b'
+  const faultyCompare = (a: unknown, b: unknown) => {
+    if (typeof a === "object" && a !== null) {
+      return (a as any).nonExistent.prop === b;
+    }
+    return a === b;
+  };
+
+  it("deve lançar CallbackError com o caminho quando compareFn falha", () => {
+    const warnSpy = jest.spyOn(console, "warn").mockImplementation();
+    try {
+      deepFindByValue(testObj, 3, faultyCompare);
+      throw new Error("deveria ter lançado");
+    } catch (error) {
+      expect(error).toBeInstanceOf(CallbackError);
+      expect((error as CallbackError).path).toEqual(["b"]);
+      expect((error as CallbackError).cause).toBeInstanceOf(TypeError);
+      expect((error as CallbackError).message).toMatch(
+        /^deepFindByValue: erro no callback em "b": /
+      );
+    }
+    expect(warnSpy).not.toHaveBeenCalled();
+    warnSpy.mockRestore();
+  });
+
+  it("deve coletar ou ignorar erros de compareFn conforme onError", () => {
+    const errors: Error[] = [];
+    const paths = deepFindByValue(testObj, 3, faultyCompare, {
+      onError: "collect",
+      errors,
+    });
+    expect(paths).toEqual(["b.d[0].e", "b.d[3].e", "k"]);
+    expect(errors.map((e) => stringifyPath((e as CallbackError).path))).toEqual(
+      ["b", "b.d", "b.d[0]", "b.d[0].nested", "b.d[1]", "b.d[3]", "j"]
+    );
+
+    expect(
+      deepFindByValue(testObj, 3, faultyCompare, { onError: "ignore" })
+    ).toEqual(["b.d[0].e", "b.d[3].e", "k"]);
+  });
+
+  it("deve retornar os caminhos sempre na ordem do documento, ou em BFS com order 'bfs'", () => {
+    const obj = { z: { y: [3, { x: 3 }] }, a: 3, m: [[3], 3] };
+    const documentOrder = ["z.y[0]", "z.y[1].x", "a", "m[0][0]", "m[1]"];
+    expect(deepFindByValue(obj, 3)).toEqual(documentOrder);
+    expect(deepFindByValue(obj, 3, undefined, { order: "document" })).toEqual(
+      documentOrder
+    );
+    expect(deepFindByValue(obj, 3, undefined, { order: "bfs" })).toEqual([
+      "a",
+      "m[1]",
+      "z.y[0]",
+      "m[0][0]",
+      "z.y[1].x",
+    ]);
+    expect(deepFindByValue(testObj, 3, undefined, { order: "bfs" })).toEqual([
+      "k",
+      "b.d[0].e",
+      "b.d[3].e",
+    ]);
+  });
+
+  it("deve interromper a busca ao atingir limit", () => {
+    const compare = jest.fn((a: unknown, b: unknown) => a === b);
+    expect(deepFindByValue(testObj, 3, compare, { limit: 2 })).toEqual([
+      "b.d[0].e",
+      "b.d[3].e",
+    ]);
+    // 'j' e 'k' não chegam a ser comparados
+    expect(compare.mock.calls.map(([value]) => value)).not.toContain(testObj.j);
+    expect(
+      deepFindByValue(testObj, 3, undefined, { order: "bfs", limit: 1 })
+    ).toEqual(["k"]);
+    expect(deepFindByValue(testObj, 3, undefined, { limit: 0 })).toEqual([]);
+  });
+});
+
+describe("deepFindFirstByValue", () => {
+  it("deve retornar o caminho da primeira ocorrência", () => {
+    expect(deepFindFirstByValue(testObj, 3)).toBe("b.d[0].e");
+    expect(deepFindFirstByValue(testObj, 3, undefined, { order: "bfs" })).toBe(
+      "k"
+    );
+    expect(
+      deepFindFirstByValue(testObj, { e: 4, f: false }, "deep", {
+        pathFormat: "segments",
+      })
+    ).toEqual(["b", "d", 1]);
+    expect(deepFindFirstByValue(testObj, 999)).toBeUndefined();
+    expect(deepFindFirstByValue(nullObj, 3)).toBeUndefined();
+  });
+
+  it("deve validar compareFn", () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    expect(() => deepFindFirstByValue(testObj, 1, {} as any)).toThrow(
+      "deepFindFirstByValue: funcaoComparacao deve ser uma função ou 'deep' se fornecida."
+    );
+  });
+});
+
+describe("deepFindByValueAsync", () => {
+  const collect = async <T>(iterable: AsyncIterable<T>) => {
+    const items: T[] = [];
+    for await (const item of iterable) {
+      items.push(item);
+    }
+    return items;
+  };
+
+  it("deve produzir os mesmos caminhos, na mesma ordem, que deepFindByValue", async () => {
+    expect(await collect(deepFindByValueAsync(testObj, 3))).toEqual(
+      deepFindByValue(testObj, 3)
+    );
+    expect(
+      await collect(
+        deepFindByValueAsync(testObj, 3, undefined, {
+          order: "bfs",
+          pathFormat: "segments",
+        })
+      )
+    ).toEqual(
+      deepFindByValue(testObj, 3, undefined, {
+        order: "bfs",
+        pathFormat: "segments",
+      })
+    );
+    expect(
+      await collect(deepFindByValueAsync(circularObj, circularObj))
+    ).toEqual(["arr[1]", "self"]);
+    expect(
+      await collect(deepFindByValueAsync(testObj, 3, undefined, { limit: 1 }))
+    ).toEqual(["b.d[0].e"]);
+  });
+
+  it("deve devolver o controle ao event loop durante a busca", async () => {
+    const big = Array.from({ length: 50 }, (_, i) => ({ id: i }));
+    // Só executa antes do fim da busca se ela devolver o controle ao event loop
+    let ticked = false;
+    setImmediate(() => {
+      ticked = true;
+    });
+    const paths: string[] = [];
+    for await (const path of deepFindByValueAsync(big, 49, undefined, {
+      yieldEvery: 10,
+    })) {
+      paths.push(path);
+    }
+    expect(paths).toEqual(["[49].id"]);
+    expect(ticked).toBe(true);
+  });
+
+  it("deve encerrar a busca quando o consumidor interrompe o for await", async () => {
+    const compare = jest.fn((a: unknown, b: unknown) => a === b);
+    for await (const path of deepFindByValueAsync(testObj, 3, compare)) {
+      expect(path).toBe("b.d[0].e");
+      break;
+    }
+    const calls = compare.mock.calls.length;
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(compare).toHaveBeenCalledTimes(calls);
+    // A busca parou em 'b.d[0].e', sem chegar a 'j' e 'k'
+    expect(calls).toBe(6);
+  });
+
+  it("deve validar compareFn ao ser chamada e respeitar signal", async () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    expect(() => deepFindByValueAsync(testObj, 1, 123 as any)).toThrow(
+      "deepFindByValueAsync: funcaoComparacao deve ser uma função ou 'deep' se fornecida."
+    );
+
+    const controller = new AbortController();
+    const search = deepFindByValueAsync(testObj, 3, undefined, {
+      signal: controller.signal,
+    });
+    expect((await search.next()).value).toBe("b.d[0].e");
+    controller.abort(new Error("cancelado"));
+    await expect(search.next()).rejects.toThrow("cancelado");
+  });
+});
+
+// --- Tratamento de erros e limites ---
+
+describe("limites de segurança dos finders", () => {
+  it("deve lançar TraversalLimitError ao exceder maxNodes", () => {
+    try {
+      deepFindByValue(testObj, "nada", undefined, { maxNodes: 3 });
+      throw new Error("deveria ter lançado");
+    } catch (error) {
+      expect(error).toBeInstanceOf(TraversalLimitError);
+      expect(error).toBeInstanceOf(RangeError);
+      expect((error as TraversalLimitError).limit).toBe("maxNodes");
+      expect((error as TraversalLimitError).max).toBe(3);
+      expect((error as TraversalLimitError).path).toEqual(["b", "d"]);
+    }
+  });
+
+  it("deve retornar resultados parciais com onError 'collect'", () => {
+    const errors: Error[] = [];
+    expect(
+      deepFindByValue(testObj, 3, undefined, {
+        maxNodes: 6,
+        onError: "collect",
+        errors,
+      })
+    ).toEqual(["b.d[0].e"]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(TraversalLimitError);
+  });
+
+  it("deve reportar maxDepth uma única vez e ignorar valores mais profundos", () => {
+    const errors: Error[] = [];
+    expect(
+      deepFindByValue(testObj, 3, undefined, {
+        maxDepth: 2,
+        onError: "collect",
+        errors,
+      })
+    ).toEqual(["k"]);
+    expect(errors).toHaveLength(1);
+    expect((errors[0] as TraversalLimitError).limit).toBe("maxDepth");
+    expect((errors[0] as TraversalLimitError).path).toEqual(["b", "d", 0]);
+
+    // 'b.d[0].nested.g' tem profundidade 5
+    expect(() => deepFindByKey(testObj, "g", { maxDepth: 4 })).toThrow(
+      TraversalLimitError
+    );
+    expect(
+      deepFindByKey(testObj, "g", { maxDepth: 4, onError: "ignore" })
+    ).toBe(undefined);
+    expect(deepFindByKey(testObj, "g", { maxDepth: 5 })).toBe("deep");
+  });
+
+  it("deve manter maxDepth de deepFindAllByKey como limite da busca", () => {
+    expect(deepFindAllByKey(testObj, "e", { maxDepth: 2 })).toEqual([]);
+    expect(() => deepFindAllByKey(testObj, "e", { maxNodes: 2 })).toThrow(
+      TraversalLimitError
+    );
+  });
+
+  it("deve reportar erros do predicado de deepFindAllByKey", () => {
+    const predicate = (key: string) => {
+      if (key === "nested") {
+        throw new Error("falhou");
+      }
+      return key === "g";
+    };
+    expect(() => deepFindAllByKey(testObj, predicate)).toThrow(CallbackError);
+    expect(
+      deepFindAllByKey(testObj, predicate, { onError: "ignore" }).map(
+        (match) => match.value
+      )
+    ).toEqual(["deep"]);
+  });
+
+  it("deve interromper a busca quando o signal é abortado", () => {
+    const controller = new AbortController();
+    const reason = new Error("cancelado");
+    controller.abort(reason);
+    expect(() =>
+      deepFindByValue(testObj, 3, undefined, {
+        signal: controller.signal,
+        onError: "ignore",
+      })
+    ).toThrow(reason);
+  });
+
+  it("deve validar onError e errors", () => {
+    expect(() =>
+      deepFindByKey(testObj, "a", { onError: "warn" as any })
+    ).toThrow(
+      "deepFindByKey: onError deve ser 'throw', 'collect' ou 'ignore'."
+    );
+    expect(() =>
+      deepFindByValue(testObj, 3, undefined, { onError: "collect" })
+    ).toThrow("deepFindByValue: onError 'collect' requer um array em errors.");
+  });
 });
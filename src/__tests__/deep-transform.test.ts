@@ -0,0 +1,260 @@
+import {
+  deepTransform,
+  deepMapValues,
+  deepMapKeys,
+  DROP,
+  PathSegment,
+  CallbackError,
+  TraversalLimitError,
+  stringifyPath,
+} from "../deep-tools";
+
+const createTestObj = () => ({
+  name: " Ana ",
+  password: "secret",
+  created_at: "2024-01-01T00:00:00.000Z",
+  home_address: { zip_code: " 50000 ", tags: [" a ", 1, null] },
+  roles: new Set([" admin "]),
+  meta: new Map<unknown, unknown>([["last_login", " ontem "]]),
+});
+
+// Objeto com referência circular para testes específicos
+const circularObj: any = { prop: " value ", arr: [1] };
+circularObj.self = circularObj;
+circularObj.arr.push(circularObj);
+
+const trim = (value: unknown) =>
+  typeof value === "string" ? value.trim() : value;
+
+const toCamelCase = (key: PathSegment) =>
+  typeof key === "string"
+    ? key.replace(/_([a-z])/g, (_, c: string) => c.toUpperCase())
+    : key;
+
+// --- Suítes de Teste ---
+
+describe("deepMapValues", () => {
+  it("deve aplicar a função a cada valor folha, sem modificar a entrada", () => {
+    const obj = createTestObj();
+    const result = deepMapValues<ReturnType<typeof createTestObj>>(obj, trim);
+    expect(result.name).toBe("Ana");
+    expect(result.home_address).toEqual({
+      zip_code: "50000",
+      tags: ["a", 1, null],
+    });
+    expect([...result.roles]).toEqual(["admin"]);
+    expect(result.meta.get("last_login")).toBe("ontem");
+    expect(obj).toEqual(createTestObj());
+  });
+
+  it("deve passar chave, caminho e profundidade para a função", () => {
+    const calls: [PathSegment, string, number][] = [];
+    deepMapValues({ a: 1, b: { c: [2] } }, (value, key, path, depth) => {
+      calls.push([key, stringifyPath(path), depth]);
+      return value;
+    });
+    expect(calls).toEqual([
+      ["a", "a", 1],
+      [0, "b.c[0]", 3],
+    ]);
+  });
+
+  it("deve converter valores em tipos diferentes e remover valores com DROP", () => {
+    const result = deepMapValues<Record<string, unknown>>(
+      createTestObj(),
+      (value, key) => {
+        if (key === "password") return DROP;
+        if (key === "created_at") return new Date(value as string);
+        return value;
+      }
+    );
+    expect(result).not.toHaveProperty("password");
+    expect(result.created_at).toEqual(new Date("2024-01-01T00:00:00.000Z"));
+  });
+
+  it("não deve deixar buracos ao remover elementos de arrays", () => {
+    expect(
+      deepMapValues([1, 2, 3, 4], (v) => ((v as number) % 2 ? v : DROP))
+    ).toEqual([1, 3]);
+  });
+
+  it("deve retornar raízes primitivas como estão", () => {
+    expect(deepMapValues(" x ", trim)).toBe(" x ");
+    expect(deepMapValues(null, trim)).toBeNull();
+  });
+
+  it("deve lançar TypeError se fn não for uma função", () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    expect(() => deepMapValues({}, null as any)).toThrow(TypeError);
+  });
+});
+
+describe("deepMapKeys", () => {
+  it("deve renomear chaves de objetos e Map em qualquer profundidade", () => {
+    const result = deepMapKeys<Record<string, any>>(
+      createTestObj(),
+      toCamelCase
+    );
+    expect(Object.keys(result)).toEqual([
+      "name",
+      "password",
+      "createdAt",
+      "homeAddress",
+      "roles",
+      "meta",
+    ]);
+    expect(result.homeAddress).toEqual({
+      zipCode: " 50000 ",
+      tags: [" a ", 1, null],
+    });
+    expect(result.meta.get("lastLogin")).toBe(" ontem ");
+  });
+
+  it("não deve passar índices de arrays nem posições de Set para a função", () => {
+    const keys: PathSegment[] = [];
+    deepMapKeys({ list: ["x", { y: 1 }], set: new Set([1]) }, (key) => {
+      keys.push(key);
+      return key;
+    });
+    expect(keys).toEqual(["list", "y", "set"]);
+  });
+
+  it("deve remover entradas com DROP", () => {
+    expect(
+      deepMapKeys({ a: 1, _private: { b: 2 }, c: { _d: 3 } }, (key) =>
+        String(key).startsWith("_") ? DROP : key
+      )
+    ).toEqual({ a: 1, c: {} });
+  });
+});
+
+describe("deepTransform", () => {
+  it("deve substituir subárvores sem descer no novo valor", () => {
+    const visited: string[] = [];
+    const result = deepTransform(
+      { keep: { a: 1 }, replace: { b: 2 } },
+      (entry) => {
+        visited.push(stringifyPath(entry.path));
+        return entry.key === "replace" ? { novo: true } : entry.value;
+      }
+    );
+    expect(result).toEqual({ keep: { a: 1 }, replace: { novo: true } });
+    expect(visited).toEqual(["keep", "keep.a", "replace"]);
+  });
+
+  it("deve copiar os contêineres mantidos", () => {
+    const obj = { a: { b: [1] } };
+    const result = deepTransform<typeof obj>(obj, (entry) => entry.value);
+    expect(result).toEqual(obj);
+    expect(result.a).not.toBe(obj.a);
+    expect(result.a.b).not.toBe(obj.a.b);
+  });
+
+  it("deve preservar referências circulares", () => {
+    const result = deepTransform<any>(circularObj, (entry) =>
+      trim(entry.value)
+    );
+    expect(result).not.toBe(circularObj);
+    expect(result.prop).toBe("value");
+    expect(result.self).toBe(result);
+    expect(result.arr[1]).toBe(result);
+    expect(result.arr).not.toBe(circularObj.arr);
+  });
+
+  it("deve preservar referências compartilhadas", () => {
+    const shared = { v: 1 };
+    const result = deepTransform<any>(
+      { x: shared, y: [shared] },
+      (entry) => entry.value
+    );
+    expect(result.x).toBe(result.y[0]);
+    expect(result.x).not.toBe(shared);
+  });
+
+  it("deve transformar referências compartilhadas em cada caminho com cycles 'ancestors'", () => {
+    const shared = { v: 1 };
+    const obj: any = { x: shared, y: shared };
+    obj.y2 = obj;
+    const result = deepTransform<any>(
+      obj,
+      (entry) => (entry.path[0] === "y" && entry.key === "v" ? 2 : entry.value),
+      { cycles: "ancestors" }
+    );
+    expect(result.x).toEqual({ v: 1 });
+    expect(result.y).toEqual({ v: 2 });
+    expect(result.y2).toBe(result);
+  });
+
+  it("deve tratar instâncias de classes e Date como valores folha", () => {
+    class Point {
+      constructor(public x: number) {}
+    }
+    const point = new Point(1);
+    const date = new Date(0);
+    const keys: PathSegment[] = [];
+    const result = deepTransform<any>({ point, date }, (entry) => {
+      keys.push(entry.key);
+      return entry.value;
+    });
+    expect(keys).toEqual(["point", "date"]);
+    expect(result.point).toBe(point);
+    expect(result.date).toBe(date);
+  });
+
+  it("deve manter entradas de Map com chaves que não são percorridas", () => {
+    const objectKey = { k: 1 };
+    const map = new Map<unknown, unknown>([
+      [objectKey, "objeto"],
+      ["s", " texto "],
+    ]);
+    const result = deepMapValues<Map<unknown, unknown>>(map, trim);
+    expect(result.get(objectKey)).toBe("objeto");
+    expect(result.get("s")).toBe("texto");
+  });
+
+  it("não deve trocar o protótipo com chaves __proto__", () => {
+    const payload = JSON.parse('{"__proto__": {"polluted": true}}');
+    const result = deepTransform<Record<string, unknown>>(
+      payload,
+      (entry) => entry.value
+    );
+    expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it("deve lançar TypeError se visitor não for uma função", () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    expect(() => deepTransform({}, undefined as any)).toThrow(TypeError);
+  });
+
+  it("deve manter entradas cujo visitante falha com onError 'collect'", () => {
+    const obj = { a: 1, b: { c: 2 } };
+    const visitor = (entry: { key: PathSegment; value: unknown }) => {
+      if (entry.key === "b") {
+        throw new Error("falhou");
+      }
+      return typeof entry.value === "number" ? entry.value * 10 : entry.value;
+    };
+    expect(() => deepTransform(obj, visitor)).toThrow(CallbackError);
+    const errors: Error[] = [];
+    expect(deepTransform(obj, visitor, { onError: "collect", errors })).toEqual(
+      { a: 10, b: { c: 20 } }
+    );
+    expect(errors.map((e) => e.message)).toEqual([
+      'deepTransform: erro no callback em "b": falhou',
+    ]);
+  });
+
+  it("deve omitir valores além dos limites com onError 'ignore'", () => {
+    const obj = { a: 1, b: { c: { d: 2 } }, e: 3 };
+    expect(() => deepMapValues(obj, (v) => v, { maxDepth: 2 })).toThrow(
+      TraversalLimitError
+    );
+    expect(
+      deepMapValues(obj, (v) => v, { maxDepth: 2, onError: "ignore" })
+    ).toEqual({ a: 1, b: { c: {} }, e: 3 });
+    expect(
+      deepMapValues(obj, (v) => v, { maxNodes: 2, onError: "ignore" })
+    ).toEqual({ a: 1, b: {} });
+  });
+});
@@ -0,0 +1,296 @@
+import {
+  deepWalk,
+  deepVisit,
+  stringifyPath,
+  TraversalLimitError,
+  CallbackError,
+} from "../deep-tools";
+import type { PathSegment, WalkEntry, WalkOptions } from "../deep-tools";
+
+const testObj = {
+  a: 1,
+  b: { c: 2, d: [3, { e: 4 }] },
+  f: "fim",
+};
+
+// Objeto com referência circular para testes específicos
+const circularObj: any = { prop: "value", arr: [1] };
+circularObj.self = circularObj;
+circularObj.arr.push(circularObj);
+
+/** Coleta os caminhos produzidos por deepWalk, em string. */
+const walkPaths = (obj: unknown, options?: WalkOptions) =>
+  [...deepWalk(obj, options)].map((entry) => stringifyPath(entry.path));
+
+// --- Suítes de Teste ---
+
+describe("deepWalk", () => {
+  it("deve percorrer em pré-ordem na ordem do documento por padrão", () => {
+    expect(walkPaths(testObj)).toEqual([
+      "a",
+      "b",
+      "b.c",
+      "b.d",
+      "b.d[0]",
+      "b.d[1]",
+      "b.d[1].e",
+      "f",
+    ]);
+  });
+
+  it("deve produzir chave, valor, caminho, pai e profundidade", () => {
+    const entries = [...deepWalk(testObj)];
+    const e = entries.find((entry) => entry.key === "e") as WalkEntry;
+    expect(e.value).toBe(4);
+    expect(e.path).toEqual(["b", "d", 1, "e"]);
+    expect(e.parent).toBe(testObj.b.d[1]);
+    expect(e.depth).toBe(4);
+    expect(entries.find((entry) => entry.key === 0)?.path).toEqual([
+      "b",
+      "d",
+      0,
+    ]);
+  });
+
+  it("deve percorrer em pós-ordem", () => {
+    expect(walkPaths(testObj, { order: "post" })).toEqual([
+      "a",
+      "b.c",
+      "b.d[0]",
+      "b.d[1].e",
+      "b.d[1]",
+      "b.d",
+      "b",
+      "f",
+    ]);
+  });
+
+  it("deve percorrer em largura com strategy 'bfs'", () => {
+    expect(walkPaths(testObj, { strategy: "bfs" })).toEqual([
+      "a",
+      "b",
+      "f",
+      "b.c",
+      "b.d",
+      "b.d[0]",
+      "b.d[1]",
+      "b.d[1].e",
+    ]);
+  });
+
+  it("deve ser preguiçoso", () => {
+    const walk = deepWalk(testObj);
+    expect(walk.next().value).toMatchObject({ key: "a" });
+    expect(walk.next().value).toMatchObject({ key: "b" });
+  });
+
+  it("deve pular subárvores com skip()", () => {
+    const paths: string[] = [];
+    for (const entry of deepWalk(testObj)) {
+      paths.push(stringifyPath(entry.path));
+      if (entry.key === "d") {
+        entry.skip();
+      }
+    }
+    expect(paths).toEqual(["a", "b", "b.c", "b.d", "f"]);
+  });
+
+  it("deve encerrar a travessia com stop()", () => {
+    const paths: string[] = [];
+    for (const entry of deepWalk(testObj)) {
+      paths.push(stringifyPath(entry.path));
+      if (entry.key === "c") {
+        entry.stop();
+      }
+    }
+    expect(paths).toEqual(["a", "b", "b.c"]);
+  });
+
+  it("deve respeitar maxDepth", () => {
+    expect(walkPaths(testObj, { maxDepth: 1 })).toEqual(["a", "b", "f"]);
+    expect(walkPaths(testObj, { maxDepth: 2, strategy: "bfs" })).toEqual([
+      "a",
+      "b",
+      "f",
+      "b.c",
+      "b.d",
+    ]);
+  });
+
+  it("deve lidar com referências circulares", () => {
+    const entries = [...deepWalk(circularObj)];
+    expect(entries.map((entry) => stringifyPath(entry.path))).toEqual([
+      "prop",
+      "arr",
+      "arr[0]",
+      "arr[1]",
+      "self",
+    ]);
+    expect(entries.find((entry) => entry.key === "self")?.seen).toBe(true);
+    expect(entries.find((entry) => entry.key === "arr")?.seen).toBe(false);
+  });
+
+  it("deve expandir objetos compartilhados em cada ramo com cycles 'ancestors'", () => {
+    const shared = { v: 1 };
+    const obj = { x: shared, y: shared };
+    expect(walkPaths(obj)).toEqual(["x", "x.v", "y"]);
+    expect(walkPaths(obj, { cycles: "ancestors" })).toEqual([
+      "x",
+      "x.v",
+      "y",
+      "y.v",
+    ]);
+    expect(walkPaths(circularObj, { cycles: "ancestors" })).toEqual([
+      "prop",
+      "arr",
+      "arr[0]",
+      "arr[1]",
+      "self",
+    ]);
+  });
+
+  it("não deve produzir entradas para valores não pesquisáveis", () => {
+    expect(walkPaths(null)).toEqual([]);
+    expect(walkPaths(123)).toEqual([]);
+    expect(walkPaths({})).toEqual([]);
+  });
+
+  it("deve percorrer Map, Set e typed arrays", () => {
+    const obj = {
+      m: new Map<unknown, unknown>([
+        ["k", { v: 1 }],
+        [2, "dois"],
+        [{ objeto: true }, "ignorada"],
+      ]),
+      s: new Set(["x", { y: 1 }]),
+      t: new Uint8Array([7, 8]),
+    };
+    expect(walkPaths(obj)).toEqual([
+      "m",
+      "m.k",
+      "m.k.v",
+      "m[2]",
+      "s",
+      "s[0]",
+      "s[1]",
+      "s[1].y",
+      "t",
+      "t[0]",
+      "t[1]",
+    ]);
+    const entries = [...deepWalk(obj)];
+    expect(entries.find((entry) => entry.key === "k")?.parent).toBe(obj.m);
+    expect(entries.find((entry) => entry.value === "x")?.path).toEqual([
+      "s",
+      0,
+    ]);
+  });
+
+  it("deve percorrer getters com includeGetters", () => {
+    class Pedido {
+      itens = [2, 3];
+      get total() {
+        return this.itens.reduce((a, b) => a + b, 0);
+      }
+      get quebrado(): number {
+        throw new Error("falhou");
+      }
+    }
+    const obj = { pedido: new Pedido() };
+    Object.defineProperty(obj, "oculto", { get: () => 1, enumerable: false });
+    expect(walkPaths(obj)).toEqual([
+      "pedido",
+      "pedido.itens",
+      "pedido.itens[0]",
+      "pedido.itens[1]",
+    ]);
+    expect(walkPaths(obj, { includeGetters: true })).toEqual([
+      "pedido",
+      "pedido.itens",
+      "pedido.itens[0]",
+      "pedido.itens[1]",
+      "pedido.total",
+      "oculto",
+    ]);
+    // Getters de tipos nativos (ex: Map#size, RegExp#source) não são percorridos
+    expect(
+      walkPaths({ m: new Map(), r: /a/ }, { includeGetters: true })
+    ).toEqual(["m", "r"]);
+  });
+
+  it("deve percorrer chaves symbol com includeSymbols", () => {
+    const key = Symbol("chave");
+    const obj = { a: 1, [key]: { b: 2 }, m: new Map([[key, 3]]) };
+    expect(walkPaths(obj)).toEqual(["a", "m"]);
+    expect(
+      [...deepWalk(obj, { includeSymbols: true })].map((entry) => entry.path)
+    ).toEqual([["a"], ["m"], ["m", key], [key], [key, "b"]]);
+  });
+
+  it("deve encerrar a travessia ao exceder maxNodes", () => {
+    expect(() => walkPaths(testObj, { maxNodes: 3 })).toThrow(
+      TraversalLimitError
+    );
+    const errors: Error[] = [];
+    expect(
+      walkPaths(testObj, { maxNodes: 3, onError: "collect", errors })
+    ).toEqual(["a", "b", "b.c"]);
+    expect((errors[0] as TraversalLimitError).path).toEqual(["b", "d"]);
+    // maxDepth continua sendo apenas um limite da travessia
+    expect(walkPaths(testObj, { maxDepth: 1 })).toEqual(["a", "b", "f"]);
+  });
+
+  it("deve lançar o motivo do cancelamento quando o signal é abortado", () => {
+    const controller = new AbortController();
+    const keys: PathSegment[] = [];
+    expect(() => {
+      for (const entry of deepWalk(testObj, { signal: controller.signal })) {
+        keys.push(entry.key);
+        if (entry.key === "c") {
+          controller.abort();
+        }
+      }
+    }).toThrow(expect.objectContaining({ name: "AbortError" }));
+    expect(keys).toEqual(["a", "b", "c"]);
+  });
+
+  it("deve lançar TypeError para pós-ordem em largura", () => {
+    expect(() =>
+      deepWalk(testObj, { strategy: "bfs", order: "post" }).next()
+    ).toThrow(TypeError);
+  });
+});
+
+describe("deepVisit", () => {
+  it("deve chamar o visitante para cada entrada, respeitando skip()", () => {
+    const keys: string[] = [];
+    deepVisit(testObj, (entry) => {
+      keys.push(stringifyPath(entry.path));
+      if (entry.key === "b") {
+        entry.skip();
+      }
+    });
+    expect(keys).toEqual(["a", "b", "f"]);
+  });
+
+  it("deve lançar TypeError se visitor não for uma função", () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    expect(() => deepVisit(testObj, null as any)).toThrow(TypeError);
+  });
+
+  it("deve reportar exceções do visitante conforme onError", () => {
+    const visitor = (entry: WalkEntry) => {
+      if (entry.key === "c") {
+        throw new Error("falhou");
+      }
+    };
+    expect(() => deepVisit(testObj, visitor)).toThrow(
+      'deepVisit: erro no callback em "b.c": falhou'
+    );
+    const errors: Error[] = [];
+    deepVisit(testObj, visitor, { onError: "collect", errors });
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(CallbackError);
+    expect((errors[0] as CallbackError).path).toEqual(["b", "c"]);
+  });
+});
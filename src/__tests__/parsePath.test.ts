@@ -0,0 +1,100 @@
+import { parsePath, stringifyPath, PathSyntaxError } from "../deep-tools";
+import type { PathSegment } from "../deep-tools";
+
+// --- Suítes de Teste ---
+
+describe("parsePath", () => {
+  it("deve analisar notação de ponto e colchetes", () => {
+    expect(parsePath("user.name")).toEqual(["user", "name"]);
+    expect(parsePath("users[0].address")).toEqual(["users", 0, "address"]);
+    expect(parsePath("b.d.0.e")).toEqual(["b", "d", "0", "e"]);
+    expect(parsePath("[0][1]")).toEqual([0, 1]);
+  });
+
+  it("deve analisar chaves entre aspas com caracteres especiais", () => {
+    expect(parsePath('data["key-name"]')).toEqual(["data", "key-name"]);
+    expect(parsePath("['key with.dot']")).toEqual(["key with.dot"]);
+    expect(parsePath('["key with[bracket]"].x')).toEqual([
+      "key with[bracket]",
+      "x",
+    ]);
+    expect(parsePath('a[""]')).toEqual(["a", ""]);
+  });
+
+  it("deve tratar aspas e barras escapadas dentro de colchetes", () => {
+    expect(parsePath('a["diz \\"oi\\""]')).toEqual(["a", 'diz "oi"']);
+    expect(parsePath("a['it\\'s']")).toEqual(["a", "it's"]);
+    expect(parsePath('a["barra \\\\"]')).toEqual(["a", "barra \\"]);
+  });
+
+  it("deve analisar índices negativos como números", () => {
+    expect(parsePath("items[-1]")).toEqual(["items", -1]);
+    expect(parsePath("items[-2].nome")).toEqual(["items", -2, "nome"]);
+  });
+
+  it("deve lançar PathSyntaxError para caminhos malformados", () => {
+    expect(() => parsePath("a[0")).toThrow(PathSyntaxError);
+    expect(() => parsePath('a["x')).toThrow(PathSyntaxError);
+    expect(() => parsePath('a["x"')).toThrow(PathSyntaxError);
+    expect(() => parsePath("a[]")).toThrow(PathSyntaxError);
+    expect(() => parsePath("a[0]b")).toThrow(PathSyntaxError);
+    expect(() => parsePath("a]b")).toThrow(PathSyntaxError);
+  });
+
+  it("deve informar a posição do erro", () => {
+    expect.assertions(5);
+    try {
+      parsePath("users[0");
+    } catch (error) {
+      expect(error).toBeInstanceOf(PathSyntaxError);
+      expect(error).toBeInstanceOf(SyntaxError);
+      expect((error as PathSyntaxError).path).toBe("users[0");
+      expect((error as PathSyntaxError).position).toBe(5);
+      expect((error as PathSyntaxError).message).toContain("'[' não fechado");
+    }
+  });
+
+  it("deve retornar um array vazio para entradas inválidas", () => {
+    expect(parsePath(null)).toEqual([]);
+    expect(parsePath(undefined)).toEqual([]);
+    expect(parsePath("")).toEqual([]);
+    expect(parsePath("   ")).toEqual([]);
+  });
+});
+
+describe("stringifyPath", () => {
+  it("deve usar notação de ponto e colchetes", () => {
+    expect(stringifyPath(["b", "d", 0, "e"])).toBe("b.d[0].e");
+    expect(stringifyPath([0, "nome"])).toBe("[0].nome");
+    expect(stringifyPath([])).toBe("");
+  });
+
+  it("deve colocar entre aspas chaves com caracteres especiais", () => {
+    expect(stringifyPath(["key with.dot"])).toBe('["key with.dot"]');
+    expect(stringifyPath(["a", "key with[bracket]"])).toBe(
+      'a["key with[bracket]"]'
+    );
+    expect(stringifyPath(["a", 'diz "oi"'])).toBe('a["diz \\"oi\\""]');
+    expect(stringifyPath(["a", ""])).toBe('a[""]');
+  });
+
+  it("deve fazer round-trip com parsePath", () => {
+    const paths: PathSegment[][] = [
+      ["a", "b", 0, "c"],
+      ["key with.dot"],
+      ["key with[bracket]", 2],
+      ["", "x"],
+      ["aspas \"duplas\" e 'simples'", "barra \\"],
+      ["0", 0],
+      ["items", -1],
+      [" espaços "],
+    ];
+    for (const path of paths) {
+      expect(parsePath(stringifyPath(path))).toEqual(path);
+    }
+  });
+
+  it("deve lançar TypeError para segmentos symbol", () => {
+    expect(() => stringifyPath(["a", Symbol("s")])).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,252 @@
+import {
+  deepGet,
+  deepSet,
+  deepUnset,
+  deepUpdate,
+  deepSetImmutable,
+  deepUnsetImmutable,
+  deepUpdateImmutable,
+  deepMerge,
+  deepUnflatten,
+  applyPatch,
+  UnsafePathError,
+} from "../deep-tools";
+import type { PatchOperation } from "../deep-tools";
+
+/**
+ * Payloads conhecidos de poluição de protótipos, nas formas aceitas pelos caminhos da biblioteca.
+ */
+const POLLUTION_PAYLOADS: (string | (string | number)[])[] = [
+  "__proto__.polluted",
+  "constructor.prototype.polluted",
+  '["__proto__"].polluted',
+  "['constructor']['prototype'].polluted",
+  "a.__proto__.polluted",
+  "a[0].__proto__.polluted",
+  ["__proto__", "polluted"],
+  ["constructor", "prototype", "polluted"],
+  ["a", "constructor", "prototype", "polluted"],
+];
+
+/** Verifica que nenhum protótipo global foi alterado. */
+const expectNotPolluted = () => {
+  expect(({} as any).polluted).toBeUndefined();
+  expect(([] as any).polluted).toBeUndefined();
+  expect((Object.prototype as any).polluted).toBeUndefined();
+};
+
+afterEach(() => {
+  // Evita que uma falha contamine os testes seguintes
+  delete (Object.prototype as any).polluted;
+  delete (Array.prototype as any).polluted;
+});
+
+// --- Suítes de Teste ---
+
+describe("proteção contra poluição de protótipos", () => {
+  describe.each(POLLUTION_PAYLOADS)("payload %j", (payload) => {
+    const path = payload as any;
+
+    it("deve ser recusado pelas funções de escrita", () => {
+      const obj: any = { a: [{}] };
+      expect(() => deepSet(obj, path, "yes")).toThrow(UnsafePathError);
+      expect(() => deepUpdate(obj, path, () => "yes")).toThrow(UnsafePathError);
+      expect(() => deepUnset(obj, path)).toThrow(UnsafePathError);
+      expect(() => deepSetImmutable(obj, path, "yes")).toThrow(UnsafePathError);
+      expect(() => deepUpdateImmutable(obj, path, () => "yes")).toThrow(
+        UnsafePathError
+      );
+      expect(() => deepUnsetImmutable(obj, path)).toThrow(UnsafePathError);
+      expectNotPolluted();
+    });
+
+    it("deve ser ignorado com unsafeSegments: 'ignore'", () => {
+      const obj: any = { a: [{}] };
+      const options = { unsafeSegments: "ignore" } as const;
+      expect(deepSet(obj, path, "yes", options)).toBe(obj);
+      expect(deepUpdate(obj, path, () => "yes", options)).toBe(obj);
+      expect(deepUnset(obj, path, options)).toBe(false);
+      expect(deepSetImmutable(obj, path, "yes", options)).toBe(obj);
+      expect(deepUpdateImmutable(obj, path, () => "yes", options)).toBe(obj);
+      expect(deepUnsetImmutable(obj, path, options)).toBe(obj);
+      expect(obj).toEqual({ a: [{}] });
+      expectNotPolluted();
+    });
+
+    it("deve ser recusado ou ignorado por deepGet quando solicitado", () => {
+      expect(() =>
+        deepGet({} as any, path, undefined, { unsafeSegments: "reject" })
+      ).toThrow(UnsafePathError);
+      expect(
+        deepGet({} as any, path, "padrão", { unsafeSegments: "ignore" })
+      ).toBe("padrão");
+    });
+  });
+
+  it("deve recusar operações JSON Patch com caminhos inseguros e desfazer as anteriores", () => {
+    const doc: any = { a: 1 };
+    const patches: PatchOperation[][] = [
+      [{ op: "add", path: "/__proto__/polluted", value: "yes" }],
+      [{ op: "add", path: "/constructor/prototype/polluted", value: "yes" }],
+      [{ op: "replace", path: "/__proto__", value: { polluted: "yes" } }],
+      [{ op: "move", from: "/__proto__", path: "/x" }],
+    ];
+    for (const patch of patches) {
+      expect(() => applyPatch(doc, patch)).toThrow(UnsafePathError);
+    }
+
+    expect(() =>
+      applyPatch(
+        doc,
+        [
+          { op: "replace", path: "/a", value: 2 },
+          { op: "add", path: "/__proto__/polluted", value: "yes" },
+        ],
+        { mutate: true }
+      )
+    ).toThrow(UnsafePathError);
+    expect(doc).toEqual({ a: 1 });
+    expectNotPolluted();
+  });
+
+  it("deve ignorar operações JSON Patch inseguras com unsafeSegments: 'ignore'", () => {
+    const result = applyPatch(
+      { a: 1 },
+      [
+        { op: "add", path: "/__proto__/polluted", value: "yes" },
+        { op: "replace", path: "/a", value: 2 },
+      ],
+      { unsafeSegments: "ignore" }
+    );
+    expect(result).toEqual({ a: 2 });
+    expectNotPolluted();
+  });
+
+  it("deve manter __proto__ como chave própria em deepMerge e deepUnflatten", () => {
+    const merged: any = deepMerge(
+      {},
+      JSON.parse('{"__proto__":{"polluted":"yes"}}')
+    );
+    expect(Object.getPrototypeOf(merged)).toBe(Object.prototype);
+    const unflattened: any = deepUnflatten({ "__proto__.polluted": "yes" });
+    expect(Object.getPrototypeOf(unflattened)).toBe(Object.prototype);
+    expectNotPolluted();
+  });
+
+  it("deve informar o caminho e o segmento recusados no erro", () => {
+    try {
+      deepSet({}, "user.__proto__.admin", true);
+      throw new Error("deveria ter lançado");
+    } catch (e) {
+      expect(e).toBeInstanceOf(UnsafePathError);
+      expect(e).toBeInstanceOf(TypeError);
+      const error = e as UnsafePathError;
+      expect(error.segment).toBe("__proto__");
+      expect(error.path).toEqual(["user", "__proto__", "admin"]);
+      expect(error.message).toContain('"__proto__"');
+    }
+  });
+});
+
+describe("unsafeSegments", () => {
+  it("deve permitir segmentos inseguros como chaves próprias com 'allow'", () => {
+    const obj: any = {};
+    deepSet(obj, "data.constructor", "valor", { unsafeSegments: "allow" });
+    expect(obj.data.constructor).toBe("valor");
+    expectNotPolluted();
+  });
+
+  it("deve manter o padrão 'allow' em deepGet", () => {
+    expect(deepGet({} as any, "constructor.name")).toBe("Object");
+  });
+
+  it("deve lançar TypeError para valores inválidos", () => {
+    expect(() => deepSet({}, "a", 1, { unsafeSegments: "x" as any })).toThrow(
+      "deepSet: unsafeSegments deve ser 'reject', 'ignore' ou 'allow'."
+    );
+  });
+});
+
+describe("allowedRoots", () => {
+  it("deve aceitar apenas caminhos com as chaves raiz permitidas", () => {
+    const obj: any = { user: {}, admin: false };
+    const options = { allowedRoots: ["user", "settings"] };
+    deepSet(obj, "user.name", "Ana", options);
+    deepSet(obj, ["settings", "theme"], "dark", options);
+    expect(() => deepSet(obj, "admin", true, options)).toThrow(UnsafePathError);
+    expect(() => deepSet(obj, "admin", true, options)).toThrow(
+      "deepSet: chave raiz não permitida"
+    );
+    expect(obj).toEqual({
+      user: { name: "Ana" },
+      admin: false,
+      settings: { theme: "dark" },
+    });
+  });
+
+  it("deve ignorar outras raízes com unsafeSegments: 'ignore'", () => {
+    const obj: any = { admin: false };
+    deepSet(obj, "admin", true, {
+      allowedRoots: ["user"],
+      unsafeSegments: "ignore",
+    });
+    expect(obj.admin).toBe(false);
+    expect(
+      deepGet(obj, "admin", "negado", {
+        allowedRoots: ["user"],
+        unsafeSegments: "ignore",
+      })
+    ).toBe("negado");
+  });
+
+  it("deve comparar índices e chaves como strings", () => {
+    const arr: any[] = [{}, {}];
+    deepSet(arr, "[0].x", 1, { allowedRoots: ["0"] });
+    expect(arr[0].x).toBe(1);
+    expect(() => deepSet(arr, "[1].x", 1, { allowedRoots: [0] })).toThrow(
+      UnsafePathError
+    );
+  });
+
+  it("deve valer mesmo com unsafeSegments: 'allow'", () => {
+    expect(() =>
+      deepGet({ a: 1 } as any, "b", undefined, {
+        allowedRoots: ["a"],
+        unsafeSegments: "allow",
+      })
+    ).toThrow(UnsafePathError);
+  });
+});
+
+describe("deepGet com ownProperties", () => {
+  class Conta {
+    saldo = 10;
+    get resumo() {
+      return `saldo: ${this.saldo}`;
+    }
+  }
+
+  it("deve ler apenas propriedades próprias", () => {
+    const obj: any = { conta: new Conta(), lista: [1, 2] };
+    const options = { ownProperties: true };
+    expect(deepGet(obj, "conta.saldo", undefined, options)).toBe(10);
+    expect(deepGet(obj, "conta.resumo", undefined, options)).toBeUndefined();
+    expect(deepGet(obj, "conta.toString", undefined, options)).toBeUndefined();
+    expect(deepGet(obj, "lista.length", undefined, options)).toBe(2);
+    expect(deepGet(obj, "lista[-1]", undefined, options)).toBe(2);
+    expect(deepGet(obj, "conta.resumo")).toBe("saldo: 10");
+  });
+
+  it("deve retornar o valor padrão para caminhos pelo protótipo", () => {
+    expect(
+      deepGet({} as any, "constructor.prototype", "padrão", {
+        ownProperties: true,
+      })
+    ).toBe("padrão");
+  });
+
+  it("deve continuar lendo entradas de Map", () => {
+    const obj = { m: new Map([["k", { v: 1 }]]) };
+    expect(deepGet(obj, "m.k.v", undefined, { ownProperties: true })).toBe(1);
+  });
+});
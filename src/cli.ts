@@ -0,0 +1,409 @@
+#!/usr/bin/env node
+import { promises as fs } from "fs";
+import {
+  deepFindAllByKey,
+  deepFindByKey,
+  deepFindByValue,
+  deepGet,
+  deepSet,
+  deepUnset,
+  PathSyntaxError,
+  stringifyPath,
+  UnsafePathError,
+} from "./deep-tools";
+
+/** Códigos de saída do `deep-tools`. */
+export const EXIT_CODES = {
+  /** Comando executado com sucesso. */
+  ok: 0,
+  /** Caminho, chave ou valor não encontrado. */
+  notFound: 1,
+  /**
+   * Argumentos inválidos: comando desconhecido, caminho malformado, valor que não é JSON ou documento
+   * que não é um objeto ou array em `set`/`unset`.
+   */
+  usage: 2,
+  /** A entrada não é um JSON válido. */
+  parse: 3,
+  /** Erro ao ler ou gravar arquivos. */
+  io: 4,
+  /** Erro inesperado (ex: `TraversalLimitError`, `RangeError`): indica uma falha interna, não da entrada. */
+  internal: 5,
+} as const;
+
+/** Entrada e saídas usadas por `runCli`; por padrão, as do processo. */
+export interface CliIO {
+  stdin: AsyncIterable<string | Buffer>;
+  stdout: { write(text: string): unknown };
+  stderr: { write(text: string): unknown };
+}
+
+const USAGE = `Uso: deep-tools <comando> [argumentos] [opções]
+
+Comandos:
+  get <caminho>          Imprime o valor no caminho
+  find-key <chave>       Imprime o valor da primeira ocorrência da chave (BFS)
+  find-value <json>      Imprime os caminhos onde o valor ocorre
+  set <caminho> <json>   Define o valor no caminho e imprime o documento
+  unset <caminho>        Remove a propriedade e imprime o documento
+
+Opções:
+  -f, --file <arquivo>   Lê o documento do arquivo (padrão: entrada padrão)
+  -o, --output <formato> 'json' (padrão) ou 'plain': strings sem aspas e um caminho por linha
+  -a, --all              (find-key) Imprime todas as ocorrências, com seus caminhos
+  -w, --write            (set/unset) Grava o resultado no arquivo de --file
+  -h, --help             Mostra esta ajuda
+
+Códigos de saída: 0 sucesso, 1 não encontrado, 2 uso incorreto, 3 JSON inválido, 4 erro de arquivo,
+5 erro interno.
+`;
+
+/** Erro com o código de saída correspondente. */
+class CliError extends Error {
+  readonly code: number;
+
+  constructor(message: string, code: number) {
+    super(message);
+    this.name = "CliError";
+    this.code = code;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+interface CliArgs {
+  command: string | undefined;
+  positionals: string[];
+  file: string | undefined;
+  output: "json" | "plain";
+  all: boolean;
+  write: boolean;
+  help: boolean;
+}
+
+function parseArgs(argv: readonly string[]): CliArgs {
+  const args: CliArgs = {
+    command: undefined,
+    positionals: [],
+    file: undefined,
+    output: "json",
+    all: false,
+    write: false,
+    help: false,
+  };
+  const valueOf = (i: number, flag: string): string => {
+    if (i >= argv.length) {
+      throw new CliError(`${flag} requer um valor.`, EXIT_CODES.usage);
+    }
+    return argv[i];
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case "-f":
+      case "--file":
+        args.file = valueOf(++i, arg);
+        break;
+      case "-o":
+      case "--output": {
+        const output = valueOf(++i, arg);
+        if (output !== "json" && output !== "plain") {
+          throw new CliError(
+            `${arg} deve ser 'json' ou 'plain'.`,
+            EXIT_CODES.usage
+          );
+        }
+        args.output = output;
+        break;
+      }
+      case "-a":
+      case "--all":
+        args.all = true;
+        break;
+      case "-w":
+      case "--write":
+        args.write = true;
+        break;
+      case "-h":
+      case "--help":
+        args.help = true;
+        break;
+      default:
+        // Argumentos que começam com '-' mas não são opções (ex: números negativos) são posicionais
+        if (/^--?[a-z]/i.test(arg)) {
+          throw new CliError(`opção desconhecida "${arg}".`, EXIT_CODES.usage);
+        }
+        if (args.command === undefined) {
+          args.command = arg;
+        } else {
+          args.positionals.push(arg);
+        }
+    }
+  }
+  return args;
+}
+
+/** Lê os argumentos posicionais esperados por um comando. */
+function expectArgs(args: CliArgs, names: string[]): string[] {
+  if (args.positionals.length !== names.length) {
+    const expected = names.map((name) => `<${name}>`).join(" ");
+    throw new CliError(
+      `uso: deep-tools ${args.command} ${expected}`,
+      EXIT_CODES.usage
+    );
+  }
+  return args.positionals;
+}
+
+/** Converte um argumento JSON (valor de `set` e `find-value`). */
+function parseJsonArg(text: string, name: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new CliError(
+      `${name} deve ser um JSON válido (use '"texto"' para strings).`,
+      EXIT_CODES.usage
+    );
+  }
+}
+
+async function readInput(
+  file: string | undefined,
+  io: CliIO
+): Promise<unknown> {
+  let text = "";
+  try {
+    if (file !== undefined) {
+      text = await fs.readFile(file, "utf8");
+    } else {
+      for await (const chunk of io.stdin) {
+        text += chunk.toString();
+      }
+    }
+  } catch (error) {
+    throw new CliError(
+      `não foi possível ler "${file ?? "stdin"}": ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      EXIT_CODES.io
+    );
+  }
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new CliError(
+      `JSON inválido em ${file ?? "stdin"}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      EXIT_CODES.parse
+    );
+  }
+}
+
+/** Formata um valor: JSON indentado, ou strings sem aspas com `--output plain`. */
+function formatValue(value: unknown, output: CliArgs["output"]): string {
+  if (output === "plain") {
+    return typeof value === "string" ? value : JSON.stringify(value);
+  }
+  return JSON.stringify(value, null, 2);
+}
+
+/** Formata uma lista de caminhos: um array JSON, ou um caminho por linha com `--output plain`. */
+function formatPaths(paths: string[], output: CliArgs["output"]): string {
+  return output === "plain" ? paths.join("\n") : JSON.stringify(paths, null, 2);
+}
+
+function notFound(what: string): never {
+  throw new CliError(`${what} não encontrado.`, EXIT_CODES.notFound);
+}
+
+/**
+ * Chama uma função da biblioteca, convertendo os erros de validação dos argumentos dela (`TypeError`
+ * com a mensagem prefixada pelo nome da função, ex: "deepSet: caminho deve ser não vazio.") em erros de
+ * uso. Outros erros, inclusive outros `TypeError`, seguem como falhas internas.
+ */
+function callLibrary<T>(fnName: string, fn: () => T): T {
+  try {
+    return fn();
+  } catch (error) {
+    if (error instanceof TypeError && error.message.startsWith(`${fnName}: `)) {
+      throw new CliError(error.message, EXIT_CODES.usage);
+    }
+    throw error;
+  }
+}
+
+/** `set` e `unset` alteram o documento: ele precisa ser um objeto ou array. */
+function expectContainer(doc: unknown, command: string): object {
+  if (doc === null || typeof doc !== "object") {
+    throw new CliError(
+      `${command} requer um documento que seja um objeto ou array.`,
+      EXIT_CODES.usage
+    );
+  }
+  return doc;
+}
+
+/** Executa um comando e retorna o texto a imprimir. */
+async function execute(args: CliArgs, io: CliIO): Promise<string> {
+  const { command, output } = args;
+  switch (command) {
+    case "get": {
+      const [path] = expectArgs(args, ["caminho"]);
+      const doc = await readInput(args.file, io);
+      // Apenas propriedades próprias: `constructor` ou `toString` não existem em um documento JSON
+      const value = callLibrary("deepGet", () =>
+        deepGet(doc, path, undefined, { ownProperties: true })
+      );
+      return value === undefined
+        ? notFound(`caminho "${path}"`)
+        : formatValue(value, output);
+    }
+    case "find-key": {
+      const [key] = expectArgs(args, ["chave"]);
+      const doc = await readInput(args.file, io);
+      if (args.all) {
+        const matches = callLibrary("deepFindAllByKey", () =>
+          deepFindAllByKey(doc, key)
+        );
+        if (matches.length === 0) {
+          notFound(`chave "${key}"`);
+        }
+        const paths = matches.map((match) => stringifyPath(match.path));
+        return output === "plain"
+          ? formatPaths(paths, output)
+          : JSON.stringify(
+              matches.map((match, i) => ({
+                path: paths[i],
+                value: match.value,
+              })),
+              null,
+              2
+            );
+      }
+      const value = callLibrary("deepFindByKey", () => deepFindByKey(doc, key));
+      return value === undefined
+        ? notFound(`chave "${key}"`)
+        : formatValue(value, output);
+    }
+    case "find-value": {
+      const [json] = expectArgs(args, ["json"]);
+      const target = parseJsonArg(json, "valor");
+      const doc = await readInput(args.file, io);
+      // Objetos e arrays são comparados pelo conteúdo
+      const paths = callLibrary("deepFindByValue", () =>
+        deepFindByValue(doc, target, "deep")
+      );
+      return paths.length === 0
+        ? notFound(`valor ${json}`)
+        : formatPaths(paths, output);
+    }
+    case "set":
+    case "unset": {
+      if (args.write && args.file === undefined) {
+        throw new CliError("--write requer --file.", EXIT_CODES.usage);
+      }
+      let doc: unknown;
+      let path: string;
+      if (command === "set") {
+        const [setPath, json] = expectArgs(args, ["caminho", "json"]);
+        const value = parseJsonArg(json, "valor");
+        path = setPath;
+        doc = expectContainer(await readInput(args.file, io), command);
+        callLibrary("deepSet", () => deepSet(doc as object, path, value));
+      } else {
+        [path] = expectArgs(args, ["caminho"]);
+        doc = expectContainer(await readInput(args.file, io), command);
+        if (!callLibrary("deepUnset", () => deepUnset(doc as object, path))) {
+          notFound(`caminho "${path}"`);
+        }
+      }
+      const text = JSON.stringify(doc, null, 2);
+      if (!args.write) {
+        return text;
+      }
+      try {
+        await fs.writeFile(args.file!, `${text}\n`);
+      } catch (error) {
+        throw new CliError(
+          `não foi possível gravar "${args.file}": ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+          EXIT_CODES.io
+        );
+      }
+      return "";
+    }
+    case undefined:
+      throw new CliError("nenhum comando informado.", EXIT_CODES.usage);
+    default:
+      throw new CliError(
+        `comando desconhecido "${command}".`,
+        EXIT_CODES.usage
+      );
+  }
+}
+
+/**
+ * Executa o `deep-tools` com os argumentos informados (sem `node` e o nome do script) e retorna o
+ * código de saída. Resultados vão para `stdout`; mensagens de erro, para `stderr`.
+ *
+ * @param {readonly string[]} argv - Os argumentos da linha de comando.
+ * @param {CliIO} [io] - A entrada e as saídas. Padrão: as do processo.
+ * @returns {Promise<number>} Um dos `EXIT_CODES`.
+ *
+ * @example
+ * // echo '{"a":{"b":[1,2]}}' | deep-tools get 'a.b[-1]'
+ * await runCli(['get', 'a.b[-1]']); // imprime 2, retorna 0
+ */
+export async function runCli(
+  argv: readonly string[],
+  io: CliIO = process
+): Promise<number> {
+  try {
+    const args = parseArgs(argv);
+    if (args.help) {
+      io.stdout.write(USAGE);
+      return EXIT_CODES.ok;
+    }
+    const text = await execute(args, io);
+    if (text !== "") {
+      io.stdout.write(`${text}\n`);
+    }
+    return EXIT_CODES.ok;
+  } catch (error) {
+    let code: number = EXIT_CODES.usage;
+    if (error instanceof CliError) {
+      code = error.code;
+    } else if (
+      !(error instanceof PathSyntaxError) &&
+      !(error instanceof UnsafePathError)
+    ) {
+      code = EXIT_CODES.internal;
+    }
+    io.stderr.write(
+      `deep-tools: ${error instanceof Error ? error.message : String(error)}\n`
+    );
+    if (code === EXIT_CODES.usage) {
+      io.stderr.write("Use 'deep-tools --help' para ver os comandos.\n");
+    }
+    return code;
+  }
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then(
+    (code) => {
+      process.exitCode = code;
+    },
+    (error: unknown) => {
+      // Falhas fora do tratamento de `runCli` (ex: ao escrever em `stderr`)
+      process.stderr.write(
+        `deep-tools: ${
+          error instanceof Error ? error.message : String(error)
+        }\n`
+      );
+      process.exitCode = EXIT_CODES.internal;
+    }
+  );
+}
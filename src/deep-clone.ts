@@ -0,0 +1,197 @@
+import type { PathSegment, SafetyOptions } from "./types";
+import { createTraversalGuard } from "./utils/traversalGuard";
+
+/**
+ * Hook para tipos personalizados. Recebe cada valor a ser copiado e uma função `clone` que copia
+ * valores internos preservando referências compartilhadas. Se retornar algo diferente de
+ * `undefined`, esse valor é usado como cópia.
+ *
+ * @param {unknown} value - O valor a ser copiado.
+ * @param {(inner: unknown) => unknown} clone - Copia um valor interno com o mesmo estado de `deepClone`.
+ */
+export type CloneCustomizer = (
+  value: unknown,
+  clone: (inner: unknown) => unknown
+) => unknown;
+
+/**
+ * Opções aceitas por `deepClone`.
+ */
+export interface CloneOptions extends SafetyOptions {
+  /** Copia tipos personalizados. Chamado antes das regras padrão. */
+  customizer?: CloneCustomizer;
+}
+
+type TypedArrayConstructor = new (
+  buffer: ArrayBufferLike,
+  byteOffset: number,
+  length: number
+) => ArrayBufferView;
+
+/**
+ * Cria uma cópia profunda de um valor, preservando referências compartilhadas e circulares:
+ * um objeto que aparece várias vezes na entrada aparece uma única vez na cópia, e uma estrutura
+ * que aponta para si mesma gera uma cópia que aponta para a própria cópia.
+ *
+ * Tipos suportados:
+ * - Objetos e arrays, incluindo propriedades não enumeráveis, símbolos e acessores (copiados como definidos);
+ * - Instâncias de classes (o protótipo é mantido) e erros;
+ * - `Date`, `RegExp` (incluindo `lastIndex`), `Map` e `Set` (chaves e valores são copiados);
+ * - `ArrayBuffer`, `DataView` e typed arrays (views sobre o mesmo buffer continuam compartilhando a cópia do buffer);
+ * - Objetos `Number`, `String` e `Boolean`.
+ *
+ * Primitivos, funções, `WeakMap`, `WeakSet` e `Promise` são mantidos por referência.
+ *
+ * Com `maxDepth`/`maxNodes` e `onError` `'collect'` ou `'ignore'`, valores além dos limites ficam
+ * `undefined` na cópia; se o customizer lançar uma exceção, as regras padrão são usadas.
+ *
+ * @template T O tipo do valor.
+ * @param {T} value - O valor a ser copiado.
+ * @param {CloneOptions} [opcoes] - Hook para tipos personalizados, tratamento de erros e limites.
+ * @returns {T} A cópia.
+ * @throws {CallbackError} Se o customizer lançar uma exceção, com `onError: 'throw'`.
+ * @throws {TraversalLimitError} Se `maxDepth` ou `maxNodes` for excedido com `onError: 'throw'`.
+ *
+ * @example
+ * const obj: any = { data: new Date(0), tags: new Set(['a']) };
+ * obj.self = obj;
+ *
+ * const copia = deepClone(obj);
+ * copia.self === copia; // true
+ * copia.data !== obj.data; // true
+ *
+ * class Money { constructor(public cents: number) {} }
+ * deepClone({ preco: new Money(100) }, {
+ *   customizer: (v) => (v instanceof Money ? new Money(v.cents) : undefined),
+ * });
+ */
+export function deepClone<T>(value: T, options: CloneOptions = {}): T {
+  const { customizer } = options;
+  const guard = createTraversalGuard("deepClone", options);
+  const copies = new Map<object, unknown>(); // Original -> cópia, preserva referências compartilhadas/circulares
+
+  // Registra a cópia antes de copiar os filhos, para que ciclos apontem para ela
+  const remember = <C>(original: object, copy: C): C => {
+    copies.set(original, copy);
+    return copy;
+  };
+
+  // Valores internos (propriedades, entradas de `Map`, membros de `Set`) passam pelos limites
+  const cloneChild = (input: unknown, path: PathSegment[]): unknown =>
+    guard.visit(path, path.length) ? clone(input, path) : undefined;
+
+  const clone = (input: unknown, path: PathSegment[]): unknown => {
+    if (input === null || typeof input !== "object") {
+      return input;
+    }
+    if (copies.has(input)) {
+      return copies.get(input);
+    }
+    if (customizer) {
+      const custom = guard.call(path, undefined, () =>
+        customizer(input, (inner) => clone(inner, path))
+      );
+      if (custom !== undefined) {
+        copies.set(input, custom);
+        return custom;
+      }
+    }
+
+    // Tipos nativos são identificados pela tag, que também funciona entre realms (ex: módulo `vm`)
+    switch (Object.prototype.toString.call(input)) {
+      case "[object WeakMap]":
+      case "[object WeakSet]":
+      case "[object Promise]":
+        return input;
+      case "[object Date]":
+        return remember(input, new Date((input as Date).getTime()));
+      case "[object RegExp]": {
+        const regex = input as RegExp;
+        const copy = remember(input, new RegExp(regex.source, regex.flags));
+        copy.lastIndex = regex.lastIndex;
+        return copy;
+      }
+      case "[object Number]":
+      case "[object String]":
+      case "[object Boolean]":
+        return remember(input, Object(input.valueOf()));
+      case "[object ArrayBuffer]":
+        return remember(input, (input as ArrayBuffer).slice(0));
+      case "[object DataView]": {
+        const view = input as DataView;
+        return remember(
+          input,
+          new DataView(
+            clone(view.buffer, path) as ArrayBuffer,
+            view.byteOffset,
+            view.byteLength
+          )
+        );
+      }
+      case "[object Map]": {
+        const copy = remember(input, new Map());
+        let index = 0;
+        (input as Map<unknown, unknown>).forEach((entryValue, key) => {
+          // Chaves que não são segmentos de caminho (ex: objetos) aparecem pela posição
+          const segment =
+            typeof key === "string" ||
+            typeof key === "number" ||
+            typeof key === "symbol"
+              ? key
+              : index;
+          index++;
+          copy.set(
+            clone(key, path),
+            cloneChild(entryValue, [...path, segment])
+          );
+        });
+        return copy;
+      }
+      case "[object Set]": {
+        const copy = remember(input, new Set());
+        let index = 0;
+        (input as Set<unknown>).forEach((member) =>
+          copy.add(cloneChild(member, [...path, index++]))
+        );
+        return copy;
+      }
+    }
+    if (ArrayBuffer.isView(input)) {
+      const view = input as ArrayBufferView & { length: number };
+      const TypedArray = input.constructor as TypedArrayConstructor;
+      return remember(
+        input,
+        new TypedArray(
+          clone(view.buffer, path) as ArrayBufferLike,
+          view.byteOffset,
+          view.length
+        )
+      );
+    }
+
+    // Objetos, arrays e instâncias de classes: mantém o protótipo e copia os descritores próprios
+    const copy = remember(
+      input,
+      Array.isArray(input)
+        ? new Array(input.length)
+        : Object.create(Object.getPrototypeOf(input))
+    );
+    for (const key of Reflect.ownKeys(input)) {
+      if (Array.isArray(input) && key === "length") {
+        continue;
+      }
+      const descriptor = Object.getOwnPropertyDescriptor(input, key)!;
+      if ("value" in descriptor) {
+        const segment =
+          Array.isArray(input) && typeof key === "string" && /^\d+$/.test(key)
+            ? Number(key)
+            : key;
+        descriptor.value = cloneChild(descriptor.value, [...path, segment]);
+      }
+      Object.defineProperty(copy, key, descriptor);
+    }
+    return copy;
+  };
+
+  return clone(value, []) as T;
+}
@@ -0,0 +1,528 @@
+import { deepEqual } from "./deep-equal";
+import { walkEntries } from "./deep-walk";
+import { PatchError, UnsafePathError } from "./errors";
+import type { PathSecurityOptions, PathSegment, SafetyOptions } from "./types";
+import { fromJsonPointer, toJsonPointer } from "./utils/jsonPointer";
+import { checkPathSecurity } from "./utils/pathSecurity";
+import { resolvePath } from "./utils/resolvePath";
+import { createTraversalGuard } from "./utils/traversalGuard";
+
+/**
+ * Uma operação JSON Patch (RFC 6902). Os caminhos (`path`, `from`) são JSON Pointers (RFC 6901).
+ */
+export type PatchOperation =
+  | { op: "add"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+  | { op: "replace"; path: string; value: unknown }
+  | { op: "move"; from: string; path: string }
+  | { op: "copy"; from: string; path: string }
+  | { op: "test"; path: string; value: unknown };
+
+/**
+ * Opções aceitas por `deepDiff`.
+ */
+export interface DiffOptions extends SafetyOptions {
+  /**
+   * Quando `true`, uma propriedade removida e outra adicionada com o mesmo valor
+   * são emitidas como uma única operação `move`. Aplica-se apenas a propriedades de objetos.
+   */
+  detectMoves?: boolean;
+  /**
+   * Quando `true`, um objeto/array adicionado que é igual a outro valor inalterado do documento
+   * original é emitido como uma operação `copy`.
+   */
+  detectCopies?: boolean;
+}
+
+/**
+ * Opções aceitas por `applyPatch`. As opções de `PathSecurityOptions` valem para os caminhos
+ * escritos (`path`, e `from` em `move`); por padrão, segmentos inseguros são recusados.
+ */
+export interface ApplyPatchOptions extends PathSecurityOptions {
+  /**
+   * Quando `true`, o documento de entrada é modificado no lugar. Se alguma operação falhar,
+   * todas as alterações já feitas são desfeitas antes de o erro ser lançado.
+   * Por padrão (`false`), o documento de entrada não é modificado: apenas os contêineres
+   * alterados são copiados (compartilhamento estrutural).
+   */
+  mutate?: boolean;
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object";
+}
+
+/**
+ * Valores comparados chave a chave pelo diff: arrays e objetos simples (ou instâncias de classes).
+ * `Date`, `Map`, `Set`, `RegExp`, typed arrays e demais objetos nativos são folhas: se diferem, o
+ * valor inteiro é substituído.
+ */
+function isStructured(value: unknown): value is Record<string, unknown> {
+  return (
+    Array.isArray(value) ||
+    Object.prototype.toString.call(value) === "[object Object]"
+  );
+}
+
+/** Igualdade usada no diff e na operação `test`: `0` e `-0` continuam diferentes, como em `Object.is`. */
+function sameStructure(a: unknown, b: unknown): boolean {
+  return deepEqual(a, b, { distinguishZeros: true });
+}
+
+/** Registro interno de uma operação gerada, usado na detecção de `move` e `copy`. */
+interface DiffRecord {
+  op: PatchOperation;
+  segments: PathSegment[];
+  /** Valor removido (`remove`) ou adicionado (`add`). */
+  value?: unknown;
+  /** `true` se a operação atua sobre uma propriedade de objeto (e não um elemento de array). */
+  objectProperty: boolean;
+}
+
+/**
+ * Compara dois valores e gera a lista de operações JSON Patch (RFC 6902) que transforma `a` em `b`.
+ * Objetos são comparados propriedade a propriedade e arrays índice a índice: elementos extras
+ * em `b` viram `add` e elementos extras em `a` viram `remove` (do fim para o começo, para manter
+ * os índices válidos). Valores de tipos diferentes viram `replace`, assim como `Date`, `Map`, `Set`,
+ * `RegExp` e demais objetos nativos que diferem (comparados com `deepEqual`). Opcionalmente, detecta
+ * operações `move` e `copy`.
+ *
+ * Assim como os finders, é seguro para referências circulares: um par de objetos que já está
+ * sendo comparado não é comparado novamente.
+ *
+ * Com `maxDepth`/`maxNodes` e `onError` `'collect'` ou `'ignore'`, valores além dos limites não são
+ * comparados, e o patch resultante é parcial.
+ *
+ * @param {unknown} a - O documento original.
+ * @param {unknown} b - O documento desejado.
+ * @param {DiffOptions} [opcoes] - Detecção de `move` e `copy`, tratamento de erros e limites.
+ * @returns {PatchOperation[]} As operações que, aplicadas com `applyPatch` em `a`, produzem `b`.
+ *   Os valores nas operações são referências aos valores de `b`.
+ * @throws {TraversalLimitError} Se `maxDepth` ou `maxNodes` for excedido com `onError: 'throw'`.
+ *
+ * @example
+ * deepDiff({ a: 1, b: [1, 2], c: 'x' }, { a: 2, b: [1], d: true });
+ * // [
+ * //   { op: 'remove', path: '/c' },
+ * //   { op: 'replace', path: '/a', value: 2 },
+ * //   { op: 'remove', path: '/b/1' },
+ * //   { op: 'add', path: '/d', value: true },
+ * // ]
+ * deepDiff({ velho: { x: 1 } }, { novo: { x: 1 } }, { detectMoves: true });
+ * // [{ op: 'move', from: '/velho', path: '/novo' }]
+ */
+export function deepDiff(
+  a: unknown,
+  b: unknown,
+  options: DiffOptions = {}
+): PatchOperation[] {
+  const guard = createTraversalGuard("deepDiff", options);
+  const records: DiffRecord[] = [];
+  const comparing = new Map<object, Set<object>>(); // Evitar loops infinitos em estruturas circulares
+
+  const push = (
+    op: "add" | "remove" | "replace",
+    segments: PathSegment[],
+    value: unknown,
+    objectProperty: boolean
+  ) => {
+    const path = toJsonPointer(segments);
+    records.push({
+      op: op === "remove" ? { op, path } : { op, path, value },
+      segments,
+      value,
+      objectProperty,
+    });
+  };
+
+  const diff = (left: unknown, right: unknown, path: PathSegment[]): void => {
+    if (path.length > 0 && !guard.visit(path, path.length)) {
+      return;
+    }
+    if (Object.is(left, right)) {
+      return;
+    }
+    if (
+      !isStructured(left) ||
+      !isStructured(right) ||
+      Array.isArray(left) !== Array.isArray(right)
+    ) {
+      if (!sameStructure(left, right)) {
+        push("replace", path, right, false);
+      }
+      return;
+    }
+
+    // Prevenir ciclos - um par já em comparação é considerado igual
+    const pairs = comparing.get(left) ?? new Set<object>();
+    if (pairs.has(right)) {
+      return;
+    }
+    pairs.add(right);
+    comparing.set(left, pairs);
+
+    if (Array.isArray(left) && Array.isArray(right)) {
+      const common = Math.min(left.length, right.length);
+      for (let i = 0; i < common; i++) {
+        diff(left[i], right[i], [...path, i]);
+      }
+      for (let i = common; i < right.length; i++) {
+        push("add", [...path, i], right[i], false);
+      }
+      for (let i = left.length - 1; i >= common; i--) {
+        push("remove", [...path, i], left[i], false);
+      }
+      return;
+    }
+
+    const hasOwn = (target: object, key: string) =>
+      Object.prototype.hasOwnProperty.call(target, key);
+    const leftKeys = Object.keys(left);
+    for (const key of leftKeys) {
+      if (!hasOwn(right, key)) {
+        push("remove", [...path, key], left[key], true);
+      }
+    }
+    for (const key of leftKeys) {
+      if (hasOwn(right, key)) {
+        diff(left[key], right[key], [...path, key]);
+      }
+    }
+    for (const key of Object.keys(right)) {
+      if (!hasOwn(left, key)) {
+        push("add", [...path, key], right[key], true);
+      }
+    }
+  };
+
+  diff(a, b, []);
+
+  if (options.detectMoves) {
+    const removals = records.filter(
+      (record) => record.op.op === "remove" && record.objectProperty
+    );
+    for (const record of records) {
+      if (record.op.op !== "add" || !record.objectProperty) {
+        continue;
+      }
+      const match = removals.findIndex((removal) =>
+        sameStructure(removal.value, record.value)
+      );
+      if (match !== -1) {
+        const [removal] = removals.splice(match, 1);
+        // A remoção é absorvida pelo move, emitido na posição da adição
+        record.op = { op: "move", from: removal.op.path, path: record.op.path };
+        records.splice(records.indexOf(removal), 1);
+      }
+    }
+  }
+
+  if (options.detectCopies) {
+    // Origens possíveis: objetos/arrays de `a` que continuam iguais em `b` (sem contar os valores novamente)
+    const sources = [...walkEntries(a, {}, guard.uncounted())].filter(
+      (entry) =>
+        isContainer(entry.value) &&
+        !entry.seen &&
+        sameStructure(entry.value, resolvePath(b, entry.path))
+    );
+    for (const record of records) {
+      if (record.op.op !== "add" || !isContainer(record.value)) {
+        continue;
+      }
+      const source = sources.find((entry) =>
+        sameStructure(entry.value, record.value)
+      );
+      if (source) {
+        record.op = {
+          op: "copy",
+          from: toJsonPointer(source.path),
+          path: record.op.path,
+        };
+      }
+    }
+  }
+
+  return records.map((record) => record.op);
+}
+
+/**
+ * Copia recursivamente arrays e objetos (usado pela operação `copy`), preservando ciclos.
+ */
+function copyValue(
+  value: unknown,
+  copies = new Map<object, unknown>()
+): unknown {
+  if (!isContainer(value) || value instanceof Date) {
+    return value instanceof Date ? new Date(value.getTime()) : value;
+  }
+  if (copies.has(value)) {
+    return copies.get(value);
+  }
+  const copy: Record<string, unknown> = Array.isArray(value)
+    ? ([] as unknown as Record<string, unknown>)
+    : Object.create(Object.getPrototypeOf(value));
+  copies.set(value, copy);
+  for (const key of Object.keys(value)) {
+    copy[key] = copyValue(value[key], copies);
+  }
+  return copy;
+}
+
+function shallowCopy(value: Record<string, unknown>): Record<string, unknown> {
+  if (Array.isArray(value)) {
+    return value.slice() as unknown as Record<string, unknown>;
+  }
+  return Object.assign(Object.create(Object.getPrototypeOf(value)), value);
+}
+
+/**
+ * Aplica uma lista de operações JSON Patch (RFC 6902) a um documento: `add`, `remove`, `replace`,
+ * `move`, `copy` e `test`. A aplicação é atômica: se qualquer operação falhar (caminho inexistente,
+ * índice inválido, `test` não satisfeito), nenhuma alteração é mantida e um `PatchError` é lançado.
+ *
+ * Por padrão o documento de entrada não é modificado e um novo documento é retornado, copiando
+ * apenas os contêineres alterados. Com `mutate: true` o documento é modificado no lugar e,
+ * em caso de falha, as alterações já feitas são desfeitas.
+ *
+ * Operações que escrevem em `__proto__`, `constructor` ou `prototype` lançam `UnsafePathError`
+ * (após desfazer as alterações), ou são ignoradas com `unsafeSegments: 'ignore'`.
+ *
+ * @template T O tipo do documento.
+ * @param {T} obj - O documento a ser alterado.
+ * @param {readonly PatchOperation[]} operations - As operações, como as geradas por `deepDiff`.
+ * @param {ApplyPatchOptions} [opcoes] - Se o documento deve ser modificado no lugar e a segurança dos caminhos.
+ * @returns {T} O documento resultante (o próprio `obj` quando `mutate: true`, salvo se a raiz for substituída).
+ * @throws {PatchError} Se uma operação for inválida ou não puder ser aplicada.
+ * @throws {UnsafePathError} Se o caminho de uma operação for recusado pelas opções de segurança.
+ *
+ * @example
+ * const doc = { a: 1, b: [1, 2] };
+ * applyPatch(doc, [
+ *   { op: 'test', path: '/a', value: 1 },
+ *   { op: 'replace', path: '/a', value: 2 },
+ *   { op: 'add', path: '/b/-', value: 3 },
+ * ]); // { a: 2, b: [1, 2, 3] }, doc permanece inalterado
+ *
+ * applyPatch(doc, [{ op: 'test', path: '/a', value: 99 }]); // lança PatchError
+ */
+export function applyPatch<T>(
+  obj: T,
+  operations: readonly PatchOperation[],
+  options: ApplyPatchOptions = {}
+): T {
+  if (!Array.isArray(operations)) {
+    throw new TypeError("applyPatch: operations deve ser um array.");
+  }
+
+  const mutate = options.mutate === true;
+  const owned = new WeakSet<object>(); // Contêineres copiados por este patch, já seguros para modificar
+  const undo: (() => void)[] = [];
+  let root: unknown = obj;
+
+  const own = (value: Record<string, unknown>): Record<string, unknown> => {
+    if (mutate || owned.has(value)) {
+      return value;
+    }
+    const copy = shallowCopy(value);
+    owned.add(copy);
+    return copy;
+  };
+
+  // Converte um token em índice de array, aceitando '-' (fim do array) apenas quando permitido
+  const toIndex = (
+    array: unknown[],
+    token: string,
+    allowEnd: boolean
+  ): number => {
+    if (allowEnd && token === "-") {
+      return array.length;
+    }
+    if (!/^(?:0|[1-9]\d*)$/.test(token)) {
+      throw new Error(`índice de array inválido "${token}"`);
+    }
+    const index = Number(token);
+    if (index > array.length || (!allowEnd && index === array.length)) {
+      throw new Error(`índice ${index} fora dos limites do array`);
+    }
+    return index;
+  };
+
+  const childOf = (container: unknown, token: string): unknown => {
+    if (Array.isArray(container)) {
+      return container[toIndex(container, token, false)];
+    }
+    if (
+      !isContainer(container) ||
+      !Object.prototype.hasOwnProperty.call(container, token)
+    ) {
+      throw new Error(`caminho inexistente "${token}"`);
+    }
+    return container[token];
+  };
+
+  const getAt = (tokens: string[]): unknown =>
+    tokens.reduce<unknown>((node, token) => childOf(node, token), root);
+
+  // Retorna o contêiner pai do caminho, copiando os contêineres ao longo dele no modo imutável
+  const writableParent = (tokens: string[]): Record<string, unknown> => {
+    if (!isContainer(root)) {
+      throw new Error("o documento não é um objeto ou array");
+    }
+    root = own(root);
+    let node = root as Record<string, unknown>;
+    for (const token of tokens.slice(0, -1)) {
+      const child = childOf(node, token);
+      if (!isContainer(child)) {
+        throw new Error(`caminho inexistente "${token}"`);
+      }
+      const writable = own(child);
+      node[Array.isArray(node) ? toIndex(node, token, false) : token] =
+        writable;
+      node = writable;
+    }
+    return node;
+  };
+
+  const addAt = (tokens: string[], value: unknown): void => {
+    if (tokens.length === 0) {
+      const previous = root;
+      root = value;
+      undo.push(() => (root = previous));
+      return;
+    }
+    const parent = writableParent(tokens);
+    const token = tokens[tokens.length - 1];
+    if (Array.isArray(parent)) {
+      const index = toIndex(parent, token, true);
+      parent.splice(index, 0, value);
+      undo.push(() => parent.splice(index, 1));
+      return;
+    }
+    const existed = Object.prototype.hasOwnProperty.call(parent, token);
+    const previous = parent[token];
+    parent[token] = value;
+    undo.push(() => {
+      if (existed) {
+        parent[token] = previous;
+      } else {
+        delete parent[token];
+      }
+    });
+  };
+
+  const removeAt = (tokens: string[]): unknown => {
+    if (tokens.length === 0) {
+      const previous = root;
+      root = undefined;
+      undo.push(() => (root = previous));
+      return previous;
+    }
+    const parent = writableParent(tokens);
+    const token = tokens[tokens.length - 1];
+    const previous = childOf(parent, token);
+    if (Array.isArray(parent)) {
+      const index = toIndex(parent, token, false);
+      parent.splice(index, 1);
+      undo.push(() => parent.splice(index, 0, previous));
+    } else {
+      delete parent[token];
+      undo.push(() => (parent[token] = previous));
+    }
+    return previous;
+  };
+
+  const replaceAt = (tokens: string[], value: unknown): void => {
+    if (tokens.length === 0) {
+      const previous = root;
+      root = value;
+      undo.push(() => (root = previous));
+      return;
+    }
+    const parent = writableParent(tokens);
+    const token = tokens[tokens.length - 1];
+    const previous = childOf(parent, token);
+    const key = Array.isArray(parent) ? toIndex(parent, token, false) : token;
+    parent[key] = value;
+    undo.push(() => (parent[key] = previous));
+  };
+
+  operations.forEach((operation, index) => {
+    try {
+      if (
+        operation === null ||
+        typeof operation !== "object" ||
+        typeof operation.path !== "string"
+      ) {
+        throw new Error("operação inválida: 'path' deve ser uma string");
+      }
+      const path = fromJsonPointer(operation.path);
+      if (operation.op !== "test") {
+        const writes =
+          operation.op === "move" && typeof operation.from === "string"
+            ? [path, fromJsonPointer(operation.from)]
+            : [path];
+        const safe = writes.every((tokens) =>
+          checkPathSecurity("applyPatch", tokens, options, "reject")
+        );
+        if (!safe) {
+          return; // unsafeSegments: 'ignore'
+        }
+      }
+
+      switch (operation.op) {
+        case "add":
+          addAt(path, operation.value);
+          break;
+        case "remove":
+          removeAt(path);
+          break;
+        case "replace":
+          replaceAt(path, operation.value);
+          break;
+        case "move": {
+          if (operation.from === operation.path) {
+            break;
+          }
+          if (operation.path.startsWith(`${operation.from}/`)) {
+            throw new Error(
+              "não é possível mover um valor para dentro de si mesmo"
+            );
+          }
+          addAt(path, removeAt(fromJsonPointer(operation.from)));
+          break;
+        }
+        case "copy":
+          addAt(path, copyValue(getAt(fromJsonPointer(operation.from))));
+          break;
+        case "test":
+          if (!sameStructure(getAt(path), operation.value)) {
+            throw new Error(`teste falhou em "${operation.path}"`);
+          }
+          break;
+        default:
+          throw new Error(
+            `operação desconhecida "${String(
+              (operation as { op: unknown }).op
+            )}"`
+          );
+      }
+    } catch (error) {
+      // Atomicidade: desfazer tudo o que já foi aplicado (apenas no modo mutável há o que desfazer)
+      if (mutate) {
+        for (let i = undo.length - 1; i >= 0; i--) {
+          undo[i]();
+        }
+      }
+      if (error instanceof UnsafePathError) {
+        throw error;
+      }
+      throw new PatchError(
+        `applyPatch: ${error instanceof Error ? error.message : String(error)}`,
+        operation,
+        index
+      );
+    }
+  });
+
+  return root as T;
+}
@@ -0,0 +1,475 @@
+import { compilePatterns, matchesAny } from "./deep-pick";
+import type { ObjectPath, PathSegment, SafetyOptions } from "./types";
+import { createTraversalGuard } from "./utils/traversalGuard";
+
+/**
+ * Comparação personalizada. Recebe cada par de valores comparados (incluindo a raiz) e o caminho
+ * até eles; retornar `true`/`false` decide o resultado, `undefined` usa as regras padrão.
+ */
+export type EqualityCustomizer = (
+  a: unknown,
+  b: unknown,
+  path: PathSegment[]
+) => boolean | undefined;
+
+/**
+ * Opções aceitas por `deepEqual` e `deepEqualExplain`.
+ */
+export interface EqualOptions extends SafetyOptions {
+  /** Compara arrays sem considerar a ordem dos elementos (como multiconjuntos). Padrão: `false`. */
+  unorderedArrays?: boolean;
+  /**
+   * Padrões de caminho ignorados na comparação, com a sintaxe de `deepPick` (`*`, `**`, `*At`...).
+   * Um padrão com um único segmento (ex: `'updatedAt'`) casa em qualquer profundidade.
+   */
+  ignorePaths?: string | readonly ObjectPath[];
+  /** Comparação personalizada, chamada antes das regras padrão. */
+  customizer?: EqualityCustomizer;
+  /** Quando `true`, `0` e `-0` são diferentes (como `Object.is`). Padrão: `false`. */
+  distinguishZeros?: boolean;
+}
+
+/**
+ * Opções aceitas por `deepEqualExplain`.
+ */
+export interface ExplainOptions extends EqualOptions {
+  /** Retorna todas as diferenças, e não apenas a primeira. Padrão: `false`. */
+  all?: boolean;
+}
+
+/**
+ * Motivo de uma diferença:
+ * - `'value'`: valores diferentes do mesmo tipo (ou recusados pelo customizer);
+ * - `'type'`: tipos diferentes (ex: array e objeto, `Date` e string, protótipos diferentes);
+ * - `'missing'`: a chave, elemento ou membro existe apenas em `a`;
+ * - `'extra'`: a chave, elemento ou membro existe apenas em `b`.
+ */
+export type MismatchReason = "value" | "type" | "missing" | "extra";
+
+/**
+ * Uma diferença encontrada por `deepEqualExplain`.
+ */
+export interface EqualityMismatch {
+  /** Caminho até a diferença, em segmentos (vazio para a raiz). */
+  path: PathSegment[];
+  reason: MismatchReason;
+  /** O valor em `a` (`undefined` com `'extra'`). */
+  a: unknown;
+  /** O valor em `b` (`undefined` com `'missing'`). */
+  b: unknown;
+}
+
+/** Uma entrada comparada por chave: [chave, existe em `a`, valor em `a`, existe em `b`, valor em `b`]. */
+type KeyedEntry = [PathSegment, boolean, unknown, boolean, unknown];
+
+const tagOf = (value: object): string => Object.prototype.toString.call(value);
+
+const kindOf = (value: unknown): string =>
+  value === null ? "null" : typeof value;
+
+/** Protótipo usado na comparação: objetos sem protótipo contam como objetos simples. */
+const prototypeOf = (value: object): object | null =>
+  Object.getPrototypeOf(value) ?? Object.prototype;
+
+/** Chaves próprias enumeráveis, incluindo símbolos. */
+function ownKeys(value: object): PathSegment[] {
+  const keys: PathSegment[] = Object.keys(value);
+  for (const symbol of Object.getOwnPropertySymbols(value)) {
+    if (Object.prototype.propertyIsEnumerable.call(value, symbol)) {
+      keys.push(symbol);
+    }
+  }
+  return keys;
+}
+
+const bytesOf = (view: ArrayBuffer | ArrayBufferView): Uint8Array =>
+  ArrayBuffer.isView(view)
+    ? new Uint8Array(view.buffer, view.byteOffset, view.byteLength)
+    : new Uint8Array(view);
+
+/**
+ * Compara `a` e `b` e retorna as diferenças encontradas: apenas a primeira, ou todas com `all`.
+ * Uma lista vazia indica que os valores são iguais.
+ */
+function compareValues(
+  fnName: string,
+  a: unknown,
+  b: unknown,
+  options: EqualOptions,
+  all: boolean
+): EqualityMismatch[] {
+  const { unorderedArrays = false, customizer, distinguishZeros } = options;
+  const guard = createTraversalGuard(fnName, options);
+  const ignored =
+    options.ignorePaths === undefined
+      ? []
+      : compilePatterns(fnName, options.ignorePaths);
+  const mismatches: EqualityMismatch[] = [];
+  // Pares em comparação no caminho atual (a -> b e b -> a), para referências circulares
+  const ancestorsA = new Map<object, object>();
+  const ancestorsB = new Map<object, object>();
+  let trials = 0; // Comparações de tentativa (arrays sem ordem, `Set`) não registram diferenças
+
+  const sameValue = (left: unknown, right: unknown): boolean =>
+    distinguishZeros
+      ? Object.is(left, right)
+      : left === right || (left !== left && right !== right); // NaN é igual a NaN
+
+  const report = (
+    path: PathSegment[],
+    reason: MismatchReason,
+    left: unknown,
+    right: unknown
+  ): false => {
+    if (trials === 0) {
+      mismatches.push({ path, reason, a: left, b: right });
+    }
+    return false;
+  };
+
+  // Depois de uma diferença, os irmãos só são comparados para listar todas elas
+  const proceed = () => all && trials === 0;
+
+  const isIgnored = (path: PathSegment[]) =>
+    ignored.length > 0 && matchesAny(ignored, path);
+
+  const equalChild = (
+    left: unknown,
+    right: unknown,
+    path: PathSegment[]
+  ): boolean =>
+    isIgnored(path) ||
+    !guard.visit(path, path.length) || // Além dos limites: não comparado
+    equal(left, right, path);
+
+  const trial = (left: unknown, right: unknown, path: PathSegment[]) => {
+    trials++;
+    try {
+      return equalChild(left, right, path);
+    } finally {
+      trials--;
+    }
+  };
+
+  const compareKeyed = (
+    entries: Iterable<KeyedEntry>,
+    path: PathSegment[]
+  ): boolean => {
+    let result = true;
+    for (const [key, inLeft, left, inRight, right] of entries) {
+      const childPath = [...path, key];
+      const ok =
+        inLeft && inRight
+          ? equalChild(left, right, childPath)
+          : isIgnored(childPath) ||
+            report(childPath, inLeft ? "missing" : "extra", left, right);
+      if (!ok) {
+        result = false;
+        if (!proceed()) {
+          break;
+        }
+      }
+    }
+    return result;
+  };
+
+  function* indexedEntries(
+    left: ArrayLike<unknown>,
+    right: ArrayLike<unknown>
+  ): Generator<KeyedEntry> {
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+      yield [i, i < left.length, left[i], i < right.length, right[i]];
+    }
+  }
+
+  function* objectEntries(left: object, right: object): Generator<KeyedEntry> {
+    const l = left as Record<PathSegment, unknown>;
+    const r = right as Record<PathSegment, unknown>;
+    for (const key of ownKeys(left)) {
+      const inRight = Object.prototype.propertyIsEnumerable.call(right, key);
+      yield [key, true, l[key], inRight, inRight ? r[key] : undefined];
+    }
+    for (const key of ownKeys(right)) {
+      if (!Object.prototype.propertyIsEnumerable.call(left, key)) {
+        yield [key, false, undefined, true, r[key]];
+      }
+    }
+  }
+
+  // Chaves de `Map` são comparadas por identidade; as que não cabem em um caminho aparecem pela posição
+  function* mapEntries(
+    left: Map<unknown, unknown>,
+    right: Map<unknown, unknown>
+  ): Generator<KeyedEntry> {
+    const segment = (key: unknown, index: number): PathSegment =>
+      typeof key === "string" ||
+      typeof key === "number" ||
+      typeof key === "symbol"
+        ? key
+        : index;
+    let index = 0;
+    for (const [key, value] of left) {
+      const inRight = right.has(key);
+      yield [segment(key, index++), true, value, inRight, right.get(key)];
+    }
+    index = 0;
+    for (const [key, value] of right) {
+      if (!left.has(key)) {
+        yield [segment(key, index), false, undefined, true, value];
+      }
+      index++;
+    }
+  }
+
+  // Emparelha os elementos sem considerar a ordem; cada elemento de `b` é usado uma única vez
+  const compareUnordered = (
+    left: unknown[],
+    right: unknown[],
+    path: PathSegment[]
+  ): boolean => {
+    const used = new Array<boolean>(right.length).fill(false);
+    let result = true;
+    for (let i = 0; i < left.length; i++) {
+      const childPath = [...path, i];
+      if (isIgnored(childPath)) {
+        continue;
+      }
+      // A mesma posição é tentada primeiro
+      const match =
+        i < right.length && !used[i] && trial(left[i], right[i], childPath)
+          ? i
+          : right.findIndex(
+              (candidate, j) => !used[j] && trial(left[i], candidate, childPath)
+            );
+      if (match === -1) {
+        result = report(childPath, "missing", left[i], undefined);
+        if (!proceed()) {
+          return false;
+        }
+      } else {
+        used[match] = true;
+      }
+    }
+    for (let j = 0; j < right.length; j++) {
+      const childPath = [...path, j];
+      if (!used[j] && !isIgnored(childPath)) {
+        result = report(childPath, "extra", undefined, right[j]);
+        if (!proceed()) {
+          return false;
+        }
+      }
+    }
+    return result;
+  };
+
+  const compareContents = (
+    tag: string,
+    left: object,
+    right: object,
+    path: PathSegment[]
+  ): boolean => {
+    switch (tag) {
+      case "[object Date]":
+        return (
+          sameValue(
+            (left as Date).getTime(),
+            (right as Date).getTime() // Datas inválidas são iguais entre si
+          ) || report(path, "value", left, right)
+        );
+      case "[object RegExp]":
+        return (
+          ((left as RegExp).source === (right as RegExp).source &&
+            (left as RegExp).flags === (right as RegExp).flags) ||
+          report(path, "value", left, right)
+        );
+      case "[object Number]":
+      case "[object String]":
+      case "[object Boolean]":
+        return (
+          sameValue(left.valueOf(), right.valueOf()) ||
+          report(path, "value", left, right)
+        );
+      case "[object Error]":
+        if (
+          (left as Error).name !== (right as Error).name ||
+          (left as Error).message !== (right as Error).message
+        ) {
+          return report(path, "value", left, right);
+        }
+        return compareKeyed(objectEntries(left, right), path);
+      case "[object ArrayBuffer]":
+      case "[object DataView]": {
+        const l = bytesOf(left as ArrayBuffer | DataView);
+        const r = bytesOf(right as ArrayBuffer | DataView);
+        return (
+          (l.length === r.length && l.every((byte, i) => byte === r[i])) ||
+          report(path, "value", left, right)
+        );
+      }
+      case "[object WeakMap]":
+      case "[object WeakSet]":
+      case "[object Promise]":
+        return report(path, "value", left, right); // Comparados apenas por referência
+      case "[object Map]":
+        return compareKeyed(
+          mapEntries(
+            left as Map<unknown, unknown>,
+            right as Map<unknown, unknown>
+          ),
+          path
+        );
+      case "[object Set]":
+        return compareUnordered(
+          [...(left as Set<unknown>)],
+          [...(right as Set<unknown>)],
+          path
+        );
+      case "[object Array]":
+        return unorderedArrays
+          ? compareUnordered(left as unknown[], right as unknown[], path)
+          : compareKeyed(
+              indexedEntries(left as unknown[], right as unknown[]),
+              path
+            );
+      default:
+        return ArrayBuffer.isView(left) // Typed arrays
+          ? compareKeyed(
+              indexedEntries(
+                left as unknown as ArrayLike<unknown>,
+                right as unknown as ArrayLike<unknown>
+              ),
+              path
+            )
+          : compareKeyed(objectEntries(left, right), path);
+    }
+  };
+
+  const equal = (
+    left: unknown,
+    right: unknown,
+    path: PathSegment[]
+  ): boolean => {
+    if (customizer) {
+      const custom = guard.call(path, undefined, () =>
+        customizer(left, right, path.slice())
+      );
+      if (custom !== undefined) {
+        return custom || report(path, "value", left, right);
+      }
+    }
+    if (sameValue(left, right)) {
+      return true;
+    }
+    if (
+      left === null ||
+      right === null ||
+      typeof left !== "object" ||
+      typeof right !== "object"
+    ) {
+      return report(
+        path,
+        kindOf(left) === kindOf(right) ? "value" : "type",
+        left,
+        right
+      );
+    }
+
+    // Tipos nativos são identificados pela tag, como em `deepClone`
+    const tag = tagOf(left);
+    if (
+      tag !== tagOf(right) ||
+      (tag === "[object Object]" && prototypeOf(left) !== prototypeOf(right))
+    ) {
+      return report(path, "type", left, right);
+    }
+
+    // Prevenir ciclos - um par já em comparação é igual se os dois lados voltam ao mesmo ponto
+    if (ancestorsA.has(left) || ancestorsB.has(right)) {
+      return (
+        (ancestorsA.get(left) === right && ancestorsB.get(right) === left) ||
+        report(path, "value", left, right)
+      );
+    }
+    ancestorsA.set(left, right);
+    ancestorsB.set(right, left);
+    try {
+      return compareContents(tag, left, right, path);
+    } finally {
+      ancestorsA.delete(left);
+      ancestorsB.delete(right);
+    }
+  };
+
+  equal(a, b, []);
+  return mismatches;
+}
+
+/**
+ * Verifica se dois valores são estruturalmente iguais, em qualquer profundidade.
+ *
+ * Regras padrão:
+ * - Primitivos: igualdade estrita, com `NaN` igual a `NaN` e `0` igual a `-0` (a menos que `distinguishZeros`);
+ * - Objetos e arrays: mesmo protótipo e mesmas chaves próprias enumeráveis (incluindo símbolos), com valores iguais;
+ * - `Date` pelo instante, `RegExp` pelo padrão e flags, erros por `name` e `message`, objetos `Number`,
+ *   `String` e `Boolean` pelo valor, `ArrayBuffer`, `DataView` e typed arrays pelo conteúdo;
+ * - `Map`: as mesmas chaves (comparadas por identidade) com valores iguais; `Set`: membros iguais em qualquer ordem;
+ * - Funções, `WeakMap`, `WeakSet` e `Promise`: apenas por referência.
+ *
+ * Referências circulares são suportadas: dois ciclos são iguais se os dois lados voltam ao mesmo ponto.
+ *
+ * @param {unknown} a - O primeiro valor.
+ * @param {unknown} b - O segundo valor.
+ * @param {EqualOptions} [opcoes] - Arrays sem ordem, caminhos ignorados, comparação personalizada e os
+ *   limites de `SafetyOptions` (valores além dos limites não são comparados).
+ * @returns {boolean} `true` se os valores forem iguais.
+ * @throws {CallbackError} Se o customizer lançar uma exceção, com `onError: 'throw'`.
+ * @throws {TraversalLimitError} Se `maxDepth` ou `maxNodes` for excedido com `onError: 'throw'`.
+ * @throws {PathSyntaxError} Se um padrão de `ignorePaths` for malformado.
+ *
+ * @example
+ * deepEqual({ a: [1, { b: NaN }] }, { a: [1, { b: NaN }] }); // true
+ * deepEqual(new Map([['k', new Set([1, 2])]]), new Map([['k', new Set([2, 1])]])); // true
+ * deepEqual([1, 2, 3], [3, 2, 1], { unorderedArrays: true }); // true
+ * deepEqual({ id: 1, updatedAt: 1 }, { id: 1, updatedAt: 2 }, { ignorePaths: 'updatedAt' }); // true
+ * deepEqual({ total: 0.1 + 0.2 }, { total: 0.3 }, {
+ *   customizer: (a, b) => (typeof a === 'number' && typeof b === 'number' ? Math.abs(a - b) < 1e-9 : undefined),
+ * }); // true
+ */
+export function deepEqual(
+  a: unknown,
+  b: unknown,
+  options: EqualOptions = {}
+): boolean {
+  return compareValues("deepEqual", a, b, options, false).length === 0;
+}
+
+/**
+ * Compara dois valores como `deepEqual` e explica o resultado: retorna a primeira diferença encontrada
+ * (ou todas, com `all: true`), com o caminho, o motivo e os valores de cada lado. Uma lista vazia indica
+ * que os valores são iguais. As diferenças seguem a ordem do documento; com `all`, a comparação continua
+ * depois de cada diferença, mas não desce em valores de tipos diferentes.
+ *
+ * @param {unknown} a - O primeiro valor.
+ * @param {unknown} b - O segundo valor.
+ * @param {ExplainOptions} [opcoes] - As opções de `deepEqual` e se todas as diferenças devem ser listadas.
+ * @returns {EqualityMismatch[]} As diferenças encontradas.
+ * @throws {CallbackError} Se o customizer lançar uma exceção, com `onError: 'throw'`.
+ * @throws {TraversalLimitError} Se `maxDepth` ou `maxNodes` for excedido com `onError: 'throw'`.
+ * @throws {PathSyntaxError} Se um padrão de `ignorePaths` for malformado.
+ *
+ * @example
+ * deepEqualExplain({ user: { name: 'Ana', age: 30 } }, { user: { name: 'Bia' } }, { all: true });
+ * // [
+ * //   { path: ['user', 'name'], reason: 'value', a: 'Ana', b: 'Bia' },
+ * //   { path: ['user', 'age'], reason: 'missing', a: 30, b: undefined },
+ * // ]
+ * deepEqualExplain([1, 2], [1, '2']); // [{ path: [1], reason: 'type', a: 2, b: '2' }]
+ * deepEqualExplain({ a: 1 }, { a: 1 }); // []
+ */
+export function deepEqualExplain(
+  a: unknown,
+  b: unknown,
+  options: ExplainOptions = {}
+): EqualityMismatch[] {
+  return compareValues("deepEqualExplain", a, b, options, options.all === true);
+}
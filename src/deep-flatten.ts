@@ -0,0 +1,319 @@
+import { walkEntries } from "./deep-walk";
+import type { PathSegment, SafetyOptions } from "./types";
+import { parsePath } from "./utils/parsePath";
+import { stringifyPath } from "./utils/stringifyPath";
+import { createTraversalGuard } from "./utils/traversalGuard";
+
+/**
+ * Formato das chaves planas, compartilhado por `deepFlatten` e `deepUnflatten`.
+ */
+export interface FlatKeyOptions {
+  /**
+   * Separador entre segmentos. Padrão: `'.'`. Não pode conter colchetes, aspas ou barras
+   * invertidas, que fazem parte da sintaxe de caminho.
+   */
+  delimiter?: string;
+  /**
+   * Notação dos índices de arrays: `'brackets'` (padrão, `items[0].id`) ou `'dot'` (`items.0.id`).
+   * Com `'dot'`, chaves de objeto numéricas (ex: `{ '0': 1 }`) são escritas entre aspas para não
+   * serem confundidas com índices.
+   */
+  arrayFormat?: "brackets" | "dot";
+}
+
+/**
+ * Opções aceitas por `deepFlatten`.
+ */
+export interface FlattenOptions extends FlatKeyOptions, SafetyOptions {
+  /**
+   * Quando `true` (padrão), chaves que contêm o separador ou caracteres especiais são escritas entre
+   * colchetes com aspas (`["chave.com.ponto"]`), garantindo o round-trip. Com `false`, as chaves são
+   * usadas como estão (útil para cabeçalhos legíveis, mas caminhos ambíguos não são reconstruídos).
+   */
+  escapeKeys?: boolean;
+  /**
+   * Profundidade máxima das chaves geradas. Objetos e arrays nessa profundidade são mantidos como
+   * valores, sem serem planificados (não é um erro). Padrão: sem limite.
+   */
+  maxDepth?: number;
+  /**
+   * Quando `true` (padrão), objetos e arrays vazios aparecem como valores (`{}`/`[]`), para que
+   * `deepUnflatten` os recrie. Com `false`, eles são omitidos.
+   */
+  keepEmpty?: boolean;
+}
+
+type Container = Record<PathSegment, unknown>;
+
+/** Índices de array em notação de ponto: inteiros não negativos canônicos. */
+const DOT_INDEX = /^(?:0|[1-9]\d*)$/;
+
+/** Objetos e arrays planificados; qualquer outro valor (Date, Map, instâncias de classes...) é uma folha. */
+function isPlainContainer(value: unknown): value is Container {
+  if (value === null || typeof value !== "object") {
+    return false;
+  }
+  if (Array.isArray(value)) {
+    return true;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/** Define uma propriedade própria, sem acionar o setter de `__proto__`. */
+function defineKey(target: Container, key: PathSegment, value: unknown): void {
+  Object.defineProperty(target, key, {
+    value,
+    enumerable: true,
+    writable: true,
+    configurable: true,
+  });
+}
+
+function resolveKeyOptions(
+  fnName: string,
+  options: FlatKeyOptions
+): Required<FlatKeyOptions> {
+  const { delimiter = ".", arrayFormat = "brackets" } = options;
+  if (
+    typeof delimiter !== "string" ||
+    delimiter === "" ||
+    /[[\]'"\\]/.test(delimiter)
+  ) {
+    throw new TypeError(
+      `${fnName}: delimiter deve ser uma string não vazia sem colchetes, aspas ou barras invertidas.`
+    );
+  }
+  if (arrayFormat !== "brackets" && arrayFormat !== "dot") {
+    throw new TypeError(`${fnName}: arrayFormat deve ser 'brackets' ou 'dot'.`);
+  }
+  return { delimiter, arrayFormat };
+}
+
+/** Monta a chave plana de um caminho. */
+function toFlatKey(
+  path: readonly PathSegment[],
+  { delimiter, arrayFormat }: Required<FlatKeyOptions>,
+  escapeKeys: boolean
+): string {
+  let key = "";
+  for (const segment of path) {
+    let token: string;
+    if (typeof segment === "number") {
+      if (arrayFormat === "brackets") {
+        key += `[${segment}]`;
+        continue;
+      }
+      token = String(segment);
+    } else if (!escapeKeys) {
+      token = String(segment);
+    } else {
+      // Mesma regra de `stringifyPath`, mais o separador e chaves numéricas na notação de ponto
+      token = stringifyPath([segment]);
+      if (
+        !token.startsWith("[") &&
+        (token.includes(delimiter) ||
+          (arrayFormat === "dot" && DOT_INDEX.test(token)))
+      ) {
+        token = `["${token}"]`; // Chaves simples não têm aspas nem barras a escapar
+      }
+      if (token.startsWith("[")) {
+        key += token;
+        continue;
+      }
+    }
+    key += key === "" ? token : `${delimiter}${token}`;
+  }
+  return key;
+}
+
+/**
+ * Converte uma chave plana em um caminho aceito por `parsePath`: troca o separador por `.`
+ * (fora de colchetes) e, na notação de ponto, transforma índices em `[n]`.
+ */
+function toParsablePath(
+  key: string,
+  { delimiter, arrayFormat }: Required<FlatKeyOptions>
+): string {
+  if (delimiter === "." && arrayFormat === "brackets") {
+    return key;
+  }
+
+  let path = "";
+  let raw = "";
+  const flush = () => {
+    if (raw === "") {
+      return;
+    }
+    if (arrayFormat === "dot" && DOT_INDEX.test(raw)) {
+      path += `[${raw}]`;
+    } else {
+      const token = stringifyPath([raw]); // Entre aspas se contiver '.' ou outros caracteres especiais
+      path += token.startsWith("[") || path === "" ? token : `.${token}`;
+    }
+    raw = "";
+  };
+
+  let i = 0;
+  while (i < key.length) {
+    if (key.startsWith(delimiter, i)) {
+      flush();
+      i += delimiter.length;
+      continue;
+    }
+    if (key[i] === "[") {
+      flush();
+      // Copia o segmento entre colchetes como está; erros de sintaxe ficam a cargo de `parsePath`
+      const quote = key[i + 1];
+      let end = i + 1;
+      if (quote === "'" || quote === '"') {
+        end = i + 2;
+        while (end < key.length && key[end] !== quote) {
+          end += key[end] === "\\" ? 2 : 1;
+        }
+        end++;
+      }
+      const close = key.indexOf("]", end);
+      const stop = close === -1 ? key.length : close + 1;
+      path += key.slice(i, stop);
+      i = stop;
+      continue;
+    }
+    raw += key[i];
+    i++;
+  }
+  flush();
+  return path;
+}
+
+/**
+ * Planifica um objeto ou array aninhado em um registro de chaves de caminho para valores folha,
+ * por exemplo para arquivos `.env`, colunas de CSV ou campos de formulário. As chaves usam a
+ * sintaxe de caminho da biblioteca (`a.b[0].c`), com separador e notação de arrays configuráveis.
+ *
+ * Apenas objetos simples e arrays são planificados; `Date`, `Map`, `Set`, instâncias de classes e
+ * primitivos são valores folha. Referências compartilhadas são planificadas em cada caminho.
+ * Com as opções padrão, `deepUnflatten(deepFlatten(obj))` reproduz `obj`.
+ *
+ * @param {unknown} obj - O objeto ou array a planificar.
+ * @param {FlattenOptions} [opcoes] - Separador, notação de arrays, escape de chaves, profundidade máxima,
+ *   contêineres vazios e limites de `SafetyOptions`.
+ * @returns {Record<string, unknown>} O registro plano, na ordem do documento.
+ * @throws {TypeError} Se `obj` não for um objeto/array, se as opções forem inválidas ou se houver uma referência circular.
+ * @throws {TraversalLimitError} Se `maxNodes` for excedido com `onError: 'throw'`.
+ *
+ * @example
+ * deepFlatten({ db: { host: 'x', ports: [1, 2] }, tags: [] });
+ * // { 'db.host': 'x', 'db.ports[0]': 1, 'db.ports[1]': 2, tags: [] }
+ *
+ * deepFlatten({ db: { host: 'x' } }, { delimiter: '__' }); // { db__host: 'x' }
+ * deepFlatten({ a: [{ b: 1 }] }, { arrayFormat: 'dot' }); // { 'a.0.b': 1 }
+ * deepFlatten({ 'x.y': 1 }); // { '["x.y"]': 1 }
+ */
+export function deepFlatten(
+  obj: unknown,
+  options: FlattenOptions = {}
+): Record<string, unknown> {
+  const keyOptions = resolveKeyOptions("deepFlatten", options);
+  const { escapeKeys = true, maxDepth = Infinity, keepEmpty = true } = options;
+  if (obj === null || typeof obj !== "object") {
+    throw new TypeError("deepFlatten: obj deve ser um objeto ou array.");
+  }
+
+  // O `maxDepth` desta função define a profundidade das chaves, sem ser um erro
+  const guard = createTraversalGuard("deepFlatten", {
+    ...options,
+    maxDepth: undefined,
+  });
+  const record: Record<string, unknown> = {};
+  for (const entry of walkEntries(obj, { cycles: "ancestors" }, guard)) {
+    const { value, path, depth } = entry;
+    if (entry.seen) {
+      throw new TypeError(
+        `deepFlatten: referência circular em "${toFlatKey(
+          path,
+          keyOptions,
+          escapeKeys
+        )}".`
+      );
+    }
+    if (isPlainContainer(value) && depth < maxDepth) {
+      if (Object.keys(value).length > 0) {
+        continue; // Planificado pelos filhos
+      }
+      if (keepEmpty) {
+        defineKey(
+          record,
+          toFlatKey(path, keyOptions, escapeKeys),
+          Array.isArray(value) ? [] : {}
+        );
+      }
+      continue;
+    }
+    entry.skip();
+    defineKey(record, toFlatKey(path, keyOptions, escapeKeys), value);
+  }
+  return record;
+}
+
+/**
+ * Reconstrói a estrutura aninhada a partir de um registro plano, analisando cada chave com
+ * `parsePath` (após converter o separador e a notação de arrays informados). Segmentos entre
+ * colchetes sem aspas (`[0]`, ou `.0` com `arrayFormat: 'dot'`) criam arrays; os demais criam objetos.
+ * A raiz é um array se a primeira chave começar com um índice. Chaves como `__proto__` são
+ * escritas como propriedades próprias, sem alterar protótipos.
+ *
+ * @template R O tipo esperado do resultado.
+ * @param {Record<string, unknown>} record - O registro plano, como produzido por `deepFlatten`.
+ * @param {FlatKeyOptions} [opcoes] - O separador e a notação de arrays usados nas chaves.
+ * @returns {R} A estrutura reconstruída.
+ * @throws {TypeError} Se `record` não for um objeto ou as opções forem inválidas.
+ * @throws {PathSyntaxError} Se alguma chave for um caminho malformado.
+ *
+ * @example
+ * deepUnflatten({ 'db.host': 'x', 'db.ports[0]': 1, tags: [] });
+ * // { db: { host: 'x', ports: [1] }, tags: [] }
+ *
+ * deepUnflatten({ db__host: 'x' }, { delimiter: '__' }); // { db: { host: 'x' } }
+ */
+export function deepUnflatten<R = unknown>(
+  record: Record<string, unknown>,
+  options: FlatKeyOptions = {}
+): R {
+  const keyOptions = resolveKeyOptions("deepUnflatten", options);
+  if (record === null || typeof record !== "object") {
+    throw new TypeError("deepUnflatten: record deve ser um objeto.");
+  }
+
+  let root: Container | undefined;
+  for (const [key, recordValue] of Object.entries(record)) {
+    const segments = parsePath(toParsablePath(key, keyOptions));
+    if (segments.length === 0) {
+      continue;
+    }
+    root ??= (typeof segments[0] === "number" ? [] : {}) as Container;
+
+    // Contêineres vazios são recriados, para não compartilhar referências com o registro
+    const value =
+      isPlainContainer(recordValue) && Object.keys(recordValue).length === 0
+        ? Array.isArray(recordValue)
+          ? []
+          : {}
+        : recordValue;
+
+    let current = root;
+    for (let i = 0; i < segments.length - 1; i++) {
+      // Apenas propriedades próprias: `__proto__` ou `constructor` nunca resolvem para protótipos
+      let next = Object.prototype.hasOwnProperty.call(current, segments[i])
+        ? current[segments[i]]
+        : undefined;
+      if (next === null || typeof next !== "object") {
+        next = typeof segments[i + 1] === "number" ? [] : {};
+        defineKey(current, segments[i], next);
+      }
+      current = next as Container;
+    }
+    defineKey(current, segments[segments.length - 1], value);
+  }
+  return (root ?? {}) as R;
+}
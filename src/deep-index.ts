@@ -0,0 +1,328 @@
+import type {
+  FindAllByKeyOptions,
+  FindByValueOptions,
+  KeyMatch,
+} from "./deep-tools";
+import { walkEntries } from "./deep-walk";
+import type { TraversalOptions } from "./deep-walk";
+import type { ObjectPath, PathSegment } from "./types";
+import { toPathSegments } from "./utils/parsePath";
+import { stringifyPath } from "./utils/stringifyPath";
+import { createTraversalGuard } from "./utils/traversalGuard";
+
+/**
+ * Um índice criado por `createDeepIndex`. As consultas retornam os mesmos resultados, na mesma ordem,
+ * das funções equivalentes aplicadas ao objeto indexado com as mesmas opções de travessia.
+ */
+export interface DeepIndex {
+  /** Como `deepFindByKey`: o valor da ocorrência mais rasa da chave, ou `undefined`. */
+  findByKey(targetKey: string | symbol): unknown;
+  /** Como `deepFindAllByKey` com uma chave exata: as correspondências em ordem BFS (padrão) ou DFS. */
+  findAllByKey(
+    targetKey: string | symbol,
+    options?: Pick<FindAllByKeyOptions, "order" | "maxDepth" | "limit">
+  ): KeyMatch[];
+  /** Como `deepFindByValue` com a comparação padrão (`===`): os caminhos na ordem do documento. */
+  findByValue(
+    targetValue: unknown,
+    options: { pathFormat: "segments" }
+  ): PathSegment[][];
+  findByValue(
+    targetValue: unknown,
+    options?: Pick<FindByValueOptions, "pathFormat">
+  ): string[];
+  /**
+   * Atualiza o índice depois de uma alteração no objeto, percorrendo apenas o valor no caminho
+   * informado (e seus descendentes). Se o caminho não estava indexado (chave adicionada) ou não existe
+   * mais (chave removida), o contêiner pai é percorrido novamente.
+   */
+  rebuild(path: ObjectPath): void;
+}
+
+/** Uma entrada indexada: uma chave encontrada na travessia. */
+interface IndexEntry {
+  key: PathSegment;
+  value: unknown;
+  path: PathSegment[];
+  parent: object;
+  depth: number;
+}
+
+/** Chave dos mapas do índice: símbolos por identidade, demais chaves como strings (como `deepFindByKey`). */
+const keyOf = (key: PathSegment): string | symbol =>
+  typeof key === "symbol" ? key : String(key);
+
+function assertKey(fnName: string, targetKey: unknown): void {
+  if (
+    typeof targetKey !== "symbol" &&
+    (typeof targetKey !== "string" || targetKey.trim() === "")
+  ) {
+    throw new TypeError(`${fnName}: chaveAlvo deve ser uma string não vazia.`);
+  }
+}
+
+function groupBy<K>(
+  entries: IndexEntry[],
+  keyFn: (entry: IndexEntry) => K
+): Map<K, IndexEntry[]> {
+  const groups = new Map<K, IndexEntry[]>();
+  for (const entry of entries) {
+    const key = keyFn(entry);
+    const group = groups.get(key);
+    if (group) {
+      group.push(entry);
+    } else {
+      groups.set(key, [entry]);
+    }
+  }
+  return groups;
+}
+
+const isContainer = (value: unknown): value is object =>
+  value !== null && typeof value === "object";
+
+/**
+ * Indexa um objeto grande e somente leitura em uma única travessia, para consultas repetidas por chave
+ * e por valor em tempo próximo de constante, em vez de percorrer o objeto a cada chamada de
+ * `deepFindByKey`, `deepFindAllByKey` ou `deepFindByValue`.
+ *
+ * O índice não acompanha alterações no objeto: depois de alterá-lo, chame `rebuild` com o caminho do
+ * valor alterado. Em estruturas com referências compartilhadas ou circulares, a ordem BFS exige uma
+ * segunda travessia (feita na primeira consulta que precisar dela), `order: 'dfs'` com `maxDepth`
+ * percorre o objeto a cada consulta e `rebuild` reindexa o objeto inteiro, pois qual ocorrência de um
+ * objeto repetido é expandida depende da travessia.
+ *
+ * @param {unknown} obj - O objeto ou array a indexar.
+ * @param {TraversalOptions} [opcoes] - Se getters e chaves `symbol` também devem ser indexados (como nos
+ *   finders) e os limites de `SafetyOptions`, aplicados a cada travessia.
+ * @returns {DeepIndex} O índice.
+ * @throws {TraversalLimitError} Se `maxDepth` ou `maxNodes` for excedido com `onError: 'throw'`.
+ *
+ * @example
+ * const catalogo = { produtos: [{ id: 1, sku: 'A1' }, { id: 2, sku: 'B2', variantes: [{ sku: 'B2-P' }] }] };
+ * const indice = createDeepIndex(catalogo);
+ *
+ * indice.findByKey('sku'); // 'A1'
+ * indice.findAllByKey('sku', { order: 'dfs' }).map((m) => m.value); // ['A1', 'B2', 'B2-P']
+ * indice.findByValue(2); // ['produtos[1].id']
+ *
+ * catalogo.produtos[0].sku = 'A9';
+ * indice.rebuild('produtos[0].sku');
+ * indice.findByValue('A9'); // ['produtos[0].sku']
+ */
+export function createDeepIndex(
+  obj: unknown,
+  options: TraversalOptions = {}
+): DeepIndex {
+  const { includeGetters, includeSymbols } = options;
+
+  let entries: IndexEntry[] = []; // Todas as entradas, em DFS pré-ordem (ordem do documento)
+  let containers = new Set<object>(); // Objetos indexados, para detectar referências repetidas
+  let shared = false; // Algum objeto aparece mais de uma vez
+  let byKey = new Map<string | symbol, IndexEntry[]>();
+  let byValue = new Map<unknown, IndexEntry[]>();
+  // Listas em ordem BFS, calculadas na primeira consulta de cada chave
+  let bfsByKey = new Map<string | symbol, IndexEntry[]>();
+  let bfsWalked = false; // Com referências repetidas, as listas BFS vêm de uma travessia própria
+
+  const walk = (root: unknown, strategy: "dfs" | "bfs", maxDepth?: number) =>
+    walkEntries(
+      root,
+      { strategy, maxDepth, includeGetters, includeSymbols },
+      createTraversalGuard("createDeepIndex", options)
+    );
+
+  // Indexa os descendentes de `root`, que está em `prefix`
+  const collect = (root: unknown, prefix: PathSegment[]): IndexEntry[] => {
+    const collected: IndexEntry[] = [];
+    for (const { key, value, path, parent, depth, seen } of walk(root, "dfs")) {
+      if (seen || (isContainer(value) && containers.has(value))) {
+        shared = true;
+      }
+      if (isContainer(value)) {
+        containers.add(value);
+      }
+      collected.push({
+        key,
+        value,
+        path: prefix.length === 0 ? path : [...prefix, ...path],
+        parent,
+        depth: prefix.length + depth,
+      });
+    }
+    return collected;
+  };
+
+  const reindex = () => {
+    byKey = groupBy(entries, (entry) => keyOf(entry.key));
+    byValue = groupBy(entries, (entry) => entry.value);
+    bfsByKey = new Map();
+    bfsWalked = false;
+  };
+
+  const build = () => {
+    shared = false;
+    containers = new Set(isContainer(obj) ? [obj] : []);
+    entries = collect(obj, []);
+    reindex();
+  };
+
+  const bfsList = (key: string | symbol): IndexEntry[] => {
+    if (shared && !bfsWalked) {
+      const bfsEntries: IndexEntry[] = [];
+      for (const { key: entryKey, value, path, parent, depth } of walk(
+        obj,
+        "bfs"
+      )) {
+        bfsEntries.push({ key: entryKey, value, path, parent, depth });
+      }
+      bfsByKey = groupBy(bfsEntries, (entry) => keyOf(entry.key));
+      bfsWalked = true;
+    }
+    let list = bfsByKey.get(key);
+    if (list === undefined && shared) {
+      list = [];
+    } else if (list === undefined) {
+      // Sem referências repetidas, a ordem BFS é a ordem do documento por profundidade
+      list = [...(byKey.get(key) ?? [])].sort((a, b) => a.depth - b.depth);
+      bfsByKey.set(key, list);
+    }
+    return list;
+  };
+
+  const samePath = (a: PathSegment[], b: PathSegment[]) =>
+    a.length === b.length &&
+    a.every((segment, i) =>
+      typeof segment === "symbol" || typeof b[i] === "symbol"
+        ? segment === b[i]
+        : String(segment) === String(b[i])
+    );
+
+  const rebuild = (segments: PathSegment[]): void => {
+    if (shared || segments.length === 0) {
+      build();
+      return;
+    }
+    const start = entries.findIndex((entry) => samePath(entry.path, segments));
+    if (start === -1) {
+      rebuild(segments.slice(0, -1)); // Chave nova: reindexa o pai
+      return;
+    }
+    const entry = entries[start];
+    let end = start + 1; // Os descendentes formam um bloco contíguo em pré-ordem
+    while (end < entries.length && entries[end].depth > entry.depth) {
+      end++;
+    }
+
+    let current: { value: unknown } | undefined;
+    for (const child of walk(entry.parent, "dfs", 1)) {
+      if (child.key === entry.key) {
+        current = child;
+        break;
+      }
+    }
+    if (current === undefined) {
+      rebuild(segments.slice(0, -1)); // Chave removida: reindexa o pai
+      return;
+    }
+
+    for (let i = start; i < end; i++) {
+      const { value } = entries[i];
+      if (isContainer(value)) {
+        containers.delete(value);
+      }
+    }
+    if (isContainer(current.value)) {
+      shared = shared || containers.has(current.value);
+      containers.add(current.value);
+    }
+    const replacement: IndexEntry[] = [
+      { ...entry, value: current.value },
+      ...(shared ? [] : collect(current.value, entry.path)),
+    ];
+    if (shared) {
+      build(); // A alteração criou uma referência repetida
+      return;
+    }
+    entries = entries.slice(0, start).concat(replacement, entries.slice(end));
+    reindex();
+  };
+
+  function findByValue(
+    targetValue: unknown,
+    findOptions: { pathFormat: "segments" }
+  ): PathSegment[][];
+  function findByValue(
+    targetValue: unknown,
+    findOptions?: Pick<FindByValueOptions, "pathFormat">
+  ): string[];
+  function findByValue(
+    targetValue: unknown,
+    findOptions: Pick<FindByValueOptions, "pathFormat"> = {}
+  ): string[] | PathSegment[][] {
+    // `NaN` nunca é igual a si mesmo com `===`, embora seja uma chave válida de `Map`
+    const list =
+      targetValue !== targetValue ? [] : byValue.get(targetValue) ?? [];
+    const paths = list.map((entry) => [...entry.path]);
+    return findOptions.pathFormat === "segments"
+      ? paths
+      : paths.map(stringifyPath);
+  }
+
+  build();
+
+  return {
+    findByKey(targetKey) {
+      assertKey("findByKey", targetKey);
+      return bfsList(keyOf(targetKey))[0]?.value;
+    },
+
+    findAllByKey(targetKey, findOptions = {}) {
+      assertKey("findAllByKey", targetKey);
+      const {
+        order = "bfs",
+        maxDepth = Infinity,
+        limit = Infinity,
+      } = findOptions;
+      if (limit <= 0) {
+        return [];
+      }
+      const key = keyOf(targetKey);
+      let list: IndexEntry[];
+      if (order !== "dfs") {
+        list = bfsList(key);
+      } else if (shared && maxDepth !== Infinity) {
+        // Com referências repetidas, `maxDepth` pode mudar qual ocorrência é expandida
+        list = [];
+        for (const { key: entryKey, value, path, parent, depth } of walk(
+          obj,
+          "dfs",
+          maxDepth
+        )) {
+          if (keyOf(entryKey) === key) {
+            list.push({ key: entryKey, value, path, parent, depth });
+          }
+        }
+      } else {
+        list = byKey.get(key) ?? [];
+      }
+
+      const matches: KeyMatch[] = [];
+      for (const { path, value, depth, parent } of list) {
+        if (depth <= maxDepth) {
+          matches.push({ path: [...path], value, depth, parent });
+          if (matches.length >= limit) {
+            break;
+          }
+        }
+      }
+      return matches;
+    },
+
+    findByValue,
+
+    rebuild(path) {
+      rebuild(toPathSegments(path));
+    },
+  };
+}
@@ -0,0 +1,402 @@
+import type { PathSegment, SafetyOptions } from "./types";
+import { createTraversalGuard } from "./utils/traversalGuard";
+
+type Container = Record<PathSegment, unknown>;
+
+/**
+ * Estratégia usada quando dois arrays são mesclados:
+ * - `'replace'`: o array da fonte substitui o do destino;
+ * - `'concat'`: os elementos da fonte são adicionados ao fim do array do destino;
+ * - `'merge-by-index'`: os elementos são mesclados posição a posição;
+ * - `'merge-by-key'`: elementos com o mesmo valor na propriedade `arrayKey` (ex: `id`) são mesclados,
+ *   os demais são adicionados ao fim.
+ */
+export type ArrayMergeStrategy =
+  | "replace"
+  | "concat"
+  | "merge-by-index"
+  | "merge-by-key";
+
+/**
+ * Função chamada para cada valor escrito durante a mesclagem. Se retornar algo diferente de
+ * `undefined`, esse valor é usado no lugar da mesclagem padrão.
+ *
+ * @param {unknown} targetValue - O valor atual no destino (`undefined` se não existir).
+ * @param {unknown} sourceValue - O valor vindo da fonte.
+ * @param {PathSegment[]} path - O caminho do valor, a partir da raiz.
+ */
+export type MergeCustomizer = (
+  targetValue: unknown,
+  sourceValue: unknown,
+  path: PathSegment[]
+) => unknown;
+
+/**
+ * Opções aceitas por `deepMergeWith` e, criadas com `mergeOptions`, como último argumento de `deepMerge`.
+ */
+export interface MergeOptions extends SafetyOptions {
+  /** Como mesclar arrays. Padrão: `'replace'`. */
+  arrayStrategy?: ArrayMergeStrategy;
+  /** Propriedade usada para identificar elementos com `arrayStrategy: 'merge-by-key'`. Padrão: `'id'`. */
+  arrayKey?: string;
+  /** Personaliza a mesclagem de caminhos específicos. */
+  customizer?: MergeCustomizer;
+  /**
+   * Quando `true`, nenhuma fonte é modificada e uma nova estrutura é retornada.
+   * Por padrão (`false`), as fontes são mescladas **no primeiro argumento**, que é modificado.
+   */
+  immutable?: boolean;
+}
+
+/** Marca os objetos criados por `mergeOptions`, distinguindo-os das fontes. */
+const MERGE_OPTIONS: unique symbol = Symbol("deep-tools.mergeOptions");
+
+/**
+ * Opções criadas por `mergeOptions`, reconhecidas por `deepMerge` quando passadas como último argumento.
+ */
+export interface MarkedMergeOptions extends MergeOptions {
+  readonly [MERGE_OPTIONS]: true;
+}
+
+const ARRAY_STRATEGIES: readonly ArrayMergeStrategy[] = [
+  "replace",
+  "concat",
+  "merge-by-index",
+  "merge-by-key",
+];
+
+/** Chaves que nunca são copiadas, para evitar poluição de protótipos. */
+const UNSAFE_KEYS = new Set(["__proto__", "constructor"]);
+
+/**
+ * Verifica se um valor é mesclável: um array ou um objeto simples (protótipo `Object.prototype` ou `null`).
+ * Outros objetos (`Date`, `Map`, instâncias de classes...) são tratados como valores atômicos.
+ */
+function isMergeable(value: unknown): value is Container {
+  if (value === null || typeof value !== "object") {
+    return false;
+  }
+  if (Array.isArray(value)) {
+    return true;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function hasOwn(container: Container, key: PathSegment): boolean {
+  return Object.prototype.hasOwnProperty.call(container, key);
+}
+
+/**
+ * Mescla as fontes no destino (`sources[0]`, ou uma nova estrutura no modo imutável).
+ */
+function mergeSources(
+  fnName: string,
+  sources: readonly unknown[],
+  options: MergeOptions
+): Container {
+  const arrayStrategy = options.arrayStrategy ?? "replace";
+  if (!ARRAY_STRATEGIES.includes(arrayStrategy)) {
+    throw new TypeError(
+      `${fnName}: arrayStrategy inválida "${String(arrayStrategy)}".`
+    );
+  }
+  const arrayKey = options.arrayKey ?? "id";
+  const { customizer } = options;
+  const guard = createTraversalGuard(fnName, options);
+
+  // Estado de uma passada (uma fonte): evita loops infinitos e preserva ciclos das fontes
+  let copies = new Map<object, Container>(); // Objeto da fonte -> cópia criada a partir dele
+  let inProgress = new Map<object, Container>(); // Objetos da fonte em mesclagem (ancestrais)
+  let merging = new Map<object, Set<object>>(); // Pares (destino, fonte) já mesclados
+
+  const copyOf = (source: Container, path: PathSegment[]): Container => {
+    const existing = copies.get(source);
+    if (existing) {
+      return existing;
+    }
+    const copy = (
+      Array.isArray(source) ? [] : Object.create(Object.getPrototypeOf(source))
+    ) as Container;
+    copies.set(source, copy);
+    mergeInto(copy, source, path);
+    return copy;
+  };
+
+  const mergeValue = (
+    targetValue: unknown,
+    sourceValue: unknown,
+    path: PathSegment[]
+  ): unknown => {
+    // Valores além dos limites não são mesclados: o destino mantém o valor atual
+    if (!guard.visit(path, path.length)) {
+      return targetValue;
+    }
+    if (customizer) {
+      const custom = guard.call(path, undefined, () =>
+        customizer(targetValue, sourceValue, path)
+      );
+      if (custom !== undefined) {
+        return custom;
+      }
+    }
+    if (!isMergeable(sourceValue)) {
+      return sourceValue === undefined ? targetValue : sourceValue;
+    }
+    if (
+      isMergeable(targetValue) &&
+      Array.isArray(targetValue) === Array.isArray(sourceValue)
+    ) {
+      mergeInto(targetValue, sourceValue, path);
+      return targetValue;
+    }
+    // Referência circular na fonte: aponta para o destino do ancestral correspondente
+    return inProgress.get(sourceValue) ?? copyOf(sourceValue, path);
+  };
+
+  const mergeArray = (
+    target: unknown[],
+    source: unknown[],
+    path: PathSegment[]
+  ): void => {
+    switch (arrayStrategy) {
+      case "replace":
+        target.length = 0;
+        source.forEach((item, i) =>
+          target.push(mergeValue(undefined, item, [...path, i]))
+        );
+        break;
+      case "concat":
+        source.forEach((item) =>
+          target.push(mergeValue(undefined, item, [...path, target.length]))
+        );
+        break;
+      case "merge-by-index":
+        source.forEach((item, i) => {
+          if (item !== undefined || i >= target.length) {
+            target[i] = mergeValue(target[i], item, [...path, i]);
+          }
+        });
+        break;
+      case "merge-by-key": {
+        const keyOf = (item: unknown): unknown =>
+          isMergeable(item) && !Array.isArray(item) && hasOwn(item, arrayKey)
+            ? item[arrayKey]
+            : undefined;
+        const indexByKey = new Map<unknown, number>();
+        target.forEach((item, i) => {
+          const key = keyOf(item);
+          if (key !== undefined && !indexByKey.has(key)) {
+            indexByKey.set(key, i);
+          }
+        });
+        for (const item of source) {
+          const key = keyOf(item);
+          const index = key === undefined ? undefined : indexByKey.get(key);
+          if (index === undefined) {
+            if (key !== undefined) {
+              indexByKey.set(key, target.length);
+            }
+            target.push(mergeValue(undefined, item, [...path, target.length]));
+          } else {
+            target[index] = mergeValue(target[index], item, [...path, index]);
+          }
+        }
+        break;
+      }
+    }
+  };
+
+  const mergeInto = (
+    target: Container,
+    source: Container,
+    path: PathSegment[]
+  ): void => {
+    if (target === source) {
+      return;
+    }
+    // Prevenir ciclos - um par já mesclado não é mesclado novamente
+    const pairs = merging.get(target) ?? new Set<object>();
+    if (pairs.has(source)) {
+      return;
+    }
+    pairs.add(source);
+    merging.set(target, pairs);
+
+    const outer = inProgress.get(source);
+    inProgress.set(source, target);
+    if (Array.isArray(target) && Array.isArray(source)) {
+      mergeArray(target, source, path);
+    } else {
+      for (const key of Object.keys(source)) {
+        if (UNSAFE_KEYS.has(key)) {
+          continue;
+        }
+        const exists = hasOwn(target, key);
+        if (source[key] === undefined && exists) {
+          continue;
+        }
+        target[key] = mergeValue(
+          exists ? target[key] : undefined,
+          source[key],
+          [...path, key]
+        );
+      }
+    }
+    if (outer) {
+      inProgress.set(source, outer);
+    } else {
+      inProgress.delete(source);
+    }
+  };
+
+  let result: Container | undefined;
+  sources.forEach((source, index) => {
+    if (source === null || source === undefined) {
+      if (index === 0 && !options.immutable) {
+        throw new TypeError(
+          `${fnName}: o destino deve ser um objeto ou array.`
+        );
+      }
+      return;
+    }
+    if (!isMergeable(source)) {
+      throw new TypeError(
+        `${fnName}: as fontes devem ser objetos simples ou arrays.`
+      );
+    }
+    copies = new Map();
+    inProgress = new Map();
+    merging = new Map();
+    if (result === undefined) {
+      result = options.immutable ? copyOf(source, []) : source;
+    } else if (Array.isArray(result) !== Array.isArray(source)) {
+      throw new TypeError(
+        `${fnName}: não é possível mesclar um array com um objeto na raiz.`
+      );
+    } else {
+      mergeInto(result, source, []);
+    }
+  });
+
+  if (result === undefined) {
+    if (!options.immutable) {
+      throw new TypeError(`${fnName}: o destino deve ser um objeto ou array.`);
+    }
+    return {};
+  }
+  return result;
+}
+
+/**
+ * Marca um objeto de opções para ser passado como último argumento de `deepMerge`
+ * (`deepMerge(...fontes, mergeOptions({ ... }))`). Um objeto simples ao final seria indistinguível de
+ * uma fonte; a marca (uma propriedade `symbol` não enumerável) identifica as opções.
+ *
+ * @param {MergeOptions} options - As opções de mesclagem, como em `deepMergeWith`.
+ * @returns {MarkedMergeOptions} Uma cópia marcada das opções.
+ * @throws {TypeError} Se `options` não for um objeto.
+ *
+ * @example
+ * deepMerge(base, patch, mergeOptions({ arrayStrategy: 'merge-by-key', immutable: true }));
+ */
+export function mergeOptions(options: MergeOptions): MarkedMergeOptions {
+  if (options === null || typeof options !== "object") {
+    throw new TypeError("mergeOptions: opcoes deve ser um objeto.");
+  }
+  return Object.defineProperty({ ...options }, MERGE_OPTIONS, {
+    value: true,
+  }) as MarkedMergeOptions;
+}
+
+function isMarkedOptions(value: unknown): value is MarkedMergeOptions {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as Partial<MarkedMergeOptions>)[MERGE_OPTIONS] === true
+  );
+}
+
+/**
+ * Mescla recursivamente as propriedades das fontes no objeto `target`, **mutando-o**.
+ * Fontes posteriores têm precedência. Objetos simples são mesclados chave a chave; arrays
+ * da fonte substituem os do destino; demais valores (primitivos, `Date`, `Map`, instâncias de
+ * classes...) são atribuídos diretamente. Valores `undefined` nas fontes não sobrescrevem valores existentes.
+ *
+ * Objetos e arrays vindos das fontes são copiados, de modo que mesclagens posteriores nunca
+ * modificam as fontes. Chaves `__proto__` e `constructor` são ignoradas e referências circulares
+ * nas fontes são preservadas no resultado.
+ *
+ * Outras estratégias de arrays, um `customizer`, o modo imutável e os limites de `SafetyOptions` são
+ * aceitos como último argumento, criado com `mergeOptions` (ou como primeiro argumento de `deepMergeWith`).
+ *
+ * @template T O tipo do destino.
+ * @param {T} target - O objeto ou array que recebe as propriedades.
+ * @param {...unknown[]} sources - As fontes, da menor para a maior precedência, seguidas opcionalmente
+ *   das opções de `mergeOptions`. `null` e `undefined` são ignorados.
+ * @returns {T} O próprio `target`, já modificado, ou uma nova estrutura com `immutable: true`.
+ * @throws {TypeError} Se `target` ou uma fonte não for um objeto simples ou array, ou se `arrayStrategy` for inválida.
+ * @throws {CallbackError} Se o `customizer` lançar uma exceção, com `onError: 'throw'`.
+ * @throws {TraversalLimitError} Se `maxDepth` ou `maxNodes` for excedido com `onError: 'throw'`.
+ *
+ * @example
+ * const config = { server: { host: 'localhost', port: 80 }, plugins: ['a'] };
+ * deepMerge(config, { server: { port: 8080 }, plugins: ['b'] });
+ * // { server: { host: 'localhost', port: 8080 }, plugins: ['b'] }
+ *
+ * deepMerge(config, { plugins: ['c'] }, mergeOptions({ arrayStrategy: 'concat', immutable: true }));
+ * // { server: { ... }, plugins: ['b', 'c'] }, config inalterado
+ */
+export function deepMerge<T extends object>(
+  target: T,
+  ...sources: unknown[]
+): T {
+  const last = sources[sources.length - 1];
+  if (isMarkedOptions(last)) {
+    return mergeSources(
+      "deepMerge",
+      [target, ...sources.slice(0, -1)],
+      last
+    ) as T;
+  }
+  return mergeSources("deepMerge", [target, ...sources], {}) as T;
+}
+
+/**
+ * Igual a `deepMerge`, mas aceita opções: estratégia de arrays, `customizer` por caminho,
+ * modo imutável e os limites de `SafetyOptions` (valores da fonte além dos limites não são
+ * mesclados: o destino mantém o valor atual, ou `undefined`; se o `customizer` lançar uma exceção
+ * com `onError` `'collect'` ou `'ignore'`, a mesclagem padrão é usada).
+ * Equivale a `deepMerge(...fontes, mergeOptions(opcoes))`, sem precisar marcar as opções.
+ *
+ * @template T O tipo do resultado.
+ * @param {MergeOptions} options - As opções de mesclagem.
+ * @param {...unknown[]} sources - As fontes, da menor para a maior precedência. Sem `immutable`,
+ *   a primeira fonte é o destino e é modificada.
+ * @returns {T} O destino modificado ou, com `immutable: true`, uma nova estrutura.
+ * @throws {TypeError} Se uma fonte não for um objeto simples ou array, ou se `arrayStrategy` for inválida.
+ * @throws {CallbackError} Se o `customizer` lançar uma exceção, com `onError: 'throw'`.
+ * @throws {TraversalLimitError} Se `maxDepth` ou `maxNodes` for excedido com `onError: 'throw'`.
+ *
+ * @example
+ * const base = { users: [{ id: 1, name: 'Ana' }] };
+ * const patch = { users: [{ id: 1, admin: true }, { id: 2, name: 'Bia' }] };
+ *
+ * deepMergeWith({ arrayStrategy: 'merge-by-key', immutable: true }, base, patch);
+ * // { users: [{ id: 1, name: 'Ana', admin: true }, { id: 2, name: 'Bia' }] }, base inalterado
+ *
+ * deepMergeWith(
+ *   {
+ *     customizer: (atual, novo, path) =>
+ *       path.join('.') === 'tags' && Array.isArray(atual) ? [...atual, novo] : undefined,
+ *   },
+ *   { tags: ['a'] },
+ *   { tags: 'b' }
+ * ); // { tags: ['a', 'b'] }
+ */
+export function deepMergeWith<T = Record<string, unknown>>(
+  options: MergeOptions,
+  ...sources: unknown[]
+): T {
+  return mergeSources("deepMergeWith", sources, options ?? {}) as T;
+}
@@ -0,0 +1,406 @@
+import { compilePatterns, overlapsAny } from "./deep-pick";
+import type { PatternSegment } from "./deep-pick";
+import type { ObjectPath, PathSegment } from "./types";
+
+/** Métodos de arrays que modificam o próprio array, emitidos como um único evento. */
+export type ArrayMutation =
+  | "push"
+  | "pop"
+  | "shift"
+  | "unshift"
+  | "splice"
+  | "sort"
+  | "reverse"
+  | "fill"
+  | "copyWithin";
+
+/**
+ * Uma alteração observada por `deepObserve`.
+ * - `'set'`: propriedade criada ou alterada, por atribuição ou `Object.defineProperty` (`oldValue` é
+ *   `undefined` se ela não existia);
+ * - `'delete'`: propriedade removida (`newValue` é `undefined`);
+ * - métodos de arrays (`'push'`, `'splice'`...): `path` é o caminho do array, e `oldValue` e
+ *   `newValue` são cópias rasas do array antes e depois da chamada.
+ */
+export interface ChangeEvent {
+  op: "set" | "delete" | ArrayMutation;
+  /** Caminho da alteração a partir da raiz observada, em segmentos (índices de arrays como números). */
+  path: PathSegment[];
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+/**
+ * Recebe as alterações observadas: uma por chamada, ou todas as alterações de um lote com `batch: true`.
+ */
+export type ChangeListener = (changes: ChangeEvent[]) => void;
+
+/**
+ * Opções aceitas por `deepObserve`.
+ */
+export interface ObserveOptions {
+  /**
+   * Padrões de caminho (mesma sintaxe de `deepPick`, com `*` e `**`): o listener só recebe alterações
+   * que afetam caminhos selecionados (o próprio caminho, um ancestral ou um descendente dele).
+   */
+  patterns?: string | readonly ObjectPath[];
+  /**
+   * Quando `true`, as alterações feitas na mesma tarefa síncrona são entregues juntas, em uma única
+   * chamada do listener (em uma microtask). Padrão: `false`.
+   */
+  batch?: boolean;
+}
+
+interface Subscription {
+  listener: ChangeListener;
+  patterns: PatternSegment[][] | undefined;
+  batch: boolean;
+  pending: ChangeEvent[];
+}
+
+/** Estado compartilhado por todos os proxies de uma mesma raiz observada. */
+interface Observer {
+  subscriptions: Subscription[];
+}
+
+/** Um objeto ou array alcançado por um caminho a partir da raiz observada. */
+interface ProxyNode {
+  raw: object;
+  proxy: object;
+  /** O nó pai (ausente na raiz). */
+  parent?: ProxyNode;
+  /** A última chave conhecida do nó no pai: confirmada por `pathOf` a cada evento. */
+  key: PathSegment;
+  observer: Observer;
+  /** Os nós do caminho, da raiz até este nó (inclusive): usados para detectar ciclos. */
+  ancestors: ProxyNode[];
+  children: Map<PathSegment, ProxyNode>;
+}
+
+const ARRAY_MUTATIONS = new Set<PropertyKey>([
+  "push",
+  "pop",
+  "shift",
+  "unshift",
+  "splice",
+  "sort",
+  "reverse",
+  "fill",
+  "copyWithin",
+]);
+
+/** Índices de arrays: inteiros não negativos canônicos. */
+const INDEX = /^(?:0|[1-9]\d*)$/;
+
+/** Associa cada proxy criado por `deepObserve` ao seu nó. */
+const nodes = new WeakMap<object, ProxyNode>();
+
+/** Apenas objetos simples e arrays não congelados são observados; outros valores são retornados como estão. */
+function isObservable(value: unknown): value is object {
+  if (value === null || typeof value !== "object" || Object.isFrozen(value)) {
+    return false;
+  }
+  if (Array.isArray(value)) {
+    return true;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/** Remove o proxy de valores atribuídos, para que a estrutura original não contenha proxies. */
+function unwrap(value: unknown): unknown {
+  return (
+    (typeof value === "object" && value !== null && nodes.get(value)?.raw) ||
+    value
+  );
+}
+
+function toSegment(target: object, key: string | symbol): PathSegment {
+  return Array.isArray(target) && typeof key === "string" && INDEX.test(key)
+    ? Number(key)
+    : key;
+}
+
+/**
+ * Calcula o caminho atual de um nó no momento do evento: arrays reorganizados (`shift`, `splice`,
+ * `sort`...) ou chaves reatribuídas podem mover o objeto para outra chave do pai depois que o proxy
+ * foi obtido. Se o objeto não estiver mais no pai, a última chave conhecida é mantida.
+ */
+function pathOf(node: ProxyNode): PathSegment[] {
+  if (node.parent === undefined) {
+    return [];
+  }
+  const container = node.parent.raw as Record<PropertyKey, unknown>;
+  if (container[node.key] !== node.raw) {
+    if (Array.isArray(container)) {
+      const index = container.indexOf(node.raw);
+      if (index !== -1) {
+        node.key = index;
+      }
+    } else {
+      const key = Reflect.ownKeys(container).find(
+        (candidate) => container[candidate] === node.raw
+      );
+      if (key !== undefined) {
+        node.key = key;
+      }
+    }
+  }
+  return [...pathOf(node.parent), node.key];
+}
+
+function emit(observer: Observer, event: ChangeEvent): void {
+  for (const subscription of observer.subscriptions.slice()) {
+    if (
+      subscription.patterns !== undefined &&
+      !overlapsAny(subscription.patterns, event.path)
+    ) {
+      continue;
+    }
+    if (!subscription.batch) {
+      subscription.listener([event]);
+      continue;
+    }
+    subscription.pending.push(event);
+    if (subscription.pending.length === 1) {
+      Promise.resolve().then(() => {
+        const changes = subscription.pending;
+        subscription.pending = [];
+        if (changes.length > 0) {
+          subscription.listener(changes);
+        }
+      });
+    }
+  }
+}
+
+/** Retorna o nó de um filho, reaproveitando o proxy enquanto o valor no caminho não mudar. */
+function childNode(
+  parent: ProxyNode,
+  key: PathSegment,
+  raw: object
+): ProxyNode {
+  // Ciclos, como nos finders: um ancestral não é expandido novamente, e sim retornado com o próprio caminho
+  const ancestor = parent.ancestors.find((node) => node.raw === raw);
+  if (ancestor !== undefined) {
+    return ancestor;
+  }
+  const cached = parent.children.get(key);
+  if (cached !== undefined && cached.raw === raw) {
+    return cached;
+  }
+  const node = createNode(raw, key, parent.observer, parent);
+  parent.children.set(key, node);
+  return node;
+}
+
+function createNode(
+  raw: object,
+  key: PathSegment,
+  observer: Observer,
+  parent?: ProxyNode
+): ProxyNode {
+  const node: ProxyNode = {
+    raw,
+    proxy: raw, // Substituído abaixo
+    parent,
+    key,
+    observer,
+    ancestors: [],
+    children: new Map(),
+  };
+  node.ancestors = parent ? [...parent.ancestors, node] : [node];
+
+  node.proxy = new Proxy(raw, {
+    get(target, key, receiver) {
+      if (Array.isArray(target) && ARRAY_MUTATIONS.has(key)) {
+        const method = Reflect.get(target, key) as (
+          ...args: unknown[]
+        ) => unknown;
+        return function (this: unknown, ...args: unknown[]) {
+          // Executado no array original: as atribuições internas do método não geram eventos
+          const before = target.slice();
+          const result = method.apply(target, args.map(unwrap));
+          emit(observer, {
+            op: key as ArrayMutation,
+            path: pathOf(node),
+            oldValue: before,
+            newValue: target.slice(),
+          });
+          return result === target ? receiver : result;
+        };
+      }
+
+      const value = Reflect.get(target, key, receiver);
+      if (
+        !isObservable(value) ||
+        !Object.prototype.hasOwnProperty.call(target, key)
+      ) {
+        return value;
+      }
+      // Propriedades congeladas devem retornar o próprio valor (invariante de Proxy)
+      const descriptor = Object.getOwnPropertyDescriptor(target, key);
+      if (descriptor && !descriptor.configurable && !descriptor.writable) {
+        return value;
+      }
+      return childNode(node, toSegment(target, key), value).proxy;
+    },
+
+    set(target, key, value) {
+      const newValue = unwrap(value);
+      const existed = Object.prototype.hasOwnProperty.call(target, key);
+      const oldValue = existed
+        ? (target as Record<PropertyKey, unknown>)[key]
+        : undefined;
+      if (!Reflect.set(target, key, newValue)) {
+        return false;
+      }
+      if (!existed || !Object.is(oldValue, newValue)) {
+        emit(observer, {
+          op: "set",
+          path: [...pathOf(node), toSegment(target, key)],
+          oldValue,
+          newValue,
+        });
+      }
+      return true;
+    },
+
+    // `Object.defineProperty` e `Reflect.defineProperty` também alteram o estado
+    defineProperty(target, key, descriptor) {
+      const existed = Object.prototype.hasOwnProperty.call(target, key);
+      const oldValue = existed
+        ? (target as Record<PropertyKey, unknown>)[key]
+        : undefined;
+      const stored =
+        "value" in descriptor
+          ? { ...descriptor, value: unwrap(descriptor.value) }
+          : descriptor;
+      if (!Reflect.defineProperty(target, key, stored)) {
+        return false;
+      }
+      const newValue = (target as Record<PropertyKey, unknown>)[key];
+      if (!existed || !Object.is(oldValue, newValue)) {
+        emit(observer, {
+          op: "set",
+          path: [...pathOf(node), toSegment(target, key)],
+          oldValue,
+          newValue,
+        });
+      }
+      return true;
+    },
+
+    deleteProperty(target, key) {
+      const existed = Object.prototype.hasOwnProperty.call(target, key);
+      const oldValue = (target as Record<PropertyKey, unknown>)[key];
+      if (!Reflect.deleteProperty(target, key)) {
+        return false;
+      }
+      if (existed) {
+        const segment = toSegment(target, key);
+        node.children.delete(segment);
+        emit(observer, {
+          op: "delete",
+          path: [...pathOf(node), segment],
+          oldValue,
+          newValue: undefined,
+        });
+      }
+      return true;
+    },
+  });
+  nodes.set(node.proxy, node);
+  return node;
+}
+
+/**
+ * Retorna um proxy recursivo de `obj` que informa ao `listener` cada alteração feita através dele,
+ * em qualquer profundidade: atribuições, `Object.defineProperty`, `delete` e métodos que modificam
+ * arrays (`push`, `splice`, `sort`...). Os caminhos dos eventos são arrays de segmentos (`ObjectPath`), aceitos por `deepGet`.
+ *
+ * Apenas objetos simples e arrays aninhados são observados; `Map`, `Set`, `Date`, instâncias de
+ * classes e objetos congelados são retornados como estão, e alterações feitas diretamente em `obj`
+ * (sem o proxy) não são detectadas. Valores atribuídos são armazenados sem proxy. Referências
+ * circulares são tratadas como nos finders: ao alcançar um ancestral, o acesso retorna o proxy dele,
+ * com o caminho original.
+ *
+ * Chamar `deepObserve` com um proxy já observado acrescenta outro listener à mesma raiz (os caminhos e
+ * padrões são sempre relativos à raiz) e retorna o proxy da raiz. Use `deepUnobserve` para cancelar.
+ *
+ * @template T O tipo do objeto observado.
+ * @param {T} obj - O objeto ou array a observar, ou um proxy retornado por `deepObserve`.
+ * @param {ChangeListener} listener - Recebe as alterações, como array de `{ op, path, oldValue, newValue }`.
+ * @param {ObserveOptions} [opcoes] - Padrões de caminho e entrega em lote.
+ * @returns {T} O proxy, que deve ser usado no lugar de `obj` para que as alterações sejam observadas.
+ * @throws {TypeError} Se `obj` não for um objeto/array ou `listener` não for uma função.
+ * @throws {PathSyntaxError} Se um padrão em string for malformado.
+ *
+ * @example
+ * const state = deepObserve({ user: { name: 'Ana' }, todos: [] }, (changes) => console.log(changes));
+ * state.user.name = 'Bia';
+ * // [{ op: 'set', path: ['user', 'name'], oldValue: 'Ana', newValue: 'Bia' }]
+ * state.todos.push({ done: false });
+ * // [{ op: 'push', path: ['todos'], oldValue: [], newValue: [{ done: false }] }]
+ *
+ * deepObserve(state, salvar, { patterns: 'todos[*].done', batch: true });
+ */
+export function deepObserve<T extends object>(
+  obj: T,
+  listener: ChangeListener,
+  options: ObserveOptions = {}
+): T {
+  if (obj === null || typeof obj !== "object") {
+    throw new TypeError("deepObserve: obj deve ser um objeto ou array.");
+  }
+  if (typeof listener !== "function") {
+    throw new TypeError("deepObserve: listener deve ser uma função.");
+  }
+  const patterns =
+    options.patterns === undefined
+      ? undefined
+      : compilePatterns("deepObserve", options.patterns);
+
+  const existing = nodes.get(obj);
+  const root =
+    existing?.ancestors[0] ?? createNode(obj, "", { subscriptions: [] }); // A raiz não tem chave;
+  root.observer.subscriptions.push({
+    listener,
+    patterns,
+    batch: options.batch === true,
+    pending: [],
+  });
+  return root.proxy as T;
+}
+
+/**
+ * Cancela listeners registrados com `deepObserve`. Alterações ainda não entregues de um lote são descartadas.
+ *
+ * @param {object} observed - Um proxy retornado por `deepObserve` (ou um objeto aninhado obtido dele).
+ * @param {ChangeListener} [listener] - O listener a remover. Se omitido, todos os listeners são removidos.
+ * @returns {boolean} `true` se algum listener foi removido.
+ *
+ * @example
+ * const state = deepObserve({ a: 1 }, log);
+ * deepUnobserve(state, log); // true
+ * state.a = 2; // nenhum evento
+ */
+export function deepUnobserve(
+  observed: object,
+  listener?: ChangeListener
+): boolean {
+  const node = nodes.get(observed);
+  if (node === undefined) {
+    return false;
+  }
+  const { subscriptions } = node.observer;
+  let removed = false;
+  for (let i = subscriptions.length - 1; i >= 0; i--) {
+    if (listener === undefined || subscriptions[i].listener === listener) {
+      subscriptions[i].pending = [];
+      subscriptions.splice(i, 1);
+      removed = true;
+    }
+  }
+  return removed;
+}
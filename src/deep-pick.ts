@@ -0,0 +1,300 @@
+import { DROP, transformStructure } from "./deep-transform";
+import { walkEntries } from "./deep-walk";
+import type { ObjectPath, PathSegment, SafetyOptions } from "./types";
+import { toPathSegments } from "./utils/parsePath";
+import { createTraversalGuard } from "./utils/traversalGuard";
+
+/** Um segmento de padrão compilado: `'**'` ou um teste para um segmento de caminho. */
+export type PatternSegment = "**" | ((segment: PathSegment) => boolean);
+
+/** Nó da árvore de caminhos selecionados por `deepPick`. */
+interface PickNode {
+  /** O caminho até este nó casou com um padrão: toda a subárvore é mantida. */
+  selected: boolean;
+  children: Map<PathSegment, PickNode>;
+}
+
+/** Texto padrão usado por `deepRedact`. */
+const DEFAULT_MASK = "[REDACTED]";
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function compileSegment(segment: PathSegment): PatternSegment {
+  if (segment === "**") {
+    return "**";
+  }
+  if (segment === "*") {
+    return () => true;
+  }
+  if (typeof segment === "string" && segment.includes("*")) {
+    const regex = new RegExp(
+      `^${segment.split("*").map(escapeRegExp).join(".*")}$`
+    );
+    return (key) => typeof key !== "symbol" && regex.test(String(key));
+  }
+  // Índices podem vir como número (`[0]`) ou string (`.0`) tanto no padrão quanto no caminho
+  return (key) =>
+    typeof key === "symbol" || typeof segment === "symbol"
+      ? key === segment
+      : String(key) === String(segment);
+}
+
+/**
+ * Converte os padrões em listas de segmentos compilados. Um padrão com um único segmento
+ * (ex: `'password'`) casa em qualquer profundidade, como `'**.password'`.
+ */
+export function compilePatterns(
+  fnName: string,
+  patterns: string | readonly ObjectPath[]
+): PatternSegment[][] {
+  const list = typeof patterns === "string" ? [patterns] : patterns;
+  if (!Array.isArray(list)) {
+    throw new TypeError(
+      `${fnName}: patterns deve ser uma string ou um array de padrões.`
+    );
+  }
+  return list.map((pattern) => {
+    const segments = toPathSegments(pattern).map(compileSegment);
+    if (segments.length === 0) {
+      throw new TypeError(`${fnName}: padrão deve ser não vazio.`);
+    }
+    return segments.length === 1 && segments[0] !== "**"
+      ? ["**", segments[0]]
+      : segments;
+  });
+}
+
+/** Acrescenta os estados alcançáveis sem consumir segmentos (`**` pode casar com zero segmentos). */
+function closure(pattern: PatternSegment[], states: Set<number>): Set<number> {
+  for (const state of states) {
+    if (pattern[state] === "**") {
+      states.add(state + 1); // Set percorre também os itens adicionados durante a iteração
+    }
+  }
+  return states;
+}
+
+/** Verifica se `path` casa com `pattern` por inteiro. */
+function matchesPattern(
+  pattern: PatternSegment[],
+  path: readonly PathSegment[]
+): boolean {
+  let states = closure(pattern, new Set([0]));
+  for (const segment of path) {
+    const next = new Set<number>();
+    for (const state of states) {
+      const test = pattern[state];
+      if (test === "**") {
+        next.add(state);
+      } else if (test !== undefined && test(segment)) {
+        next.add(state + 1);
+      }
+    }
+    if (next.size === 0) {
+      return false;
+    }
+    states = closure(pattern, next);
+  }
+  return states.has(pattern.length);
+}
+
+export function matchesAny(
+  patterns: PatternSegment[][],
+  path: readonly PathSegment[]
+): boolean {
+  return patterns.some((pattern) => matchesPattern(pattern, path));
+}
+
+/**
+ * Verifica se uma alteração em `path` afeta algum caminho selecionado por `pattern`: o próprio
+ * caminho ou um ancestral casa com o padrão, ou algum descendente ainda pode casar.
+ */
+function overlapsPattern(
+  pattern: PatternSegment[],
+  path: readonly PathSegment[]
+): boolean {
+  let states = closure(pattern, new Set([0]));
+  for (const segment of path) {
+    if (states.has(pattern.length)) {
+      return true; // Um ancestral casou: toda a subárvore está selecionada
+    }
+    const next = new Set<number>();
+    for (const state of states) {
+      const test = pattern[state];
+      if (test === "**") {
+        next.add(state);
+      } else if (test !== undefined && test(segment)) {
+        next.add(state + 1);
+      }
+    }
+    if (next.size === 0) {
+      return false;
+    }
+    states = closure(pattern, next);
+  }
+  return true;
+}
+
+export function overlapsAny(
+  patterns: PatternSegment[][],
+  path: readonly PathSegment[]
+): boolean {
+  return patterns.some((pattern) => overlapsPattern(pattern, path));
+}
+
+/**
+ * Retorna uma cópia de `obj` contendo apenas as entradas cujos caminhos casam com algum dos padrões,
+ * junto com os contêineres necessários para alcançá-las. A subárvore de uma entrada selecionada é
+ * mantida por inteiro; contêineres sem nenhuma entrada selecionada não aparecem no resultado.
+ *
+ * Os padrões usam a sintaxe de caminho da biblioteca (`parsePath`), com curingas:
+ * - `*` casa com exatamente um segmento (`'users[*].id'`, `'*.creditCard.number'`);
+ * - `*` dentro de um segmento casa com parte da chave (`'*Token'`, `'api_*'`);
+ * - `**` casa com zero ou mais segmentos (`'**.password'`);
+ * - um padrão com um único segmento (`'password'`) casa em qualquer profundidade.
+ *
+ * A cópia mantém os tipos dos contêineres (arrays, `Map`, `Set`, objetos simples); elementos de arrays
+ * que não são selecionados são removidos sem deixar buracos. Instâncias de classes e `Error` também são
+ * percorridas: a cópia mantém o protótipo e apenas as propriedades próprias enumeráveis selecionadas
+ * (propriedades não enumeráveis, como `message` e `stack`, são mantidas como estão). `Date`, typed
+ * arrays e outros tipos nativos são valores únicos. Referências compartilhadas são avaliadas
+ * separadamente em cada caminho e referências circulares são preservadas (`cycles: 'ancestors'` de
+ * `deepTransform`).
+ *
+ * @template R O tipo esperado do resultado.
+ * @param {unknown} obj - A estrutura de origem. Não é modificada.
+ * @param {string | readonly ObjectPath[]} patterns - Um padrão ou uma lista de padrões (strings ou arrays de segmentos).
+ * @param {SafetyOptions} [opcoes] - Tratamento de erros e limites da travessia.
+ * @returns {R} A cópia apenas com as entradas selecionadas.
+ * @throws {TypeError} Se um padrão for vazio ou `patterns` não for uma string ou array.
+ * @throws {PathSyntaxError} Se um padrão em string for malformado.
+ * @throws {TraversalLimitError} Se `maxDepth` ou `maxNodes` for excedido com `onError: 'throw'`.
+ *
+ * @example
+ * const pedido = { id: 1, cliente: { nome: 'Ana', cpf: '000' }, itens: [{ sku: 'a', preco: 10 }] };
+ * deepPick(pedido, ['id', 'cliente.nome', 'itens[*].sku']);
+ * // { id: 1, cliente: { nome: 'Ana' }, itens: [{ sku: 'a' }] }
+ */
+export function deepPick<R = unknown>(
+  obj: unknown,
+  patterns: string | readonly ObjectPath[],
+  options: SafetyOptions = {}
+): R {
+  const compiled = compilePatterns("deepPick", patterns);
+  // A segunda passada revisita os mesmos valores: ela respeita os limites sem contá-los novamente
+  const guard = createTraversalGuard("deepPick", options);
+
+  // Primeira passada: registra os caminhos selecionados em uma árvore de segmentos
+  const tree: PickNode = { selected: false, children: new Map() };
+  const walk = walkEntries(obj, { cycles: "ancestors" }, guard);
+  for (const entry of walk) {
+    if (!matchesAny(compiled, entry.path)) {
+      continue;
+    }
+    entry.skip(); // A subárvore inteira já está selecionada
+    let node = tree;
+    for (const segment of entry.path) {
+      let child = node.children.get(segment);
+      if (child === undefined) {
+        child = { selected: false, children: new Map() };
+        node.children.set(segment, child);
+      }
+      node = child;
+    }
+    node.selected = true;
+  }
+
+  return transformStructure<R>(
+    "deepPick",
+    obj,
+    (entry) => {
+      let node: PickNode | undefined = tree;
+      for (const segment of entry.path) {
+        node = node.children.get(segment);
+        if (node === undefined) {
+          return DROP;
+        }
+        if (node.selected) {
+          return entry.value;
+        }
+      }
+      return entry.value; // Ancestral de uma entrada selecionada
+    },
+    { ...options, cycles: "ancestors", instances: true },
+    guard.uncounted()
+  );
+}
+
+/**
+ * Retorna uma cópia de `obj` sem as entradas cujos caminhos casam com algum dos padrões (e sem as
+ * suas subárvores). Aceita os mesmos padrões de `deepPick`, o que permite remover segredos em
+ * qualquer profundidade antes de registrar um payload.
+ *
+ * A cópia mantém os tipos dos contêineres; elementos removidos de arrays não deixam buracos.
+ * Instâncias de classes e `Error` são percorridas como em `deepPick`, de modo que segredos dentro delas
+ * também são removidos. Referências compartilhadas são avaliadas separadamente em cada caminho e referências circulares
+ * são preservadas.
+ *
+ * @template R O tipo esperado do resultado.
+ * @param {unknown} obj - A estrutura de origem. Não é modificada.
+ * @param {string | readonly ObjectPath[]} patterns - Um padrão ou uma lista de padrões.
+ * @param {SafetyOptions} [opcoes] - Tratamento de erros e limites da travessia.
+ * @returns {R} A cópia sem as entradas removidas.
+ * @throws {TypeError} Se um padrão for vazio ou `patterns` não for uma string ou array.
+ * @throws {PathSyntaxError} Se um padrão em string for malformado.
+ * @throws {TraversalLimitError} Se `maxDepth` ou `maxNodes` for excedido com `onError: 'throw'`.
+ *
+ * @example
+ * const req = { user: 'ana', password: 'x', auth: { token: 't' }, card: { creditCard: { number: '4111' } } };
+ * deepOmit(req, ['password', 'token', '*.creditCard.number']);
+ * // { user: 'ana', auth: {}, card: { creditCard: {} } }
+ */
+export function deepOmit<R = unknown>(
+  obj: unknown,
+  patterns: string | readonly ObjectPath[],
+  options: SafetyOptions = {}
+): R {
+  const compiled = compilePatterns("deepOmit", patterns);
+  return transformStructure<R>(
+    "deepOmit",
+    obj,
+    (entry) => (matchesAny(compiled, entry.path) ? DROP : entry.value),
+    { ...options, cycles: "ancestors", instances: true }
+  );
+}
+
+/**
+ * Variante de `deepOmit` que mantém as chaves e substitui os valores selecionados por `mask`
+ * (subárvores inteiras são substituídas), preservando o formato do objeto para logs. Instâncias de
+ * classes e `Error` são percorridas e copiadas com o mesmo protótipo, como em `deepPick`.
+ *
+ * @template R O tipo esperado do resultado.
+ * @param {unknown} obj - A estrutura de origem. Não é modificada.
+ * @param {string | readonly ObjectPath[]} patterns - Um padrão ou uma lista de padrões.
+ * @param {unknown} [mask='[REDACTED]'] - O valor colocado no lugar dos valores selecionados.
+ * @param {SafetyOptions} [opcoes] - Tratamento de erros e limites da travessia.
+ * @returns {R} A cópia com os valores mascarados.
+ * @throws {TypeError} Se um padrão for vazio ou `patterns` não for uma string ou array.
+ * @throws {PathSyntaxError} Se um padrão em string for malformado.
+ * @throws {TraversalLimitError} Se `maxDepth` ou `maxNodes` for excedido com `onError: 'throw'`.
+ *
+ * @example
+ * deepRedact({ user: 'ana', password: 'x', tokens: ['a', 'b'] }, ['password', 'tokens[*]']);
+ * // { user: 'ana', password: '[REDACTED]', tokens: ['[REDACTED]', '[REDACTED]'] }
+ */
+export function deepRedact<R = unknown>(
+  obj: unknown,
+  patterns: string | readonly ObjectPath[],
+  mask: unknown = DEFAULT_MASK,
+  options: SafetyOptions = {}
+): R {
+  const compiled = compilePatterns("deepRedact", patterns);
+  return transformStructure<R>(
+    "deepRedact",
+    obj,
+    (entry) => (matchesAny(compiled, entry.path) ? mask : entry.value),
+    { ...options, cycles: "ancestors", instances: true }
+  );
+}
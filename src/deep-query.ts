@@ -0,0 +1,592 @@
+import { deepWalk } from "./deep-walk";
+import { PathSyntaxError } from "./errors";
+import type { PathSegment, SafetyOptions } from "./types";
+import { getChild, resolveMapKey } from "./utils/resolvePath";
+import { createTraversalGuard } from "./utils/traversalGuard";
+
+/**
+ * Um resultado de `deepQuery`: o valor encontrado e o caminho até ele, em segmentos.
+ */
+export interface QueryMatch {
+  /** Caminho até o valor. Pode ser passado para `deepGet` ou `stringifyPath`. */
+  path: PathSegment[];
+  /** O valor encontrado. */
+  value: unknown;
+}
+
+type FilterExpr =
+  | { type: "literal"; value: unknown }
+  | { type: "path"; root: "@" | "$"; segments: PathSegment[] }
+  | { type: "not"; operand: FilterExpr }
+  | { type: "binary"; op: string; left: FilterExpr; right: FilterExpr };
+
+type Selector =
+  | { type: "name"; name: PathSegment }
+  | { type: "wildcard" }
+  | { type: "slice"; start?: number; end?: number; step?: number }
+  | { type: "union"; selectors: Selector[] }
+  | { type: "filter"; expr: FilterExpr };
+
+interface QuerySegment {
+  /** `true` para descida recursiva (`..`). */
+  descendant: boolean;
+  selector: Selector;
+}
+
+const COMPARISON_OPERATORS = ["==", "!=", "<=", ">=", "<", ">"];
+
+/**
+ * Analisa uma expressão de consulta em uma lista de segmentos.
+ * Lança `PathSyntaxError` indicando a posição do primeiro erro.
+ */
+function compileQuery(expression: string): QuerySegment[] {
+  const length = expression.length;
+  const segments: QuerySegment[] = [];
+  let pos = 0;
+
+  const fail = (message: string, at: number = pos): never => {
+    throw new PathSyntaxError(`deepQuery: ${message}`, expression, at);
+  };
+
+  const skipSpaces = () => {
+    while (pos < length && /\s/.test(expression[pos])) {
+      pos++;
+    }
+  };
+
+  const expect = (char: string) => {
+    skipSpaces();
+    if (expression[pos] !== char) {
+      fail(`esperado '${char}'`);
+    }
+    pos++;
+  };
+
+  // Chave entre aspas simples ou duplas, com suporte a escapes como em parsePath
+  const readQuoted = (): string => {
+    const quote = expression[pos];
+    const start = pos;
+    let value = "";
+    pos++;
+    while (pos < length && expression[pos] !== quote) {
+      if (expression[pos] === "\\" && pos + 1 < length) {
+        pos++;
+      }
+      value += expression[pos];
+      pos++;
+    }
+    if (pos >= length) {
+      fail("aspas não fechadas", start);
+    }
+    pos++;
+    return value;
+  };
+
+  const readInteger = (): number | undefined => {
+    const match = /^-?\d+/.exec(expression.slice(pos));
+    if (!match) {
+      return undefined;
+    }
+    pos += match[0].length;
+    return Number(match[0]);
+  };
+
+  // Nome simples em notação de ponto, com as mesmas regras de parsePath
+  const readName = (): string => {
+    const start = pos;
+    while (pos < length && !".[".includes(expression[pos])) {
+      if (expression[pos] === "]") {
+        fail("']' inesperado");
+      }
+      pos++;
+    }
+    if (pos === start) {
+      fail("esperado um nome de propriedade");
+    }
+    return expression.slice(start, pos);
+  };
+
+  // Caminho relativo dentro de um filtro: .nome, [0] ou ['nome']
+  const readRelativePath = (): PathSegment[] => {
+    const path: PathSegment[] = [];
+    for (;;) {
+      if (expression[pos] === ".") {
+        pos++;
+        const match = /^[\w$-]+/.exec(expression.slice(pos));
+        if (!match) {
+          fail("esperado um nome de propriedade");
+        }
+        path.push(match![0]);
+        pos += match![0].length;
+      } else if (expression[pos] === "[") {
+        pos++;
+        skipSpaces();
+        if (expression[pos] === "'" || expression[pos] === '"') {
+          path.push(readQuoted());
+        } else {
+          const index = readInteger();
+          if (index === undefined) {
+            fail("esperado um índice ou uma chave entre aspas");
+          }
+          path.push(index!);
+        }
+        expect("]");
+      } else {
+        return path;
+      }
+    }
+  };
+
+  const parsePrimary = (): FilterExpr => {
+    skipSpaces();
+    const char = expression[pos];
+
+    if (char === "(") {
+      pos++;
+      const expr = parseOr();
+      expect(")");
+      return expr;
+    }
+    if (char === "@" || char === "$") {
+      pos++;
+      return { type: "path", root: char, segments: readRelativePath() };
+    }
+    if (char === "'" || char === '"') {
+      return { type: "literal", value: readQuoted() };
+    }
+
+    const number = /^-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/.exec(
+      expression.slice(pos)
+    );
+    if (number) {
+      pos += number[0].length;
+      return { type: "literal", value: Number(number[0]) };
+    }
+
+    for (const [word, value] of [
+      ["true", true],
+      ["false", false],
+      ["null", null],
+    ] as const) {
+      if (
+        expression.startsWith(word, pos) &&
+        !/[\w$]/.test(expression[pos + word.length] ?? "")
+      ) {
+        pos += word.length;
+        return { type: "literal", value };
+      }
+    }
+
+    return fail("expressão de filtro inválida");
+  };
+
+  const parseComparison = (): FilterExpr => {
+    const left = parsePrimary();
+    skipSpaces();
+    const op = COMPARISON_OPERATORS.find((candidate) =>
+      expression.startsWith(candidate, pos)
+    );
+    if (!op) {
+      return left;
+    }
+    pos += op.length;
+    return { type: "binary", op, left, right: parsePrimary() };
+  };
+
+  const parseNot = (): FilterExpr => {
+    skipSpaces();
+    if (expression[pos] === "!" && expression[pos + 1] !== "=") {
+      pos++;
+      return { type: "not", operand: parseNot() };
+    }
+    return parseComparison();
+  };
+
+  const parseAnd = (): FilterExpr => {
+    let left = parseNot();
+    skipSpaces();
+    while (expression.startsWith("&&", pos)) {
+      pos += 2;
+      left = { type: "binary", op: "&&", left, right: parseNot() };
+      skipSpaces();
+    }
+    return left;
+  };
+
+  function parseOr(): FilterExpr {
+    let left = parseAnd();
+    skipSpaces();
+    while (expression.startsWith("||", pos)) {
+      pos += 2;
+      left = { type: "binary", op: "||", left, right: parseAnd() };
+      skipSpaces();
+    }
+    return left;
+  }
+
+  // Um item dentro de colchetes: *, índice, fatia, chave entre aspas ou nome simples
+  const parseBracketItem = (): Selector => {
+    skipSpaces();
+    const char = expression[pos];
+
+    if (char === "*") {
+      pos++;
+      return { type: "wildcard" };
+    }
+    if (char === "'" || char === '"') {
+      return { type: "name", name: readQuoted() };
+    }
+
+    const start = readInteger();
+    skipSpaces();
+    if (expression[pos] === ":") {
+      pos++;
+      skipSpaces();
+      const end = readInteger();
+      skipSpaces();
+      let step: number | undefined;
+      if (expression[pos] === ":") {
+        pos++;
+        skipSpaces();
+        step = readInteger();
+        if (step === 0) {
+          fail("o passo de uma fatia não pode ser zero");
+        }
+      }
+      return { type: "slice", start, end, step };
+    }
+    if (start !== undefined) {
+      return { type: "name", name: start };
+    }
+
+    const nameStart = pos;
+    while (pos < length && !",]".includes(expression[pos])) {
+      pos++;
+    }
+    const name = expression.slice(nameStart, pos).trim();
+    if (name === "") {
+      fail("conteúdo inválido entre colchetes", nameStart);
+    }
+    return { type: "name", name };
+  };
+
+  const parseBracket = (): Selector => {
+    const open = pos;
+    pos++; // '['
+    skipSpaces();
+
+    if (expression[pos] === "?") {
+      pos++;
+      expect("(");
+      const expr = parseOr();
+      expect(")");
+      expect("]");
+      return { type: "filter", expr };
+    }
+
+    const selectors = [parseBracketItem()];
+    skipSpaces();
+    while (expression[pos] === ",") {
+      pos++;
+      selectors.push(parseBracketItem());
+      skipSpaces();
+    }
+    if (pos >= length) {
+      fail("'[' não fechado", open);
+    }
+    expect("]");
+    return selectors.length === 1 ? selectors[0] : { type: "union", selectors };
+  };
+
+  // Seletor após '.' ou '..': '*', colchetes ou nome simples
+  const parseDotSelector = (): Selector => {
+    if (expression[pos] === "*") {
+      pos++;
+      return { type: "wildcard" };
+    }
+    return { type: "name", name: readName() };
+  };
+
+  if (expression[pos] === "$") {
+    pos++;
+  } else if (pos < length && !".[".includes(expression[pos])) {
+    // Primeiro segmento sem ponto, como em caminhos comuns: 'a.b'
+    segments.push({ descendant: false, selector: parseDotSelector() });
+  }
+
+  while (pos < length) {
+    const char = expression[pos];
+    if (char === "[") {
+      segments.push({ descendant: false, selector: parseBracket() });
+    } else if (char === "." && expression[pos + 1] === ".") {
+      pos += 2;
+      const selector =
+        expression[pos] === "[" ? parseBracket() : parseDotSelector();
+      segments.push({ descendant: true, selector });
+    } else if (char === ".") {
+      pos++;
+      segments.push({ descendant: false, selector: parseDotSelector() });
+    } else {
+      fail(`caractere inesperado '${char}'`);
+    }
+  }
+
+  return segments;
+}
+
+function isContainer(value: unknown): value is object {
+  return value !== null && typeof value === "object";
+}
+
+/**
+ * Converte um segmento de nome/índice na chave real do contêiner, ou `undefined` se ela não existir.
+ * Índices negativos de arrays, typed arrays e posições de `Set` são convertidos em índices absolutos,
+ * como em `deepGet`.
+ */
+function resolveOwnKey(
+  container: object,
+  name: PathSegment
+): PathSegment | undefined {
+  if (container instanceof Map) {
+    const key = resolveMapKey(container, name);
+    return container.has(key) ? (key as PathSegment) : undefined;
+  }
+  const length =
+    container instanceof Set
+      ? container.size
+      : Array.isArray(container) ||
+        (ArrayBuffer.isView(container) && !(container instanceof DataView))
+      ? (container as ArrayLike<unknown>).length
+      : undefined;
+  if (length !== undefined) {
+    if (!/^-?\d+$/.test(String(name))) {
+      return undefined;
+    }
+    const index = Number(name) < 0 ? length + Number(name) : Number(name);
+    return index >= 0 && index < length ? index : undefined;
+  }
+  return Object.prototype.hasOwnProperty.call(container, name)
+    ? name
+    : undefined;
+}
+
+function children(node: QueryMatch): QueryMatch[] {
+  return [...deepWalk(node.value, { maxDepth: 1 })].map((entry) => ({
+    path: [...node.path, entry.key],
+    value: entry.value,
+  }));
+}
+
+function evaluateFilter(
+  expr: FilterExpr,
+  current: unknown,
+  root: unknown
+): unknown {
+  switch (expr.type) {
+    case "literal":
+      return expr.value;
+    case "path":
+      return expr.segments.reduce<unknown>(
+        (value, segment) => getChild(value, segment),
+        expr.root === "@" ? current : root
+      );
+    case "not":
+      return !isTruthy(expr.operand, current, root);
+    case "binary": {
+      if (expr.op === "&&") {
+        return (
+          isTruthy(expr.left, current, root) &&
+          isTruthy(expr.right, current, root)
+        );
+      }
+      if (expr.op === "||") {
+        return (
+          isTruthy(expr.left, current, root) ||
+          isTruthy(expr.right, current, root)
+        );
+      }
+      const left = evaluateFilter(expr.left, current, root);
+      const right = evaluateFilter(expr.right, current, root);
+      switch (expr.op) {
+        case "==":
+          return left === right;
+        case "!=":
+          return left !== right;
+      }
+      // Comparações de ordem só fazem sentido entre dois números ou duas strings
+      if (
+        !(typeof left === "number" && typeof right === "number") &&
+        !(typeof left === "string" && typeof right === "string")
+      ) {
+        return false;
+      }
+      switch (expr.op) {
+        case "<":
+          return left < right;
+        case "<=":
+          return left <= right;
+        case ">":
+          return left > right;
+        default:
+          return left >= right;
+      }
+    }
+  }
+}
+
+/**
+ * Caminhos sozinhos em um filtro testam existência (`?(@.f)`); os demais valores usam a veracidade de JS.
+ */
+function isTruthy(expr: FilterExpr, current: unknown, root: unknown): boolean {
+  const value = evaluateFilter(expr, current, root);
+  return expr.type === "path" ? value !== undefined : Boolean(value);
+}
+
+function applySelector(
+  selector: Selector,
+  node: QueryMatch,
+  root: unknown
+): QueryMatch[] {
+  const { value } = node;
+
+  switch (selector.type) {
+    case "name": {
+      if (!isContainer(value)) {
+        return [];
+      }
+      const key = resolveOwnKey(value, selector.name);
+      return key === undefined
+        ? []
+        : [{ path: [...node.path, key], value: getChild(value, key) }];
+    }
+    case "wildcard":
+      return children(node);
+    case "slice": {
+      if (!Array.isArray(value)) {
+        return [];
+      }
+      const { length } = value;
+      const step = selector.step ?? 1;
+      const normalize = (index: number) =>
+        index < 0
+          ? Math.max(length + index, step > 0 ? 0 : -1)
+          : Math.min(index, step > 0 ? length : length - 1);
+      const start =
+        selector.start !== undefined
+          ? normalize(selector.start)
+          : step > 0
+          ? 0
+          : length - 1;
+      const end =
+        selector.end !== undefined
+          ? normalize(selector.end)
+          : step > 0
+          ? length
+          : -1;
+      const result: QueryMatch[] = [];
+      for (let i = start; step > 0 ? i < end : i > end; i += step) {
+        result.push({ path: [...node.path, i], value: value[i] });
+      }
+      return result;
+    }
+    case "union":
+      return selector.selectors.flatMap((item) =>
+        applySelector(item, node, root)
+      );
+    case "filter":
+      return children(node).filter((child) =>
+        isTruthy(selector.expr, child.value, root)
+      );
+  }
+}
+
+/**
+ * Consulta um objeto com uma expressão no estilo JSONPath e retorna todos os valores encontrados,
+ * com seus caminhos. Segmentos simples usam a mesma sintaxe de `deepGet` ('b.d[0].e', '["key with.dot"]'),
+ * acrescida de:
+ * - `$`: a raiz (opcional no início da expressão).
+ * - `*` ou `[*]`: todos os filhos de um objeto ou array.
+ * - `..chave`, `..*`, `..[0]`: descida recursiva, em qualquer profundidade.
+ * - `[1:3]`, `[-2:]`, `[::2]`: fatias de arrays (início inclusivo, fim exclusivo, passo opcional).
+ * - `[0,2]`, `['a','b']`: uniões de índices, chaves ou fatias.
+ * - `[?(@.f == true)]`: filtros sobre os filhos, com `@` (filho atual), `$` (raiz), literais
+ *   (números, strings, `true`, `false`, `null`), `== != < <= > >=`, `&& || !` e parênteses.
+ *   Um caminho sozinho (`?(@.f)`) testa a existência da propriedade.
+ *
+ * A descida recursiva usa `deepWalk`, sendo segura para referências circulares. Os limites de
+ * `SafetyOptions` valem para os valores alcançados pela descida recursiva e pelos seletores.
+ *
+ * @param {unknown} obj - O objeto ou array a consultar.
+ * @param {string} expression - A expressão de consulta.
+ * @param {SafetyOptions} [opcoes] - Tratamento de erros e limites da travessia.
+ * @returns {QueryMatch[]} Os resultados, na ordem do documento, cada um com `path` e `value`.
+ *   Retorna um array vazio se nada corresponder.
+ * @throws {TypeError} Se `expression` não for uma string.
+ * @throws {PathSyntaxError} Se a expressão for inválida, indicando a posição do erro.
+ * @throws {TraversalLimitError} Se `maxDepth` ou `maxNodes` for excedido com `onError: 'throw'`.
+ *
+ * @example
+ * const meuObj = { b: { d: [{ e: 3, f: true }, { e: 4, f: false }, { e: 5, f: true }] } };
+ * deepQuery(meuObj, 'b.d[?(@.f == true)].e');
+ * // [{ path: ['b', 'd', 0, 'e'], value: 3 }, { path: ['b', 'd', 2, 'e'], value: 5 }]
+ * deepQuery(meuObj, '$..e').map((m) => m.value); // [3, 4, 5]
+ * deepQuery(meuObj, 'b.d[1:].e').map((m) => m.value); // [4, 5]
+ * deepQuery(meuObj, 'b.d[0,2].e').map((m) => m.value); // [3, 5]
+ * deepQuery(meuObj, 'b.d[?(@.e > 3 && !@.f)]').map((m) => m.value); // [{ e: 4, f: false }]
+ * deepQuery(meuObj, 'b.d[0'); // lança PathSyntaxError: deepQuery: '[' não fechado (posição 3 em "b.d[0")
+ */
+export function deepQuery(
+  obj: unknown,
+  expression: string,
+  options: SafetyOptions = {}
+): QueryMatch[] {
+  if (typeof expression !== "string") {
+    throw new TypeError("deepQuery: expression deve ser uma string.");
+  }
+
+  const segments = compileQuery(expression.trim());
+  const guard = createTraversalGuard("deepQuery", options);
+  // Os seletores alcançam valores já visitados pela descida recursiva: cada caminho é contado uma vez
+  const visited = new Map<string, boolean>();
+  const allowed = (node: QueryMatch) => {
+    const key = JSON.stringify(node.path);
+    let result = visited.get(key);
+    if (result === undefined) {
+      result = guard.visit(node.path, node.path.length);
+      visited.set(key, result);
+    }
+    return result;
+  };
+  let nodes: QueryMatch[] = [{ path: [], value: obj }];
+
+  for (const { descendant, selector } of segments) {
+    const targets: QueryMatch[] = [];
+    for (const node of nodes) {
+      targets.push(node);
+      if (!descendant) {
+        continue;
+      }
+      for (const entry of deepWalk(node.value)) {
+        const target = {
+          path: [...node.path, ...entry.path],
+          value: entry.value,
+        };
+        if (!allowed(target)) {
+          if (guard.stopped) {
+            break;
+          }
+          entry.skip(); // Além de maxDepth
+          continue;
+        }
+        if (isContainer(entry.value) && !entry.seen) {
+          targets.push(target);
+        }
+      }
+    }
+    nodes = targets
+      .flatMap((node) => applySelector(selector, node, obj))
+      .filter(allowed);
+  }
+
+  return nodes;
+}
@@ -0,0 +1,343 @@
+import { walkEntries } from "./deep-walk";
+import type { SafetyOptions } from "./types";
+import { stringifyPath } from "./utils/stringifyPath";
+import { createTraversalGuard } from "./utils/traversalGuard";
+
+/** Os tipos de JSON reconhecidos por `inferSchema`. */
+export type SchemaType =
+  | "object"
+  | "array"
+  | "string"
+  | "integer"
+  | "number"
+  | "boolean"
+  | "null";
+
+/**
+ * O esquema inferido para um caminho: a união dos tipos observados nele e, para objetos e arrays,
+ * o esquema das propriedades e dos elementos.
+ */
+export interface SchemaNode {
+  /** Os tipos observados, sem repetições (`'integer'` é omitido se `'number'` também foi observado). */
+  types: SchemaType[];
+  /** As propriedades dos objetos, na ordem em que foram encontradas. Presente se `types` inclui `'object'`. */
+  properties?: SchemaProperty[];
+  /** O esquema dos elementos dos arrays. Ausente se nenhum elemento foi observado. */
+  items?: SchemaNode;
+}
+
+/** Uma propriedade de objeto em um `SchemaNode`. */
+export interface SchemaProperty {
+  key: string;
+  /** `true` se a chave estava presente em todos os objetos observados no caminho. */
+  required: boolean;
+  schema: SchemaNode;
+}
+
+/** O resultado de `inferSchema`. */
+export interface InferredSchema {
+  /** O esquema das amostras. */
+  root: SchemaNode;
+  /** Gera um documento JSON Schema (draft 2020-12) equivalente ao esquema. */
+  toJsonSchema(): Record<string, unknown>;
+  /** Gera o código-fonte de uma declaração TypeScript (`interface` ou `type`) com o nome informado. */
+  toTypeScript(name?: string): string;
+  /**
+   * Lista todos os caminhos permitidos pelo esquema, na sintaxe de padrões de `deepPick`: elementos de
+   * arrays aparecem como `[*]` (ex: `'itens[*].preco'`).
+   */
+  paths(): string[];
+}
+
+/** Esquema em construção: contadores acumulados durante a travessia das amostras. */
+interface SchemaBuilder {
+  types: Set<SchemaType>;
+  /** Objetos expandidos neste caminho, para decidir quais chaves são obrigatórias. */
+  objects: number;
+  properties: Map<string, { count: number; schema: SchemaBuilder }>;
+  items?: SchemaBuilder;
+}
+
+const TYPE_ORDER: SchemaType[] = [
+  "object",
+  "array",
+  "string",
+  "integer",
+  "number",
+  "boolean",
+  "null",
+];
+
+const JSON_SCHEMA_DIALECT = "https://json-schema.org/draft/2020-12/schema";
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+const createBuilder = (): SchemaBuilder => ({
+  types: new Set(),
+  objects: 0,
+  properties: new Map(),
+});
+
+/** Valores omitidos por `JSON.stringify` em objetos (e convertidos em `null` em arrays). */
+const isAbsent = (value: unknown): boolean =>
+  value === undefined ||
+  typeof value === "function" ||
+  typeof value === "symbol";
+
+const isArrayLike = (value: object): boolean =>
+  Array.isArray(value) || ArrayBuffer.isView(value) || value instanceof Set;
+
+/** O tipo de JSON de um valor, como ele seria escrito por `JSON.stringify`. */
+function typeOf(value: unknown): SchemaType {
+  if (value === null || isAbsent(value)) {
+    return "null";
+  }
+  switch (typeof value) {
+    case "string":
+      return "string";
+    case "boolean":
+      return "boolean";
+    case "bigint":
+      return "integer";
+    case "number":
+      return Number.isInteger(value) ? "integer" : "number";
+  }
+  if (value instanceof Date) {
+    return "string";
+  }
+  return isArrayLike(value as object) ? "array" : "object";
+}
+
+/** Define uma propriedade própria, sem acionar o setter de `__proto__`. */
+function defineKey(
+  target: Record<string, unknown>,
+  key: string,
+  value: unknown
+): void {
+  Object.defineProperty(target, key, {
+    value,
+    enumerable: true,
+    writable: true,
+    configurable: true,
+  });
+}
+
+function finalize(builder: SchemaBuilder): SchemaNode {
+  const types = TYPE_ORDER.filter(
+    (type) =>
+      builder.types.has(type) &&
+      !(type === "integer" && builder.types.has("number"))
+  );
+  const node: SchemaNode = { types };
+  if (builder.types.has("object")) {
+    node.properties = [...builder.properties].map(([key, property]) => ({
+      key,
+      required: property.count === builder.objects,
+      schema: finalize(property.schema),
+    }));
+  }
+  if (builder.items !== undefined) {
+    node.items = finalize(builder.items);
+  }
+  return node;
+}
+
+function toJsonSchema(node: SchemaNode): Record<string, unknown> {
+  const schema: Record<string, unknown> = {};
+  if (node.types.length > 0) {
+    schema.type = node.types.length === 1 ? node.types[0] : node.types;
+  }
+  if (node.properties !== undefined && node.properties.length > 0) {
+    const properties: Record<string, unknown> = {};
+    for (const { key, schema: child } of node.properties) {
+      defineKey(properties, key, toJsonSchema(child));
+    }
+    schema.properties = properties;
+    const required = node.properties
+      .filter((property) => property.required)
+      .map((property) => property.key);
+    if (required.length > 0) {
+      schema.required = required;
+    }
+  }
+  if (node.items !== undefined) {
+    schema.items = toJsonSchema(node.items);
+  }
+  return schema;
+}
+
+function toObjectType(properties: SchemaProperty[], indent: string): string {
+  if (properties.length === 0) {
+    return "Record<string, unknown>";
+  }
+  const lines = properties.map(
+    ({ key, required, schema }) =>
+      `${indent}  ${IDENTIFIER.test(key) ? key : JSON.stringify(key)}${
+        required ? "" : "?"
+      }: ${toTypeExpression(schema, `${indent}  `)};`
+  );
+  return `{\n${lines.join("\n")}\n${indent}}`;
+}
+
+function toTypeExpression(node: SchemaNode, indent: string): string {
+  if (node.types.length === 0) {
+    return "unknown";
+  }
+  return node.types
+    .map((type) => {
+      switch (type) {
+        case "object":
+          return toObjectType(node.properties ?? [], indent);
+        case "array": {
+          if (node.items === undefined) {
+            return "unknown[]";
+          }
+          const items = toTypeExpression(node.items, indent);
+          return node.items.types.length > 1 ? `(${items})[]` : `${items}[]`;
+        }
+        case "integer":
+          return "number";
+        default:
+          return type;
+      }
+    })
+    .join(" | ");
+}
+
+function collectPaths(node: SchemaNode, prefix: string, paths: string[]) {
+  for (const { key, schema } of node.properties ?? []) {
+    const segment = stringifyPath([key]);
+    const path =
+      prefix === "" || segment.startsWith("[")
+        ? `${prefix}${segment}`
+        : `${prefix}.${segment}`;
+    paths.push(path);
+    collectPaths(schema, path, paths);
+  }
+  if (node.items !== undefined) {
+    const path = `${prefix}[*]`;
+    paths.push(path);
+    collectPaths(node.items, path, paths);
+  }
+}
+
+/**
+ * Infere o formato de um JSON sem documentação a partir de amostras, combinando-as em um único esquema:
+ * chaves ausentes em alguma amostra tornam-se opcionais, valores de tipos diferentes no mesmo caminho
+ * formam uniões (`null` indica um campo anulável) e os elementos de todos os arrays de um caminho são
+ * combinados em um único esquema de elementos.
+ *
+ * Os valores são descritos como `JSON.stringify` os escreveria: `Date` é uma string, `Map` um objeto,
+ * `Set` e typed arrays são arrays, e `undefined` e funções tornam a chave ausente (ou `null`, em arrays).
+ * Objetos compartilhados são descritos em cada caminho em que aparecem; em referências circulares,
+ * apenas o tipo da repetição (objeto ou array) é registrado.
+ *
+ * @param {unknown[]} amostras - Os valores de exemplo (ex: respostas de uma API, já analisadas por `JSON.parse`).
+ * @param {SafetyOptions} [opcoes] - Limites da travessia, compartilhados por todas as amostras, e tratamento de erros.
+ * @returns {InferredSchema} O esquema, com métodos para gerar JSON Schema, TypeScript e a lista de caminhos.
+ * @throws {TypeError} Se `amostras` não for um array.
+ * @throws {TraversalLimitError} Se `maxDepth` ou `maxNodes` for excedido com `onError: 'throw'`.
+ *
+ * @example
+ * const schema = inferSchema([
+ *   { id: 1, nome: 'Ana', tags: ['a'] },
+ *   { id: 2, nome: null, tags: [], email: 'bia@x.com' },
+ * ]);
+ *
+ * schema.paths(); // ['id', 'nome', 'tags', 'tags[*]', 'email']
+ * schema.toTypeScript('Usuario');
+ * // export interface Usuario {
+ * //   id: number;
+ * //   nome: string | null;
+ * //   tags: string[];
+ * //   email?: string;
+ * // }
+ * schema.toJsonSchema().required; // ['id', 'nome', 'tags']
+ */
+export function inferSchema(
+  samples: unknown[],
+  options: SafetyOptions = {}
+): InferredSchema {
+  if (!Array.isArray(samples)) {
+    throw new TypeError("inferSchema: amostras deve ser um array.");
+  }
+
+  const root = createBuilder();
+  const guard = createTraversalGuard("inferSchema", options);
+
+  for (const sample of samples) {
+    if (guard.stopped) {
+      break; // `maxNodes` excedido: esquema parcial
+    }
+    // O esquema que descreve cada contêiner expandido da amostra
+    const builders = new Map<object, SchemaBuilder>();
+    const record = (
+      builder: SchemaBuilder,
+      value: unknown,
+      expand: boolean
+    ) => {
+      const type = typeOf(value);
+      builder.types.add(type);
+      if (expand && (type === "object" || type === "array")) {
+        builders.set(value as object, builder);
+        if (type === "object") {
+          builder.objects++;
+        }
+      }
+    };
+
+    record(root, sample, true);
+    // Com `cycles: 'ancestors'`, objetos compartilhados são expandidos em cada caminho
+    const walk = walkEntries(sample, { cycles: "ancestors" }, guard);
+    for (const { key, value, parent, seen } of walk) {
+      const parentBuilder = builders.get(parent)!;
+      let builder: SchemaBuilder;
+      if (isArrayLike(parent)) {
+        builder = parentBuilder.items ??= createBuilder();
+      } else if (isAbsent(value)) {
+        continue;
+      } else {
+        const name = String(key);
+        let property = parentBuilder.properties.get(name);
+        if (property === undefined) {
+          property = { count: 0, schema: createBuilder() };
+          parentBuilder.properties.set(name, property);
+        }
+        property.count++;
+        builder = property.schema;
+      }
+      record(builder, value, !seen);
+    }
+  }
+
+  const node = finalize(root);
+
+  return {
+    root: node,
+
+    toJsonSchema() {
+      return { $schema: JSON_SCHEMA_DIALECT, ...toJsonSchema(node) };
+    },
+
+    toTypeScript(name = "Root") {
+      if (typeof name !== "string" || !IDENTIFIER.test(name)) {
+        throw new TypeError(
+          "toTypeScript: nome deve ser um identificador válido."
+        );
+      }
+      const isInterface =
+        node.types.length === 1 &&
+        node.types[0] === "object" &&
+        node.properties!.length > 0;
+      return isInterface
+        ? `export interface ${name} ${toObjectType(node.properties!, "")}\n`
+        : `export type ${name} = ${toTypeExpression(node, "")};\n`;
+    },
+
+    paths() {
+      const paths: string[] = [];
+      collectPaths(node, "", paths);
+      return paths;
+    },
+  };
+}
@@ -0,0 +1,513 @@
+import type { PathSegment, SafetyOptions } from "./types";
+import { parsePath } from "./utils/parsePath";
+import { stringifyPath } from "./utils/stringifyPath";
+import { createTraversalGuard } from "./utils/traversalGuard";
+
+/**
+ * Serialização de um tipo personalizado, usada por `deepStringify` e `deepParse`. O valor é gravado
+ * como `{ "$type": type, "value": dados }`; os dados podem conter outros valores (objetos, datas,
+ * `Map`...), serializados recursivamente.
+ *
+ * @template T O tipo tratado.
+ */
+export interface TypeHandler<T = unknown> {
+  /** Nome gravado em `$type`. Handlers com o nome `'Date'`, `'Map'` ou `'Set'` substituem os nativos. */
+  type: string;
+  /** Verifica se um valor é tratado por este handler. */
+  test(value: unknown): boolean;
+  /** Converte o valor nos dados gravados. */
+  serialize(value: T): unknown;
+  /** Reconstrói o valor a partir dos dados (já restaurados). */
+  deserialize(data: unknown): T;
+}
+
+/**
+ * Opções aceitas por `deepStringify`.
+ */
+export interface StringifyOptions extends SafetyOptions {
+  /**
+   * Ordena as chaves dos objetos, para uma saída estável (ex: hashes, snapshots, diffs de texto):
+   * `true` usa a ordem das unidades de código, como `Array.prototype.sort`; uma função define a ordem.
+   * Entradas de `Map` e membros de `Set` mantêm a ordem de inserção. Padrão: `false`.
+   */
+  sortKeys?: boolean | ((a: string, b: string) => number);
+  /** Indentação, como em `JSON.stringify`: número de espaços (até 10) ou a string usada. */
+  space?: string | number;
+  /** Handlers de tipos personalizados, consultados antes dos nativos (`Date`, `Map` e `Set`). */
+  types?: readonly TypeHandler[];
+}
+
+/**
+ * Opções aceitas por `deepParse`.
+ */
+export interface ParseOptions {
+  /** Handlers dos tipos personalizados usados em `deepStringify`, procurados pelo nome em `$type`. */
+  types?: readonly TypeHandler[];
+}
+
+const DATE_HANDLER: TypeHandler<Date> = {
+  type: "Date",
+  test: (value) => Object.prototype.toString.call(value) === "[object Date]",
+  serialize: (date) => (isNaN(date.getTime()) ? null : date.toISOString()),
+  deserialize: (data) => new Date(data === null ? NaN : (data as string)),
+};
+
+/** Chaves que o usuário pode ter gravado e que colidiriam com `$ref`/`$type` recebem um `$` a mais. */
+const escapeKey = (key: string): string => (key[0] === "$" ? `$${key}` : key);
+
+const unescapeKey = (key: string): string =>
+  key.startsWith("$$") ? key.slice(1) : key;
+
+/** Chaves de `Map` que podem aparecer em um caminho: strings e índices inteiros. */
+const isPathKey = (key: unknown): key is string | number =>
+  typeof key === "string" || Number.isInteger(key);
+
+const compareCodeUnits = (a: string, b: string): number =>
+  a < b ? -1 : a > b ? 1 : 0;
+
+/** Define uma propriedade própria, sem acionar o setter de `__proto__` (como `JSON.parse`). */
+function defineKey(
+  target: Record<string, unknown>,
+  key: string,
+  value: unknown
+): void {
+  Object.defineProperty(target, key, {
+    value,
+    enumerable: true,
+    writable: true,
+    configurable: true,
+  });
+}
+
+/**
+ * Serializa um valor em JSON, como `JSON.stringify`, mas sem falhar em referências circulares: cada objeto
+ * é escrito uma única vez, e as demais ocorrências (compartilhadas ou circulares) viram
+ * `{ "$ref": caminho }`, com o caminho da primeira ocorrência no formato de `stringifyPath` (`''` para a
+ * raiz). Objetos cuja primeira ocorrência não tem caminho (chaves de `Map` e dados de tipos
+ * personalizados) são referenciados pela ordem em que foram escritos entre eles: `{ "$ref": 0 }` é o
+ * primeiro. `deepParse` restaura as referências originais.
+ *
+ * Além do JSON comum:
+ * - `Date`, `Map` e `Set` são gravados como `{ "$type": "Date" | "Map" | "Set", "value": ... }` (datas em ISO,
+ *   `Map` como pares `[chave, valor]`, `Set` como array), e tipos personalizados com `types`;
+ * - chaves de objetos que começam com `$` recebem um `$` a mais (`$set` vira `$$set`), para não serem
+ *   confundidas com `$ref` e `$type`.
+ *
+ * Como em `JSON.stringify`: `toJSON` é respeitado; `undefined`, funções e símbolos são omitidos em objetos
+ * e viram `null` em arrays (e na raiz); `NaN` e `Infinity` viram `null`; chaves `symbol` são ignoradas.
+ *
+ * @param {unknown} value - O valor a ser serializado.
+ * @param {StringifyOptions} [opcoes] - Ordenação de chaves, indentação, tipos personalizados e os limites de
+ *   `SafetyOptions` (valores além dos limites são omitidos, como `undefined`).
+ * @returns {string} O texto JSON.
+ * @throws {TypeError} Para `BigInt` ou para uma referência circular que passa pelos dados de um tipo
+ *   personalizado, que não pode ser representada (o valor só existe depois de reconstruído).
+ * @throws {CallbackError} Se um handler lançar uma exceção, com `onError: 'throw'`. Com `'collect'` ou
+ *   `'ignore'`, o valor é serializado pelas regras padrão.
+ * @throws {TraversalLimitError} Se `maxDepth` ou `maxNodes` for excedido com `onError: 'throw'`.
+ *
+ * @example
+ * const obj: any = { nome: 'raiz', itens: [{ id: 1 }] };
+ * obj.self = obj;
+ * obj.primeiro = obj.itens[0];
+ *
+ * deepStringify(obj);
+ * // '{"nome":"raiz","itens":[{"id":1}],"self":{"$ref":""},"primeiro":{"$ref":"itens[0]"}}'
+ * deepStringify({ b: 1, a: new Date(0) }, { sortKeys: true });
+ * // '{"a":{"$type":"Date","value":"1970-01-01T00:00:00.000Z"},"b":1}'
+ */
+export function deepStringify(
+  value: unknown,
+  options: StringifyOptions = {}
+): string {
+  const { sortKeys = false, space, types = [] } = options;
+  const guard = createTraversalGuard("deepStringify", options);
+  const handlers = [...types, DATE_HANDLER];
+  const indent =
+    typeof space === "number"
+      ? " ".repeat(Math.max(0, Math.min(10, Math.floor(space))))
+      : (space ?? "").slice(0, 10);
+  const colon = indent === "" ? ":" : ": ";
+  const compareKeys =
+    typeof sortKeys === "function"
+      ? sortKeys
+      : sortKeys
+      ? compareCodeUnits
+      : undefined;
+  // Objeto -> caminho da primeira ocorrência, ou número de ordem se ela não for endereçável
+  const written = new Map<object, string | number>();
+  let unaddressed = 0;
+  const ancestors = new Set<object>();
+
+  const wrap = (
+    open: string,
+    close: string,
+    items: string[],
+    level: number
+  ): string => {
+    if (items.length === 0) {
+      return open + close;
+    }
+    if (indent === "") {
+      return open + items.join(",") + close;
+    }
+    const inner = `\n${indent.repeat(level + 1)}`;
+    return `${open}${inner}${items.join(`,${inner}`)}\n${indent.repeat(
+      level
+    )}${close}`;
+  };
+
+  const property = (key: string, text: string) =>
+    `${JSON.stringify(key)}${colon}${text}`;
+
+  /**
+   * Escreve um valor no nível de indentação `level`, ou retorna `undefined` se ele deve ser omitido.
+   * Valores em posições que não podem ser endereçadas por um caminho (`addressable` falso, como chaves
+   * de `Map`) são registrados pela ordem em que são escritos: as repetições viram `{ "$ref": número }`.
+   */
+  const write = (
+    input: unknown,
+    key: string,
+    path: PathSegment[],
+    addressable: boolean,
+    level: number
+  ): string | undefined => {
+    if (input !== null && typeof input === "object") {
+      const target = written.get(input);
+      if (target !== undefined) {
+        return wrap(
+          "{",
+          "}",
+          [property("$ref", JSON.stringify(target))],
+          level
+        );
+      }
+      if (ancestors.has(input)) {
+        throw new TypeError(
+          `deepStringify: referência circular em "${stringifyPath(
+            path
+          )}" não pode ser representada.`
+        );
+      }
+
+      const custom = guard.call(path, undefined, () => {
+        const handler = handlers.find((candidate) => candidate.test(input));
+        return (
+          handler && { type: handler.type, data: handler.serialize(input) }
+        );
+      });
+      if (custom !== undefined) {
+        // Os dados não são endereçáveis: o valor só é registrado depois deles
+        ancestors.add(input);
+        const data = write(custom.data, "value", path, false, level + 1);
+        ancestors.delete(input);
+        written.set(input, addressable ? stringifyPath(path) : unaddressed++);
+        return wrap(
+          "{",
+          "}",
+          [
+            property("$type", JSON.stringify(custom.type)),
+            property("value", data ?? "null"),
+          ],
+          level
+        );
+      }
+    }
+
+    if (
+      input !== null &&
+      (typeof input === "object" || typeof input === "function") &&
+      typeof (input as { toJSON?: unknown }).toJSON === "function"
+    ) {
+      input = (input as { toJSON(key: string): unknown }).toJSON(key);
+    }
+
+    switch (typeof input) {
+      case "string":
+        return JSON.stringify(input);
+      case "number":
+        return isFinite(input) ? String(input) : "null";
+      case "boolean":
+        return String(input);
+      case "bigint":
+        throw new TypeError(
+          `deepStringify: BigInt em "${stringifyPath(
+            path
+          )}" não pode ser serializado.`
+        );
+      case "object":
+        if (input === null) {
+          return "null";
+        }
+        break;
+      default:
+        return undefined; // `undefined`, funções e símbolos
+    }
+
+    const node = input as object;
+    if (written.has(node) || ancestors.has(node)) {
+      return write(node, key, path, addressable, level); // Objeto retornado por `toJSON` já escrito
+    }
+    written.set(node, addressable ? stringifyPath(path) : unaddressed++);
+    ancestors.add(node);
+    // Cada filho passa pelos limites; os que excedem são omitidos
+    const child = (
+      childValue: unknown,
+      childKey: string,
+      childPath: PathSegment[],
+      childAddressable: boolean,
+      childLevel: number
+    ) =>
+      guard.visit(childPath, childPath.length)
+        ? write(childValue, childKey, childPath, childAddressable, childLevel)
+        : undefined;
+
+    let text: string;
+    if (node instanceof Map) {
+      const entries: string[] = [];
+      node.forEach((entryValue, entryKey) => {
+        const entryPath = [...path, isPathKey(entryKey) ? entryKey : "(chave)"];
+        entries.push(
+          wrap(
+            "[",
+            "]",
+            [
+              child(entryKey, "0", entryPath, false, level + 3) ?? "null",
+              child(
+                entryValue,
+                "1",
+                entryPath,
+                addressable && isPathKey(entryKey),
+                level + 3
+              ) ?? "null",
+            ],
+            level + 2
+          )
+        );
+      });
+      text = wrap(
+        "{",
+        "}",
+        [
+          property("$type", '"Map"'),
+          property("value", wrap("[", "]", entries, level + 1)),
+        ],
+        level
+      );
+    } else if (node instanceof Set) {
+      const members = [...node].map(
+        (member, index) =>
+          child(
+            member,
+            String(index),
+            [...path, index],
+            addressable,
+            level + 2
+          ) ?? "null"
+      );
+      text = wrap(
+        "{",
+        "}",
+        [
+          property("$type", '"Set"'),
+          property("value", wrap("[", "]", members, level + 1)),
+        ],
+        level
+      );
+    } else if (Array.isArray(node)) {
+      text = wrap(
+        "[",
+        "]",
+        // Array.from visita os buracos de arrays esparsos, escritos como null (como em JSON.stringify)
+        Array.from(
+          node,
+          (item, index) =>
+            child(
+              item,
+              String(index),
+              [...path, index],
+              addressable,
+              level + 1
+            ) ?? "null"
+        ),
+        level
+      );
+    } else {
+      const keys = Object.keys(node);
+      if (compareKeys) {
+        keys.sort(compareKeys);
+      }
+      const properties: string[] = [];
+      for (const name of keys) {
+        const propertyText = child(
+          (node as Record<string, unknown>)[name],
+          name,
+          [...path, name],
+          addressable,
+          level + 1
+        );
+        if (propertyText !== undefined) {
+          properties.push(property(escapeKey(name), propertyText));
+        }
+      }
+      text = wrap("{", "}", properties, level);
+    }
+    ancestors.delete(node);
+    return text;
+  };
+
+  return write(value, "", [], true, 0) ?? "null";
+}
+
+/**
+ * Converte um texto gerado por `deepStringify` de volta em valores, restaurando as referências
+ * compartilhadas e circulares (`{ "$ref": caminho }` e `{ "$ref": número }` apontam para o mesmo objeto
+ * da primeira ocorrência),
+ * as datas, `Map` e `Set`, os tipos personalizados e as chaves que começam com `$`. Também aceita JSON
+ * comum. Como em `JSON.parse`, chaves `__proto__` são criadas como propriedades próprias.
+ *
+ * @template T O tipo esperado do resultado.
+ * @param {string} text - O texto JSON.
+ * @param {ParseOptions} [opcoes] - Handlers dos tipos personalizados.
+ * @returns {T} O valor restaurado.
+ * @throws {SyntaxError} Se o texto não for JSON válido ou um `$ref` apontar para um caminho ainda não lido.
+ * @throws {TypeError} Se um `$type` não tiver handler.
+ * @throws {PathSyntaxError} Se o caminho de um `$ref` for malformado.
+ *
+ * @example
+ * const copia = deepParse<any>(deepStringify(obj));
+ * copia.self === copia; // true
+ * copia.primeiro === copia.itens[0]; // true
+ */
+export function deepParse<T = unknown>(
+  text: string,
+  options: ParseOptions = {}
+): T {
+  const { types = [] } = options;
+  const registry = new Map<string, unknown>(); // Caminho -> objeto restaurado
+  const unaddressed: unknown[] = []; // Objetos sem caminho, na ordem de `deepStringify`
+  const register = <V>(path: PathSegment[], addressable: boolean, value: V) => {
+    if (addressable) {
+      registry.set(stringifyPath(path), value);
+    } else {
+      unaddressed.push(value);
+    }
+    return value;
+  };
+
+  const revive = (
+    node: unknown,
+    path: PathSegment[],
+    addressable: boolean
+  ): unknown => {
+    if (node === null || typeof node !== "object") {
+      return node;
+    }
+    if (Array.isArray(node)) {
+      const result = register(path, addressable, [] as unknown[]);
+      node.forEach((item, index) => {
+        result.push(revive(item, [...path, index], addressable));
+      });
+      return result;
+    }
+
+    const record = node as Record<string, unknown>;
+    const keys = Object.keys(record);
+    if (
+      keys.length === 1 &&
+      keys[0] === "$ref" &&
+      typeof record.$ref === "number"
+    ) {
+      // Referência a um valor sem caminho (ex: chave de `Map`), pela ordem de leitura
+      if (!Object.prototype.hasOwnProperty.call(unaddressed, record.$ref)) {
+        throw new SyntaxError(
+          `deepParse: referência ${record.$ref} em "${stringifyPath(
+            path
+          )}" não aponta para um valor já lido.`
+        );
+      }
+      return unaddressed[record.$ref];
+    }
+    if (
+      keys.length === 1 &&
+      keys[0] === "$ref" &&
+      typeof record.$ref === "string"
+    ) {
+      // Normaliza o caminho, aceitando qualquer grafia aceita por `parsePath`
+      const target = stringifyPath(parsePath(record.$ref));
+      if (!registry.has(target)) {
+        throw new SyntaxError(
+          `deepParse: referência "${record.$ref}" em "${stringifyPath(
+            path
+          )}" não aponta para um valor já lido.`
+        );
+      }
+      return registry.get(target);
+    }
+
+    if (
+      keys.length === 2 &&
+      typeof record.$type === "string" &&
+      "value" in record
+    ) {
+      const { $type: type, value } = record;
+      const handler =
+        types.find((candidate) => candidate.type === type) ??
+        (type === "Date" ? DATE_HANDLER : undefined);
+      if (handler !== undefined) {
+        return register(
+          path,
+          addressable,
+          handler.deserialize(revive(value, path, false))
+        );
+      }
+      if ((type === "Map" || type === "Set") && Array.isArray(value)) {
+        if (type === "Set") {
+          const set = register(path, addressable, new Set<unknown>());
+          value.forEach((member, index) => {
+            set.add(revive(member, [...path, index], addressable));
+          });
+          return set;
+        }
+        const map = register(path, addressable, new Map<unknown, unknown>());
+        for (const entry of value) {
+          if (!Array.isArray(entry) || entry.length !== 2) {
+            throw new SyntaxError(
+              `deepParse: entradas de Map em "${stringifyPath(
+                path
+              )}" devem ser pares [chave, valor].`
+            );
+          }
+          const entryKey = revive(entry[0], path, false);
+          const entryPath = [
+            ...path,
+            isPathKey(entryKey) ? entryKey : "(chave)",
+          ];
+          map.set(
+            entryKey,
+            revive(entry[1], entryPath, addressable && isPathKey(entryKey))
+          );
+        }
+        return map;
+      }
+      throw new TypeError(
+        `deepParse: tipo "${type}" desconhecido em "${stringifyPath(
+          path
+        )}"; informe um handler em types.`
+      );
+    }
+
+    const result = register(path, addressable, {} as Record<string, unknown>);
+    for (const key of keys) {
+      const name = unescapeKey(key);
+      defineKey(
+        result,
+        name,
+        revive(record[key], [...path, name], addressable)
+      );
+    }
+    return result;
+  };
+
+  return revive(JSON.parse(text), [], true) as T;
+}
@@ -0,0 +1,541 @@
+import type {
+  ObjectPath,
+  PathSecurityOptions,
+  PathSegment,
+  PathValue,
+  ValidPath,
+} from "./types";
+import { toPathSegments } from "./utils/parsePath";
+import { checkPathSecurity } from "./utils/pathSecurity";
+import { getChild, resolveMapKey } from "./utils/resolvePath";
+
+type Container = Record<PathSegment, unknown>;
+
+/**
+ * Tipo aceito para o valor escrito em `P`: o tipo do caminho quando ele é conhecido, ou `unknown`
+ * para caminhos não verificados, caminhos vazios (rejeitados em tempo de execução) e raízes sem
+ * tipo (ex: `null`).
+ */
+type WritableValue<T, P> = ValueAt<[T][T extends unknown ? 0 : never], P>; // Não infere `T` a partir do valor
+
+type ValueAt<T, P> = [T] extends [object]
+  ? P extends "" | readonly []
+    ? unknown
+    : unknown extends PathValue<T, P>
+    ? unknown
+    : PathValue<T, P>
+  : unknown;
+
+/**
+ * Verifica se um valor pode conter propriedades aninhadas (objeto ou array não nulo).
+ */
+function isContainer(value: unknown): value is Container {
+  return value !== null && typeof value === "object";
+}
+
+/**
+ * Verifica se um segmento representa um índice de array (inteiro não negativo).
+ */
+function isIndexSegment(segment: PathSegment): boolean {
+  if (typeof segment === "number") {
+    return Number.isInteger(segment) && segment >= 0;
+  }
+  return typeof segment === "string" && /^(?:0|[1-9]\d*)$/.test(segment);
+}
+
+/**
+ * Cria o contêiner intermediário adequado para o próximo segmento:
+ * um array se o segmento for um índice, caso contrário um objeto.
+ */
+function createContainer(nextSegment: PathSegment): Container {
+  return (isIndexSegment(nextSegment) ? [] : {}) as unknown as Container;
+}
+
+/**
+ * Cria uma cópia rasa de um objeto, array, `Map`, `Set`, typed array, `Date` ou `RegExp`,
+ * preservando o protótipo de objetos.
+ */
+function shallowCopy(value: Container): Container {
+  if (Array.isArray(value)) {
+    return value.slice() as unknown as Container;
+  }
+  if (value instanceof Map) {
+    return new Map(value) as unknown as Container;
+  }
+  if (value instanceof Set) {
+    return new Set(value) as unknown as Container;
+  }
+  if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+    return (value as unknown as Uint8Array).slice() as unknown as Container;
+  }
+  // Tipos nativos são identificados pela tag, como em `deepClone`
+  switch (Object.prototype.toString.call(value)) {
+    case "[object Date]":
+      return Object.assign(
+        new Date((value as unknown as Date).getTime()),
+        value
+      );
+    case "[object RegExp]": {
+      const regex = value as unknown as RegExp;
+      return Object.assign(new RegExp(regex.source, regex.flags), value);
+    }
+  }
+  return Object.assign(Object.create(Object.getPrototypeOf(value)), value);
+}
+
+/**
+ * Converte índices negativos de arrays e typed arrays em índices absolutos (`-1` é o último elemento),
+ * como em `deepGet`.
+ */
+function normalizeKey(container: Container, key: PathSegment): PathSegment {
+  if (
+    (Array.isArray(container) || ArrayBuffer.isView(container)) &&
+    typeof key === "number" &&
+    key < 0
+  ) {
+    return (container as unknown as ArrayLike<unknown>).length + key;
+  }
+  return key;
+}
+
+/**
+ * Posição do membro de um `Set` indicada pelo segmento, como em `deepGet` (negativos contam a partir
+ * do fim), ou `-1` se o segmento não for um índice.
+ */
+function setPosition(set: Set<unknown>, key: PathSegment): number {
+  if (typeof key === "symbol" || !/^-?(?:0|[1-9]\d*)$/.test(String(key))) {
+    return -1;
+  }
+  const index = Number(key);
+  return index < 0 ? Math.max(set.size + index, -1) : index;
+}
+
+/**
+ * Substitui o conteúdo de um `Set` pelos membros informados, preservando a ordem de inserção.
+ */
+function replaceMembers(set: Set<unknown>, members: unknown[]): void {
+  set.clear();
+  for (const member of members) {
+    set.add(member);
+  }
+}
+
+/**
+ * Verifica se o contêiner possui a chave como propriedade própria (ou entrada, no caso de `Map`, e
+ * posição, no caso de `Set`).
+ */
+function hasKey(container: Container, key: PathSegment): boolean {
+  if (container instanceof Map) {
+    return container.has(resolveMapKey(container, key));
+  }
+  if (container instanceof Set) {
+    const index = setPosition(container, key);
+    return index >= 0 && index < container.size;
+  }
+  return Object.prototype.hasOwnProperty.call(
+    container,
+    normalizeKey(container, key)
+  );
+}
+
+/**
+ * Escreve uma chave em um contêiner, usando `set` para `Map`. Em um `Set`, substitui o membro na
+ * posição indicada (ou acrescenta um membro, na posição seguinte ao último).
+ * @throws {TypeError} Se o segmento não for uma posição existente do `Set` nem a seguinte ao último,
+ *   se o valor já for membro do `Set` em outra posição (o `Set` perderia uma posição) ou se um índice
+ *   negativo ultrapassar o início do array.
+ */
+function writeKey(
+  fnName: string,
+  container: Container,
+  key: PathSegment,
+  value: unknown
+): void {
+  if (container instanceof Map) {
+    container.set(resolveMapKey(container, key), value);
+  } else if (container instanceof Set) {
+    const index = setPosition(container, key);
+    if (index < 0 || index > container.size) {
+      throw new TypeError(
+        `${fnName}: "${String(key)}" não é uma posição válida do Set (tamanho ${
+          container.size
+        }).`
+      );
+    }
+    const members = [...container];
+    const current = members.findIndex(
+      (member) =>
+        member === value || (Number.isNaN(member) && Number.isNaN(value))
+    );
+    if (current !== -1 && current !== index) {
+      throw new TypeError(
+        `${fnName}: o valor já é membro do Set na posição ${current}.`
+      );
+    }
+    members[index] = value;
+    replaceMembers(container, members);
+  } else {
+    const normalized = normalizeKey(container, key);
+    if (typeof normalized === "number" && normalized < 0) {
+      throw new TypeError(
+        `${fnName}: o índice ${String(
+          key
+        )} ultrapassa o início do array (tamanho ${
+          (container as unknown as ArrayLike<unknown>).length
+        }).`
+      );
+    }
+    container[normalized] = value;
+  }
+}
+
+/**
+ * Remove uma chave de um contêiner. Índices de array são removidos com `splice`
+ * para não deixar buracos no array.
+ */
+function removeKey(container: Container, key: PathSegment): void {
+  if (container instanceof Map) {
+    container.delete(resolveMapKey(container, key));
+    return;
+  }
+  if (container instanceof Set) {
+    const members = [...container];
+    members.splice(setPosition(container, key), 1);
+    replaceMembers(container, members);
+    return;
+  }
+  const normalized = normalizeKey(container, key);
+  if (Array.isArray(container) && isIndexSegment(normalized)) {
+    container.splice(Number(normalized), 1);
+  } else {
+    delete container[normalized];
+  }
+}
+
+/**
+ * Normaliza e valida o caminho de uma operação de escrita. Segmentos que alcançam protótipos são
+ * recusados por padrão; retorna `undefined` se o caminho deve ser ignorado (`unsafeSegments: 'ignore'`).
+ */
+function toWritablePath(
+  fnName: string,
+  path: unknown,
+  options: PathSecurityOptions
+): PathSegment[] | undefined {
+  const segments = toPathSegments(path as ObjectPath);
+  if (segments.length === 0) {
+    throw new TypeError(`${fnName}: caminho deve ser não vazio.`);
+  }
+  return checkPathSecurity(fnName, segments, options, "reject")
+    ? segments
+    : undefined;
+}
+
+/**
+ * Lê o valor em um caminho já normalizado, retornando `undefined` se não existir.
+ */
+function readSegments(obj: unknown, segments: PathSegment[]): unknown {
+  let current: unknown = obj;
+  for (const segment of segments) {
+    if (!isContainer(current)) {
+      return undefined;
+    }
+    current = getChild(current, segment);
+  }
+  return current;
+}
+
+/**
+ * Escreve `value` ao fim de `segments`, criando os contêineres intermediários ausentes.
+ */
+function setSegments<T>(
+  fnName: string,
+  obj: T,
+  segments: PathSegment[],
+  value: unknown
+): T {
+  if (!isContainer(obj)) {
+    throw new TypeError(`${fnName}: obj deve ser um objeto ou array.`);
+  }
+
+  let current: Container = obj;
+  for (let i = 0; i < segments.length - 1; i++) {
+    const key = segments[i];
+    let next = getChild(current, key);
+    if (!isContainer(next)) {
+      next = createContainer(segments[i + 1]);
+      writeKey(fnName, current, key, next);
+    }
+    current = next as Container;
+  }
+  writeKey(fnName, current, segments[segments.length - 1], value);
+
+  return obj;
+}
+
+/**
+ * Define o valor em um caminho específico, **mutando** o objeto de entrada.
+ * Objetos ou arrays intermediários ausentes são criados de acordo com o próximo segmento:
+ * um array se o segmento for um índice (ex: `[0]` ou `.0`), caso contrário um objeto.
+ * Valores intermediários primitivos são substituídos. Assim como em `deepGet`, entradas de `Map`
+ * são escritas com `set`, membros de `Set` são substituídos pela posição (mantendo a ordem de inserção;
+ * a posição seguinte ao último membro acrescenta um membro) e índices negativos contam a partir do fim
+ * do array, typed array ou `Set`. Como um `Set` não tem membros repetidos, escrever um valor que já é
+ * membro em outra posição lança `TypeError`, assim como índices negativos além do início do array.
+ *
+ * Como em `deepGet`, caminhos literais são verificados contra o tipo de `obj` e `value` deve ter o
+ * tipo do caminho (`PathValue<T, P>`). Para criar chaves que ainda não existem no tipo, use um caminho
+ * dinâmico ou um objeto sem tipo.
+ *
+ * Caminhos com `__proto__`, `constructor` ou `prototype` lançam `UnsafePathError`, evitando poluição
+ * de protótipos com caminhos vindos do usuário (veja `PathSecurityOptions`).
+ *
+ * @template T O tipo do objeto raiz.
+ * @param {T} obj - O objeto ou array a ser modificado.
+ * @param {ValidPath<T, P>} path - O caminho onde o valor será definido. Aceita as mesmas formas de `deepGet`.
+ * @param {PathValue<T, P>} value - O valor a ser definido.
+ * @param {PathSecurityOptions} [opcoes] - Tratamento de segmentos inseguros e chaves raiz permitidas.
+ * @returns {T} O próprio `obj`, já modificado (ou inalterado, se o caminho for ignorado).
+ * @throws {TypeError} Se `obj` não for um objeto/array, se o caminho for vazio ou se a posição não
+ *   puder ser escrita (índice negativo além do início do array, posição inválida ou valor repetido em `Set`).
+ * @throws {UnsafePathError} Se o caminho for recusado pelas opções de segurança.
+ *
+ * @example
+ * const meuObj = { a: {} };
+ * deepSet(meuObj, 'a.b[0].c', 1); // { a: { b: [ { c: 1 } ] } }
+ * deepSet(meuObj, ['a', 'chave com.ponto'], 2); // { a: { b: [...], 'chave com.ponto': 2 } }
+ */
+export function deepSet<T, const P extends ObjectPath = ObjectPath>(
+  obj: T,
+  path: ValidPath<T, P>,
+  value: WritableValue<T, P>,
+  options: PathSecurityOptions = {}
+): T {
+  const segments = toWritablePath("deepSet", path, options);
+  return segments ? setSegments("deepSet", obj, segments, value) : obj;
+}
+
+/**
+ * Remove a propriedade em um caminho específico, **mutando** o objeto de entrada.
+ * Quando o último segmento é um índice de array, o elemento é removido com `splice`.
+ *
+ * @param {T} obj - O objeto ou array a ser modificado.
+ * @param {ValidPath<T, P>} path - O caminho da propriedade a ser removida.
+ * @param {PathSecurityOptions} [opcoes] - Tratamento de segmentos inseguros e chaves raiz permitidas.
+ * @returns {boolean} `true` se a propriedade existia e foi removida, `false` caso contrário.
+ * @throws {TypeError} Se o caminho for vazio.
+ * @throws {UnsafePathError} Se o caminho for recusado pelas opções de segurança.
+ *
+ * @example
+ * const meuObj = { a: { b: [1, 2, 3] } };
+ * deepUnset(meuObj, 'a.b[1]'); // true, meuObj.a.b é [1, 3]
+ * deepUnset(meuObj, 'a.x'); // false
+ */
+export function deepUnset<T, const P extends ObjectPath = ObjectPath>(
+  obj: T,
+  path: ValidPath<T, P>,
+  options: PathSecurityOptions = {}
+): boolean {
+  const segments = toWritablePath("deepUnset", path, options);
+  if (!segments) {
+    return false;
+  }
+  const parent = readSegments(obj, segments.slice(0, -1));
+  const key = segments[segments.length - 1];
+
+  if (!isContainer(parent) || !hasKey(parent, key)) {
+    return false;
+  }
+  removeKey(parent, key);
+  return true;
+}
+
+/**
+ * Atualiza o valor em um caminho específico aplicando uma função ao valor atual,
+ * **mutando** o objeto de entrada. Equivale a `deepSet(obj, path, fn(deepGet(obj, path)))`.
+ *
+ * @template T O tipo do objeto raiz.
+ * @param {T} obj - O objeto ou array a ser modificado.
+ * @param {ValidPath<T, P>} path - O caminho do valor a ser atualizado.
+ * @param {(current: PathValue<T, P>) => PathValue<T, P>} fn - Recebe o valor atual (ou `undefined`) e retorna o novo valor.
+ * @param {PathSecurityOptions} [opcoes] - Tratamento de segmentos inseguros e chaves raiz permitidas.
+ * @returns {T} O próprio `obj`, já modificado.
+ * @throws {TypeError} Se `obj` não for um objeto/array, se o caminho for vazio ou se `fn` não for uma função.
+ * @throws {UnsafePathError} Se o caminho for recusado pelas opções de segurança.
+ *
+ * @example
+ * const contador = { stats: { visitas: 1 } };
+ * deepUpdate(contador, 'stats.visitas', (n) => (n as number) + 1); // { stats: { visitas: 2 } }
+ */
+export function deepUpdate<T, const P extends ObjectPath = ObjectPath>(
+  obj: T,
+  path: ValidPath<T, P>,
+  fn: (current: WritableValue<T, P>) => WritableValue<T, P>,
+  options: PathSecurityOptions = {}
+): T {
+  if (typeof fn !== "function") {
+    throw new TypeError("deepUpdate: fn deve ser uma função.");
+  }
+  const segments = toWritablePath("deepUpdate", path, options);
+  if (!segments) {
+    return obj;
+  }
+  return setSegments(
+    "deepUpdate",
+    obj,
+    segments,
+    fn(readSegments(obj, segments) as WritableValue<T, P>)
+  );
+}
+
+function setInCopy(
+  fnName: string,
+  node: unknown,
+  segments: PathSegment[],
+  index: number,
+  value: unknown
+): unknown {
+  if (index === segments.length) {
+    return value;
+  }
+
+  const key = segments[index];
+  const child = isContainer(node) ? getChild(node, key) : undefined;
+  const newChild = setInCopy(fnName, child, segments, index + 1, value);
+
+  // Compartilhamento estrutural: nada mudou, então o nó original é reaproveitado
+  if (isContainer(node) && Object.is(child, newChild) && hasKey(node, key)) {
+    return node;
+  }
+
+  const copy = isContainer(node) ? shallowCopy(node) : createContainer(key);
+  writeKey(fnName, copy, key, newChild);
+  return copy;
+}
+
+function unsetInCopy(
+  fnName: string,
+  node: unknown,
+  segments: PathSegment[],
+  index: number
+): unknown {
+  const key = segments[index];
+  if (!isContainer(node) || !hasKey(node, key)) {
+    return node;
+  }
+
+  const copy = shallowCopy(node);
+  if (index === segments.length - 1) {
+    removeKey(copy, key);
+    return copy;
+  }
+
+  const child = getChild(node, key);
+  const newChild = unsetInCopy(fnName, child, segments, index + 1);
+  if (newChild === child) {
+    return node;
+  }
+  writeKey(fnName, copy, key, newChild);
+  return copy;
+}
+
+/**
+ * Versão imutável de `deepSet`: retorna uma nova estrutura com o valor definido no caminho,
+ * sem modificar a entrada. Apenas os contêineres ao longo do caminho são copiados
+ * (compartilhamento estrutural); todos os outros ramos são reaproveitados por referência.
+ * Se o valor já for idêntico (`Object.is`), a própria entrada é retornada.
+ *
+ * @template T O tipo do objeto raiz.
+ * @param {T} obj - O objeto ou array de origem. `null`/`undefined` são tratados como um contêiner vazio.
+ * @param {ValidPath<T, P>} path - O caminho onde o valor será definido.
+ * @param {PathValue<T, P>} value - O valor a ser definido.
+ * @param {PathSecurityOptions} [opcoes] - Tratamento de segmentos inseguros e chaves raiz permitidas.
+ * @returns {T} Uma nova estrutura contendo o valor definido, ou `obj` se o caminho for ignorado.
+ * @throws {TypeError} Se o caminho for vazio.
+ * @throws {UnsafePathError} Se o caminho for recusado pelas opções de segurança.
+ *
+ * @example
+ * const estado = { user: { name: 'Ana' }, items: [] };
+ * const novo = deepSetImmutable(estado, 'user.name', 'Bia');
+ * novo.user.name; // 'Bia'
+ * estado.user.name; // 'Ana'
+ * novo.items === estado.items; // true
+ */
+export function deepSetImmutable<T, const P extends ObjectPath = ObjectPath>(
+  obj: T,
+  path: ValidPath<T, P>,
+  value: WritableValue<T, P>,
+  options: PathSecurityOptions = {}
+): T {
+  const segments = toWritablePath("deepSetImmutable", path, options);
+  return segments
+    ? (setInCopy("deepSetImmutable", obj, segments, 0, value) as T)
+    : obj;
+}
+
+/**
+ * Versão imutável de `deepUnset`: retorna uma nova estrutura sem a propriedade no caminho,
+ * copiando apenas os contêineres ao longo do caminho. Se o caminho não existir,
+ * a própria entrada é retornada.
+ *
+ * @template T O tipo do objeto raiz.
+ * @param {T} obj - O objeto ou array de origem.
+ * @param {ValidPath<T, P>} path - O caminho da propriedade a ser removida.
+ * @param {PathSecurityOptions} [opcoes] - Tratamento de segmentos inseguros e chaves raiz permitidas.
+ * @returns {T} Uma nova estrutura sem a propriedade, ou `obj` se nada foi removido.
+ * @throws {TypeError} Se o caminho for vazio.
+ * @throws {UnsafePathError} Se o caminho for recusado pelas opções de segurança.
+ *
+ * @example
+ * const estado = { a: { b: 1, c: 2 } };
+ * deepUnsetImmutable(estado, 'a.b'); // { a: { c: 2 } }
+ * deepUnsetImmutable(estado, 'a.x') === estado; // true
+ */
+export function deepUnsetImmutable<T, const P extends ObjectPath = ObjectPath>(
+  obj: T,
+  path: ValidPath<T, P>,
+  options: PathSecurityOptions = {}
+): T {
+  const segments = toWritablePath("deepUnsetImmutable", path, options);
+  return segments
+    ? (unsetInCopy("deepUnsetImmutable", obj, segments, 0) as T)
+    : obj;
+}
+
+/**
+ * Versão imutável de `deepUpdate`: aplica `fn` ao valor atual no caminho e retorna
+ * uma nova estrutura com o resultado, usando compartilhamento estrutural.
+ *
+ * @template T O tipo do objeto raiz.
+ * @param {T} obj - O objeto ou array de origem.
+ * @param {ValidPath<T, P>} path - O caminho do valor a ser atualizado.
+ * @param {(current: PathValue<T, P>) => PathValue<T, P>} fn - Recebe o valor atual (ou `undefined`) e retorna o novo valor.
+ * @param {PathSecurityOptions} [opcoes] - Tratamento de segmentos inseguros e chaves raiz permitidas.
+ * @returns {T} Uma nova estrutura com o valor atualizado, ou `obj` se o caminho for ignorado.
+ * @throws {TypeError} Se o caminho for vazio ou se `fn` não for uma função.
+ * @throws {UnsafePathError} Se o caminho for recusado pelas opções de segurança.
+ *
+ * @example
+ * const estado = { todos: [{ done: false }] };
+ * deepUpdateImmutable(estado, 'todos[0].done', (d) => !d); // { todos: [{ done: true }] }
+ */
+export function deepUpdateImmutable<T, const P extends ObjectPath = ObjectPath>(
+  obj: T,
+  path: ValidPath<T, P>,
+  fn: (current: WritableValue<T, P>) => WritableValue<T, P>,
+  options: PathSecurityOptions = {}
+): T {
+  if (typeof fn !== "function") {
+    throw new TypeError("deepUpdateImmutable: fn deve ser uma função.");
+  }
+  const segments = toWritablePath("deepUpdateImmutable", path, options);
+  if (!segments) {
+    return obj;
+  }
+  return setInCopy(
+    "deepUpdateImmutable",
+    obj,
+    segments,
+    0,
+    fn(readSegments(obj, segments) as WritableValue<T, P>)
+  ) as T;
+}
@@ -0,0 +1,332 @@
+import { StringDecoder } from "string_decoder";
+import type { ObjectPath, PathSegment, SafetyOptions } from "./types";
+import { createJsonTokenizer } from "./utils/jsonTokenizer";
+import type { JsonToken } from "./utils/jsonTokenizer";
+import { toPathSegments } from "./utils/parsePath";
+import { resolvePath } from "./utils/resolvePath";
+import { createTraversalGuard } from "./utils/traversalGuard";
+
+/**
+ * Uma fonte de texto JSON: um `Readable` do Node ou qualquer iterável assíncrono de partes
+ * (`string`, `Buffer` ou `Uint8Array` em UTF-8, que podem dividir caracteres em qualquer posição).
+ */
+export type JsonSource = AsyncIterable<string | Uint8Array>;
+
+/**
+ * Um valor encontrado por `streamFindByKey`.
+ */
+export interface StreamMatch {
+  /** Caminho até o valor, em segmentos (índices de arrays como números). */
+  path: PathSegment[];
+  /** O valor, já convertido como por `JSON.parse`. */
+  value: unknown;
+}
+
+/** Um objeto ou array aberto durante a leitura. */
+interface Frame {
+  kind: "object" | "array";
+  /** Índice do elemento atual, em arrays. */
+  index: number;
+  /** O contêiner construído para este nó, se ele faz parte de um valor capturado. */
+  container?: Record<PathSegment, unknown> | unknown[];
+}
+
+interface PendingMatch {
+  path: PathSegment[];
+  value: unknown;
+  done: boolean;
+}
+
+function assertSource(fnName: string, source: unknown): void {
+  if (
+    source === null ||
+    typeof source !== "object" ||
+    typeof (source as JsonSource)[Symbol.asyncIterator] !== "function"
+  ) {
+    throw new TypeError(
+      `${fnName}: source deve ser um Readable ou iterável assíncrono.`
+    );
+  }
+}
+
+/** Define uma propriedade própria, sem acionar o setter de `__proto__` (como `JSON.parse`). */
+function defineKey(
+  target: Record<PathSegment, unknown>,
+  key: PathSegment,
+  value: unknown
+): void {
+  Object.defineProperty(target, key, {
+    value,
+    enumerable: true,
+    writable: true,
+    configurable: true,
+  });
+}
+
+/**
+ * Lê um documento JSON em partes e produz os valores cujos caminhos são aceitos por `isMatch`, na
+ * ordem do documento (um valor antes dos valores aninhados nele). Apenas os valores aceitos são
+ * construídos; o restante do documento é apenas analisado, com memória proporcional à profundidade.
+ * `isMatch` também recebe se o valor é primitivo (não é um objeto ou array).
+ */
+async function* scanJson(
+  fnName: string,
+  source: JsonSource,
+  isMatch: (path: readonly PathSegment[], primitive: boolean) => boolean,
+  options: SafetyOptions
+): AsyncGenerator<StreamMatch> {
+  const guard = createTraversalGuard(fnName, options);
+  const frames: Frame[] = [];
+  const path: PathSegment[] = []; // Caminho do próximo valor: um segmento por contêiner aberto
+  const pending: PendingMatch[] = [];
+  let skipFrom = -1; // Profundidade a partir da qual os valores são ignorados (limites de `SafetyOptions`)
+  let stopped = false;
+
+  const startValue = (token: JsonToken & { type: "start" | "value" }) => {
+    const parent = frames[frames.length - 1];
+    if (parent?.kind === "array") {
+      path[frames.length - 1] = ++parent.index;
+    }
+
+    let accepted = skipFrom === -1;
+    if (accepted && !guard.visit(path, path.length)) {
+      accepted = false;
+      stopped = guard.stopped;
+    }
+    const matched = accepted && isMatch(path, token.type === "value");
+    const building = accepted && parent?.container !== undefined;
+
+    let value: unknown;
+    let container: Frame["container"];
+    if (token.type === "value") {
+      value = token.value;
+    } else {
+      if (building || matched) {
+        container = token.kind === "object" ? {} : [];
+      }
+      value = container;
+    }
+    if (building) {
+      if (Array.isArray(parent.container)) {
+        parent.container.push(value);
+      } else {
+        defineKey(parent.container!, path[path.length - 1], value);
+      }
+    }
+    if (matched) {
+      pending.push({ path: path.slice(), value, done: token.type === "value" });
+    }
+    if (token.type === "start") {
+      if (!accepted && skipFrom === -1) {
+        skipFrom = frames.length;
+      }
+      frames.push({ kind: token.kind, index: -1, container });
+      path.push("");
+    }
+  };
+
+  const endValue = () => {
+    const frame = frames.pop()!;
+    path.pop();
+    if (skipFrom === frames.length) {
+      skipFrom = -1;
+    }
+    if (frame.container !== undefined) {
+      const match = pending.find((entry) => entry.value === frame.container);
+      if (match !== undefined) {
+        match.done = true;
+      }
+    }
+  };
+
+  const tokenizer = createJsonTokenizer(fnName, (token) => {
+    if (stopped) {
+      return;
+    }
+    switch (token.type) {
+      case "key":
+        path[frames.length - 1] = token.key;
+        break;
+      case "end":
+        endValue();
+        break;
+      default:
+        startValue(token);
+    }
+  });
+
+  const decoder = new StringDecoder("utf8");
+  let ended = false;
+  const iterator = source[Symbol.asyncIterator]();
+  try {
+    while (!ended) {
+      const next = await iterator.next();
+      if (next.done) {
+        tokenizer.write(decoder.end());
+        tokenizer.end();
+        ended = true;
+      } else {
+        const chunk = next.value;
+        tokenizer.write(
+          typeof chunk === "string" ? chunk : decoder.write(chunk)
+        );
+      }
+      while (pending.length > 0 && pending[0].done) {
+        const { path: matchPath, value } = pending.shift()!;
+        yield { path: matchPath, value };
+      }
+      if (stopped) {
+        return; // `maxNodes` excedido: resultado parcial
+      }
+    }
+  } finally {
+    if (!ended) {
+      await iterator.return?.(); // Encerra a leitura da fonte (ex: destrói o `Readable`)
+    }
+  }
+}
+
+/**
+ * Verifica se um segmento de caminho corresponde à chave ou índice de um valor lido. Como em `deepGet`,
+ * índices também podem ser informados como strings (`'items.0'`) e chaves numéricas como números.
+ */
+function segmentMatches(segment: PathSegment, key: PathSegment): boolean {
+  if (typeof segment === "symbol") {
+    return false;
+  }
+  return typeof segment === "number" && typeof key === "number"
+    ? segment === key
+    : String(segment) === String(key);
+}
+
+/**
+ * Procura todas as ocorrências de uma chave em um documento JSON lido em partes, sem carregar o
+ * documento inteiro na memória: útil para arquivos de centenas de MB em que `JSON.parse` seguido de
+ * `deepFindAllByKey` não é viável. Cada correspondência é produzida assim que o seu valor termina de
+ * ser lido, na ordem do documento (como `deepFindAllByKey` com `order: 'dfs'`).
+ *
+ * A memória usada é proporcional à profundidade do documento e ao tamanho dos valores encontrados
+ * (que são construídos), não ao tamanho da entrada. Interromper o `for await` encerra a leitura da fonte.
+ * Índices de arrays não são comparados com a chave.
+ *
+ * @param {JsonSource} source - Um `Readable` ou iterável assíncrono com o texto JSON.
+ * @param {string} chaveAlvo - A chave a ser procurada. Deve ser uma string não vazia.
+ * @param {SafetyOptions} [opcoes] - Limites da leitura (`maxDepth`, `maxNodes`, `signal`) e tratamento de erros.
+ * @returns {AsyncGenerator<StreamMatch>} As correspondências, com caminho e valor.
+ * @throws {TypeError} Se `source` não for iterável assíncrono ou `chaveAlvo` não for uma string não vazia.
+ * @throws {SyntaxError} Se o texto não for um JSON válido (correspondências anteriores já terão sido produzidas).
+ * @throws {TraversalLimitError} Se `maxDepth` ou `maxNodes` for excedido com `onError: 'throw'`.
+ *
+ * @example
+ * import { createReadStream } from 'fs';
+ *
+ * for await (const { path, value } of streamFindByKey(createReadStream('dump.json'), 'email')) {
+ *   console.log(stringifyPath(path), value); // 'users[0].email' 'ana@x.com'
+ * }
+ */
+export function streamFindByKey(
+  source: JsonSource,
+  targetKey: string,
+  options: SafetyOptions = {}
+): AsyncGenerator<StreamMatch> {
+  assertSource("streamFindByKey", source);
+  if (typeof targetKey !== "string" || targetKey.trim() === "") {
+    throw new TypeError(
+      "streamFindByKey: chaveAlvo deve ser uma string não vazia."
+    );
+  }
+  return scanJson(
+    "streamFindByKey",
+    source,
+    (path) => path[path.length - 1] === targetKey,
+    options
+  );
+}
+
+/**
+ * Lê o valor em um caminho de um documento JSON lido em partes, construindo apenas esse valor e
+ * interrompendo a leitura assim que ele termina. Aceita os caminhos de `deepGet` (strings analisadas
+ * por `parsePath` ou arrays de segmentos). Em chaves duplicadas, vale a primeira ocorrência.
+ *
+ * Índices negativos (`items[-1]`) exigem ler o array até o fim: os últimos elementos necessários são
+ * mantidos em memória até lá, e o restante do caminho é resolvido neles. Como em `deepGet`, o restante
+ * do caminho também é resolvido em um valor primitivo encontrado no meio dele (ex: `'nome[0]'` ou
+ * `'nome.length'` em uma string).
+ *
+ * @param {JsonSource} source - Um `Readable` ou iterável assíncrono com o texto JSON.
+ * @param {ObjectPath} path - O caminho do valor.
+ * @param {unknown} [valorPadrao] - O valor retornado se o caminho não existir.
+ * @param {SafetyOptions} [opcoes] - Limites da leitura (`maxDepth`, `maxNodes`, `signal`) e tratamento de erros.
+ * @returns {Promise<unknown>} O valor no caminho, ou `valorPadrao`.
+ * @throws {TypeError} Se `source` não for iterável assíncrono.
+ * @throws {PathSyntaxError} Se o caminho em string for malformado.
+ * @throws {SyntaxError} Se o texto lido até o valor não for um JSON válido.
+ * @throws {TraversalLimitError} Se `maxDepth` ou `maxNodes` for excedido com `onError: 'throw'`.
+ *
+ * @example
+ * import { createReadStream } from 'fs';
+ *
+ * await streamGet(createReadStream('dump.json'), 'meta.version'); // '2.1'
+ * await streamGet(createReadStream('dump.json'), 'users[-1].email', null);
+ */
+export async function streamGet<R = unknown>(
+  source: JsonSource,
+  path: ObjectPath,
+  defaultValue?: R,
+  options: SafetyOptions = {}
+): Promise<R | undefined> {
+  assertSource("streamGet", source);
+  const segments = toPathSegments(path);
+  const negative = segments.findIndex(
+    (segment) => typeof segment === "number" && segment < 0
+  );
+  // Sem índices negativos: o próprio valor; com eles, os elementos do array, resolvidos no fim
+  const target = negative === -1 ? segments.length : negative + 1;
+  // Um primitivo antes do fim do caminho também é aceito: o restante é resolvido nele
+  const isMatch = (candidate: readonly PathSegment[], primitive: boolean) =>
+    (candidate.length === target || (primitive && candidate.length < target)) &&
+    candidate.every(
+      (key, i) =>
+        (i === negative && typeof key === "number") ||
+        segmentMatches(segments[i], key)
+    );
+  const resolveRest = (match: StreamMatch): R | undefined => {
+    const value = resolvePath(match.value, segments.slice(match.path.length));
+    return value === undefined ? defaultValue : (value as R);
+  };
+
+  const matches = scanJson("streamGet", source, isMatch, options);
+  if (negative === -1) {
+    for await (const match of matches) {
+      // Encerra a leitura
+      return match.path.length < target
+        ? resolveRest(match)
+        : (match.value as R);
+    }
+    return defaultValue;
+  }
+
+  const count = -(segments[negative] as number);
+  const last: unknown[] = [];
+  let previousIndex = -1;
+  for await (const match of matches) {
+    if (match.path.length < target) {
+      return resolveRest(match);
+    }
+    const index = match.path[negative] as number;
+    if (index <= previousIndex) {
+      break; // Outro array no mesmo caminho (chave duplicada): vale o primeiro
+    }
+    previousIndex = index;
+    last.push(match.value);
+    if (last.length > count) {
+      last.shift();
+    }
+  }
+  if (last.length < count) {
+    return defaultValue;
+  }
+  const rest = segments.slice(negative + 1);
+  const value = rest.length === 0 ? last[0] : resolvePath(last[0], rest);
+  return value === undefined ? defaultValue : (value as R);
+}
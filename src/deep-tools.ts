@@ -1,63 +1,247 @@
-import get from "lodash/get"; // Usa importação específica para potencialmente reduzir bundles quando usando bundlers
+import { deepEqual } from "./deep-equal";
+import { walkEntries } from "./deep-walk";
+import type { TraversalOptions } from "./deep-walk";
+import type {
+  ObjectPath,
+  PathSecurityOptions,
+  PathSegment,
+  PathValue,
+  ValidPath,
+} from "./types";
+import { toPathSegments } from "./utils/parsePath";
+import { checkPathSecurity } from "./utils/pathSecurity";
+import { resolvePath } from "./utils/resolvePath";
+import { stringifyPath } from "./utils/stringifyPath";
+import { createTraversalGuard } from "./utils/traversalGuard";
+
+export type {
+  ObjectPath,
+  PathSegment,
+  Path,
+  PathValue,
+  ValidPath,
+  ErrorPolicy,
+  SafetyOptions,
+  PathSecurityOptions,
+} from "./types";
+export {
+  PathSyntaxError,
+  PatchError,
+  TraversalLimitError,
+  CallbackError,
+  UnsafePathError,
+} from "./errors";
+export { parsePath } from "./utils/parsePath";
+export { stringifyPath } from "./utils/stringifyPath";
+export { toJsonPointer, fromJsonPointer } from "./utils/jsonPointer";
+export {
+  deepSet,
+  deepUnset,
+  deepUpdate,
+  deepSetImmutable,
+  deepUnsetImmutable,
+  deepUpdateImmutable,
+} from "./deep-set";
+export { deepWalk, deepVisit } from "./deep-walk";
+export type { WalkEntry, WalkOptions, TraversalOptions } from "./deep-walk";
+export { deepQuery } from "./deep-query";
+export type { QueryMatch } from "./deep-query";
+export { deepDiff, applyPatch } from "./deep-diff";
+export type {
+  PatchOperation,
+  DiffOptions,
+  ApplyPatchOptions,
+} from "./deep-diff";
+export { deepMerge, deepMergeWith, mergeOptions } from "./deep-merge";
+export { deepClone } from "./deep-clone";
+export type { CloneCustomizer, CloneOptions } from "./deep-clone";
+export type {
+  ArrayMergeStrategy,
+  MergeCustomizer,
+  MergeOptions,
+  MarkedMergeOptions,
+} from "./deep-merge";
+export {
+  deepTransform,
+  deepMapValues,
+  deepMapKeys,
+  DROP,
+} from "./deep-transform";
+export type {
+  TransformEntry,
+  TransformOptions,
+  TransformVisitor,
+  ValueMapper,
+  KeyMapper,
+} from "./deep-transform";
+export { deepPick, deepOmit, deepRedact } from "./deep-pick";
+export { deepFlatten, deepUnflatten } from "./deep-flatten";
+export type { FlatKeyOptions, FlattenOptions } from "./deep-flatten";
+export { streamFindByKey, streamGet } from "./deep-stream";
+export type { JsonSource, StreamMatch } from "./deep-stream";
+export { deepEqual, deepEqualExplain } from "./deep-equal";
+export type {
+  EqualityCustomizer,
+  EqualityMismatch,
+  EqualOptions,
+  ExplainOptions,
+  MismatchReason,
+} from "./deep-equal";
+export { deepStringify, deepParse } from "./deep-serialize";
+export type {
+  ParseOptions,
+  StringifyOptions,
+  TypeHandler,
+} from "./deep-serialize";
+export { createDeepIndex } from "./deep-index";
+export type { DeepIndex } from "./deep-index";
+export { inferSchema } from "./deep-schema";
+export type {
+  InferredSchema,
+  SchemaNode,
+  SchemaProperty,
+  SchemaType,
+} from "./deep-schema";
+export { deepObserve, deepUnobserve } from "./deep-observe";
+export type {
+  ArrayMutation,
+  ChangeEvent,
+  ChangeListener,
+  ObserveOptions,
+} from "./deep-observe";
+
+/** Marcador do parâmetro de tipo `R` de `deepGet` quando ele não é informado explicitamente. */
+declare const inferredResult: unique symbol;
+type InferredResult = typeof inferredResult;
 
 /**
- * Representa um caminho dentro de um objeto, que pode ser uma string separada por pontos,
- * ou um array de chaves e índices.
- *
- * @example
- * 'a.b.c'
- * ['a', 'b', 0, 'c']
- * 'a.b[0].c' // Suportado pelo deepGet via lodash
+ * Tipo de retorno de `deepGet`: `R | undefined` se `R` foi informado; caso contrário o tipo do valor
+ * no caminho, trocando `undefined` pelo tipo do `valorPadrao` quando ele é fornecido.
  */
-type ObjectPath = string | (string | number)[];
+type DeepGetResult<R, T, P, D> = [R] extends [InferredResult]
+  ? unknown extends PathValue<T, P>
+    ? [D] extends [undefined]
+      ? unknown
+      : D | undefined
+    : [D] extends [undefined]
+    ? PathValue<T, P>
+    : Exclude<PathValue<T, P>, undefined> | D
+  : R | undefined;
+
+/**
+ * Opções aceitas por `deepGet`.
+ */
+export interface GetOptions extends PathSecurityOptions {
+  /**
+   * Quando `true`, apenas propriedades próprias são lidas: chaves herdadas do protótipo
+   * (`toString`, `constructor`, `__proto__`...) resolvem para `undefined`. Entradas de `Map`,
+   * membros de `Set` e índices de arrays não são afetados. Padrão: `false`.
+   */
+  ownProperties?: boolean;
+}
 
 /**
  * Recupera com segurança o valor em um caminho específico dentro de um objeto ou array aninhado.
- * Utiliza `lodash.get` para resolução robusta de caminhos, suportando várias sintaxes de caminho
- * (ex: 'a.b[0].c', ['a', 'b', 0, 'c']). Lida graciosamente com objetos e caminhos nulos/indefinidos.
+ * Os caminhos em string são analisados por `parsePath` e resolvidos segmento a segmento, suportando várias
+ * sintaxes de caminho (ex: 'a.b[0].c', 'a["chave com.ponto"]', 'items[-1]', ['a', 'b', 0, 'c']).
+ * Entradas de `Map` são acessadas pela chave, membros de `Set` pela posição (`tags[0]`) e índices negativos
+ * contam a partir do fim do array. Lida graciosamente com objetos e caminhos nulos/indefinidos.
  *
- * @template T O tipo esperado do valor retornado se encontrado ou o tipo do valorPadrao.
- * @param {unknown} obj - O objeto ou array a ser consultado. Usando `unknown` encoraja verificação de tipo pelo chamador.
- * @param {ObjectPath | null | undefined} path - O caminho da propriedade a ser recuperada. Pode ser uma string separada por pontos,
+ * Quando o tipo de `obj` é conhecido e o caminho é um literal (string ou tupla), o caminho é verificado
+ * contra o formato do objeto (`Path<T>`, com autocompletar) e o tipo de retorno é inferido (`PathValue<T, P>`).
+ * Caminhos dinâmicos (`string`) e objetos `unknown` não são verificados e retornam `unknown`.
+ *
+ * Para caminhos vindos do usuário (ex: query strings), use `unsafeSegments` para recusar
+ * `__proto__`, `constructor` e `prototype`, `allowedRoots` para restringir as chaves raiz e
+ * `ownProperties` para não ler propriedades herdadas.
+ *
+ * @template R Tipo de retorno explícito (opcional). Quando informado, desativa a verificação do caminho,
+ *   como em versões anteriores: `deepGet<string>(obj, 'a.b')`.
+ * @template T O tipo do objeto consultado (inferido).
+ * @template P O caminho (inferido).
+ * @template D O tipo do `valorPadrao` (inferido).
+ * @param {T} obj - O objeto ou array a ser consultado.
+ * @param {ValidPath<T, P>} path - O caminho da propriedade a ser recuperada. Pode ser uma string separada por pontos,
  *   um array de chaves/índices, nulo ou indefinido.
- * @param {T} [valorPadrao] - O valor retornado se o caminho não for encontrado, o valor resolvido for `undefined`,
+ * @param {D | R} [valorPadrao] - O valor retornado se o caminho não for encontrado, o valor resolvido for `undefined`,
  *   ou o `obj` de entrada for nulo/indefinido.
- * @returns {T | undefined} O valor encontrado no caminho especificado, o `valorPadrao` se fornecido e o caminho
- *   não for resolvido, ou `undefined` caso contrário. O tipo de retorno é inferido do `valorPadrao` se fornecido.
+ * @param {GetOptions} [opcoes] - Proteção contra caminhos inseguros e leitura apenas de propriedades próprias.
+ * @returns O valor encontrado no caminho especificado, o `valorPadrao` se fornecido e o caminho
+ *   não for resolvido (ou for ignorado por `unsafeSegments: 'ignore'`), ou `undefined` caso contrário.
+ * @throws {PathSyntaxError} Se `path` for uma string malformada (ex: 'a[0').
+ * @throws {UnsafePathError} Se o caminho for recusado pelas opções de segurança.
  *
  * @example
  * const meuObj = { a: { b: [ { c: 1 } ] } };
- * deepGet(meuObj, 'a.b[0].c'); // Retorna 1
- * deepGet(meuObj, ['a', 'b', 0, 'c']); // Retorna 1
- * deepGet(meuObj, 'a.x.y'); // Retorna undefined
- * deepGet(meuObj, 'a.x.y', 'padrao'); // Retorna 'padrao'
+ * deepGet(meuObj, 'a.b[0].c'); // Retorna 1 (tipo number)
+ * deepGet(meuObj, ['a', 'b', 0, 'c']); // Retorna 1 (tipo number)
+ * deepGet(meuObj, 'a.b[-1].c'); // Retorna 1 (último elemento)
+ * deepGet(meuObj, 'a.x.y'); // Erro de tipo: caminho inexistente em meuObj
+ * deepGet({ m: new Map([['k', 1]]) }, 'm.k'); // Retorna 1
+ * deepGet({ s: new Set(['x', 'y']) }, 's[-1]'); // Retorna 'y'
+ * deepGet(JSON.parse('{}'), 'a.x.y'); // Retorna undefined (tipo unknown)
+ * deepGet(JSON.parse('{}'), 'a.x.y', 'padrao'); // Retorna 'padrao' (tipo string | undefined)
  * deepGet(null, 'a.b', 'padrao'); // Retorna 'padrao'
+ * deepGet<string>(meuObj, caminhoDinamico); // Retorna string | undefined
+ * deepGet({}, 'constructor.name', undefined, { ownProperties: true }); // Retorna undefined
+ * deepGet({}, req.query.campo, undefined, { unsafeSegments: 'reject' }); // '__proto__' lança UnsafePathError
  */
-export function deepGet<T = unknown>(
-  obj: unknown,
-  path: ObjectPath | null | undefined,
-  defaultValue?: T
-): T | undefined {
-  // lodash/get lida com obj nulo/indefinido, caminho nulo/indefinido,
-  // vários formatos de caminho e padrões graciosamente
-  return get(obj, path ?? [], defaultValue) as T | undefined;
+export function deepGet<
+  R = InferredResult,
+  T = unknown,
+  const P extends ObjectPath | null | undefined = ObjectPath | null | undefined,
+  D = undefined
+>(
+  obj: T,
+  path: ValidPath<T, P>,
+  defaultValue?: [R] extends [InferredResult]
+    ? D
+    : [R][R extends unknown ? 0 : never], // Não infere `R` a partir do valor padrão
+  options: GetOptions = {}
+): DeepGetResult<R, T, P, D> {
+  const segments = toPathSegments(path as ObjectPath);
+  const value = checkPathSecurity("deepGet", segments, options, "allow")
+    ? resolvePath(obj, segments, options.ownProperties === true)
+    : undefined;
+  return (value === undefined ? defaultValue : value) as DeepGetResult<
+    R,
+    T,
+    P,
+    D
+  >;
+}
+
+/**
+ * Compara uma chave da travessia com uma chave alvo: símbolos por identidade,
+ * demais chaves (incluindo índices e chaves numéricas de `Map`) como strings.
+ */
+function keyMatches(key: PathSegment, target: string | symbol): boolean {
+  return typeof key === "symbol" || typeof target === "symbol"
+    ? key === target
+    : String(key) === target;
 }
 
 /**
  * Procura iterativamente em um objeto ou array pela *primeira* ocorrência de uma determinada chave
- * e retorna seu valor correspondente. Usa estratégia de Busca em Largura (BFS)
+ * e retorna seu valor correspondente. Usa estratégia de Busca em Largura (BFS), via `deepWalk`,
  * para encontrar primeiro a ocorrência mais rasa. Inclui detecção de ciclos para evitar loops infinitos.
+ * `Map`, `Set` e typed arrays também são percorridos; chaves de `Map` são comparadas como strings.
  *
  * @param {unknown} obj - O objeto ou array para pesquisar. Usando `unknown` encoraja verificação de tipo.
- * @param {string} chaveAlvo - A chave a ser procurada. Deve ser uma string não vazia.
+ * @param {string | symbol} chaveAlvo - A chave a ser procurada. Deve ser uma string não vazia ou um `symbol`
+ *   (que só é encontrado com `includeSymbols`).
+ * @param {TraversalOptions} [opcoes] - Se getters e chaves `symbol` também devem ser percorridos, e os
+ *   limites de `SafetyOptions`.
  * @returns {unknown} O valor associado à primeira chave encontrada, ou `undefined` se a chave não for encontrada,
  *   o `obj` de entrada não for pesquisável (nulo, primitivo), ou a `chaveAlvo` for inválida.
- * @throws {TypeError} Se `chaveAlvo` não for uma string não vazia.
+ * @throws {TypeError} Se `chaveAlvo` não for uma string não vazia ou um `symbol`.
+ * @throws {TraversalLimitError} Se `maxDepth` ou `maxNodes` for excedido com `onError: 'throw'`.
  *
  * @example
  * const meuObj = { a: 1, b: { c: 2, d: [{ c: 3 }] } };
  * deepFindByKey(meuObj, 'c'); // Retorna 2 (encontrado em 'b.c' antes de 'b.d[0].c')
  * deepFindByKey(meuObj, 'a'); // Retorna 1
+ * deepFindByKey({ store: new Map([['user', { id: 1 }]]) }, 'id'); // Retorna 1
  * deepFindByKey(meuObj, 'x'); // Retorna undefined
  * deepFindByKey(null, 'a'); // Retorna undefined
  * try {
@@ -66,155 +250,467 @@ export function deepGet<T = unknown>(
  *   console.error(e); // TypeError: deepFindByKey: chaveAlvo deve ser uma string não vazia.
  * }
  */
-export function deepFindByKey(obj: unknown, targetKey: string): unknown {
-  if (typeof targetKey !== "string" || targetKey.trim() === "") {
+export function deepFindByKey(
+  obj: unknown,
+  targetKey: string | symbol,
+  options: TraversalOptions = {}
+): unknown {
+  if (
+    typeof targetKey !== "symbol" &&
+    (typeof targetKey !== "string" || targetKey.trim() === "")
+  ) {
     throw new TypeError(
       "deepFindByKey: chaveAlvo deve ser uma string não vazia."
     );
   }
 
-  if (obj === null || typeof obj !== "object") {
-    return undefined; // Não é possível pesquisar em não-objetos/arrays ou nulo
+  // BFS via deepWalk: a primeira entrada encontrada é a mais rasa.
+  // Valores não pesquisáveis (nulo, primitivos) não produzem entradas.
+  const guard = createTraversalGuard("deepFindByKey", options);
+  const walk = walkEntries(
+    obj,
+    { ...options, strategy: "bfs", maxDepth: undefined },
+    guard
+  );
+  for (const entry of walk) {
+    if (keyMatches(entry.key, targetKey)) {
+      return entry.value;
+    }
   }
 
-  // Use uma fila para BFS iterativo
-  const queue: unknown[] = [obj];
-  const visited = new Set<object>(); // Evitar loops infinitos em estruturas circulares
+  return undefined; // Chave não encontrada
+}
 
-  while (queue.length > 0) {
-    const current = queue.shift();
+/**
+ * Critério de correspondência de chaves usado por `deepFindAllByKey`: uma chave exata (string ou `symbol`),
+ * uma expressão regular testada contra a chave, ou um predicado. Expressões regulares não testam chaves `symbol`;
+ * predicados as recebem convertidas com `String()`.
+ */
+export type KeyMatcher =
+  | string
+  | symbol
+  | RegExp
+  | ((key: string, value: unknown, path: PathSegment[]) => boolean);
 
-    // Garantir que current é um objeto/array e não nulo
-    if (current === null || typeof current !== "object") {
-      continue;
-    }
+/**
+ * Opções aceitas por `deepFindAllByKey`.
+ */
+export interface FindAllByKeyOptions extends TraversalOptions {
+  /** Ordem de travessia: `'bfs'` (padrão, mais rasas primeiro) ou `'dfs'` (ordem do documento). */
+  order?: "bfs" | "dfs";
+  /**
+   * Profundidade máxima das chaves inspecionadas (filhos diretos da raiz têm profundidade 1).
+   * Chaves mais profundas simplesmente não são inspecionadas, sem gerar erros.
+   */
+  maxDepth?: number;
+  /** Número máximo de correspondências; a busca é interrompida ao atingi-lo. */
+  limit?: number;
+}
 
-    // Prevenir ciclos
-    if (visited.has(current)) {
-      continue;
-    }
-    visited.add(current);
+/**
+ * Uma correspondência encontrada por `deepFindAllByKey`.
+ */
+export interface KeyMatch {
+  /** Caminho até o valor, em segmentos. Use `stringifyPath` para obter a forma em string. */
+  path: PathSegment[];
+  /** O valor associado à chave encontrada. */
+  value: unknown;
+  /** Profundidade da chave (filhos diretos da raiz têm profundidade 1). */
+  depth: number;
+  /** O objeto, array, `Map` ou `Set` que contém a chave. */
+  parent: object;
+}
 
-    // Verificar se o objeto/array atual tem a chave alvo diretamente
-    if (Object.prototype.hasOwnProperty.call(current, targetKey)) {
-      return (current as Record<string, unknown>)[targetKey];
-    }
+/**
+ * Procura iterativamente em um objeto ou array por *todas* as chaves que correspondem ao critério,
+ * retornando cada correspondência com seu caminho, valor, profundidade e objeto pai.
+ * Por padrão usa Busca em Largura (BFS), retornando primeiro as ocorrências mais rasas; com `order: 'dfs'`
+ * as correspondências seguem a ordem do documento. Construída sobre `deepWalk`, com a mesma detecção de ciclos
+ * de `deepFindByKey`: cada objeto é expandido no máximo uma vez.
+ *
+ * @param {unknown} obj - O objeto ou array para pesquisar.
+ * @param {KeyMatcher} matcher - Uma chave exata (string não vazia ou `symbol`), uma `RegExp` ou um predicado
+ *   `(chave, valor, caminho) => boolean`. Índices de array e chaves de `Map` são comparados como strings.
+ * @param {FindAllByKeyOptions} [opcoes] - Ordem de travessia, profundidade máxima, limite de resultados,
+ *   se getters e chaves `symbol` também devem ser percorridos, e os limites de `SafetyOptions`.
+ * @returns {KeyMatch[]} As correspondências encontradas, ou um array vazio se o `obj` não for pesquisável.
+ * @throws {TypeError} Se `matcher` não for uma string não vazia, um `symbol`, uma `RegExp` ou uma função.
+ * @throws {CallbackError} Se o predicado lançar uma exceção, com `onError: 'throw'`.
+ * @throws {TraversalLimitError} Se `maxNodes` for excedido com `onError: 'throw'`.
+ *
+ * @example
+ * const meuObj = { a: 1, b: { c: 2, d: [{ c: 3 }] } };
+ * deepFindAllByKey(meuObj, 'c');
+ * // [
+ * //   { path: ['b', 'c'], value: 2, depth: 2, parent: meuObj.b },
+ * //   { path: ['b', 'd', 0, 'c'], value: 3, depth: 4, parent: meuObj.b.d[0] },
+ * // ]
+ * deepFindAllByKey(meuObj, /^[ab]$/, { maxDepth: 1 }); // correspondências em 'a' e 'b'
+ * deepFindAllByKey(meuObj, (key, value) => value === 3); // correspondência em 'b.d[0].c'
+ * deepFindAllByKey(meuObj, 'c', { limit: 1 }); // apenas a correspondência em 'b.c'
+ */
+export function deepFindAllByKey(
+  obj: unknown,
+  matcher: KeyMatcher,
+  options: FindAllByKeyOptions = {}
+): KeyMatch[] {
+  let matches: (
+    key: PathSegment,
+    value: unknown,
+    path: PathSegment[]
+  ) => boolean;
+  if (
+    (typeof matcher === "string" && matcher.trim() !== "") ||
+    typeof matcher === "symbol"
+  ) {
+    matches = (key) => keyMatches(key, matcher);
+  } else if (matcher instanceof RegExp) {
+    matches = (key) => {
+      if (typeof key === "symbol") {
+        return false;
+      }
+      matcher.lastIndex = 0; // Regex com flag 'g' ou 'y' guardam estado entre chamadas
+      return matcher.test(String(key));
+    };
+  } else if (typeof matcher === "function") {
+    matches = (key, value, path) => matcher(String(key), value, path);
+  } else {
+    throw new TypeError(
+      "deepFindAllByKey: matcher deve ser uma string não vazia, uma RegExp ou uma função."
+    );
+  }
+
+  const {
+    order = "bfs",
+    maxDepth = Infinity,
+    limit = Infinity,
+    includeGetters,
+    includeSymbols,
+  } = options;
+  const results: KeyMatch[] = [];
 
-    // Adicionar objetos/arrays aninhados à fila para pesquisa adicional
-    for (const [, value] of Object.entries(current)) {
-      if (value !== null && typeof value === "object") {
-        queue.push(value);
+  if (limit <= 0) {
+    return results;
+  }
+
+  // O `maxDepth` desta função limita a busca sem ser um erro
+  const guard = createTraversalGuard("deepFindAllByKey", {
+    ...options,
+    maxDepth: undefined,
+  });
+  const walk = walkEntries(
+    obj,
+    {
+      strategy: order === "dfs" ? "dfs" : "bfs",
+      maxDepth,
+      includeGetters,
+      includeSymbols,
+    },
+    guard
+  );
+  for (const { key, value, path, parent, depth } of walk) {
+    if (guard.call(path, false, () => matches(key, value, path))) {
+      results.push({ path, value, depth, parent });
+      if (results.length >= limit) {
+        break;
       }
     }
   }
 
-  return undefined; // Chave não encontrada
+  return results;
+}
+
+/**
+ * Critério de comparação de `deepFindByValue`: uma função que recebe o valor atual e o valor alvo,
+ * ou `'deep'` para a igualdade estrutural de `deepEqual`.
+ */
+export type ValueComparator = ((a: unknown, b: unknown) => boolean) | "deep";
+
+/**
+ * Opções aceitas por `deepFindByValue`.
+ */
+export interface FindByValueOptions extends TraversalOptions {
+  /**
+   * Formato dos caminhos retornados:
+   * - `'string'` (padrão): strings geradas por `stringifyPath`, ex: `'b.d[0].e'` ou `'["key with.dot"]'`.
+   * - `'segments'`: arrays de segmentos, ex: `['b', 'd', 0, 'e']`. Necessário com `includeSymbols`,
+   *   pois chaves `symbol` não têm representação em string.
+   */
+  pathFormat?: "string" | "segments";
+  /**
+   * Ordem dos caminhos retornados:
+   * - `'document'` (padrão): ordem do documento (DFS em pré-ordem), a mesma em todas as execuções.
+   * - `'bfs'`: ocorrências mais rasas primeiro; na mesma profundidade, na ordem do documento.
+   */
+  order?: "document" | "bfs";
+  /** Número máximo de correspondências; a busca é interrompida ao atingi-lo. */
+  limit?: number;
+}
+
+/**
+ * Opções aceitas por `deepFindByValueAsync`.
+ */
+export interface FindByValueAsyncOptions extends FindByValueOptions {
+  /** Quantos valores são comparados antes de devolver o controle ao event loop. Padrão: 1000. */
+  yieldEvery?: number;
+}
+
+/** Valida o comparador de `deepFindByValue` e suas variantes e retorna a função de comparação. */
+function toValueCompare(
+  fnName: string,
+  compareFn: ValueComparator
+): (a: unknown, b: unknown) => boolean {
+  if (compareFn !== "deep" && typeof compareFn !== "function") {
+    throw new TypeError(
+      `${fnName}: funcaoComparacao deve ser uma função ou 'deep' se fornecida.`
+    );
+  }
+  return compareFn === "deep"
+    ? (a: unknown, b: unknown) => deepEqual(a, b)
+    : compareFn;
+}
+
+/**
+ * Percorre `obj` na ordem de `options.order` e produz cada valor visitado, indicando se ele corresponde
+ * ao alvo: a variante assíncrona conta os valores visitados, e não apenas as correspondências.
+ */
+function* scanValues(
+  fnName: string,
+  obj: unknown,
+  targetValue: unknown,
+  compare: (a: unknown, b: unknown) => boolean,
+  options: FindByValueOptions
+): Generator<{ path: PathSegment[]; matched: boolean }> {
+  const guard = createTraversalGuard(fnName, options);
+  const walk = walkEntries(
+    obj,
+    {
+      strategy: options.order === "bfs" ? "bfs" : "dfs",
+      includeGetters: options.includeGetters,
+      includeSymbols: options.includeSymbols,
+    },
+    guard
+  );
+  for (const { value, path } of walk) {
+    yield {
+      path,
+      matched: guard.call(path, false, () => compare(value, targetValue)),
+    };
+  }
 }
 
 /**
  * Procura iterativamente em um objeto ou array por todas as ocorrências de um valor correspondente a um valor alvo,
- * usando uma função de comparação fornecida. Retorna um array de caminhos onde as correspondências foram encontradas.
- * Usa estratégia de Busca em Profundidade (DFS). Inclui detecção de ciclos.
- * Caminhos usam notação de ponto para propriedades de objeto e notação de colchetes para índices de array (ex: 'a.b[0].c').
+ * usando uma função de comparação fornecida ou, com `'deep'`, a igualdade estrutural de `deepEqual`. Retorna um array de caminhos onde as correspondências foram encontradas.
+ * Usa estratégia de Busca em Profundidade (DFS) em pré-ordem, via `deepWalk`, retornando os caminhos na ordem
+ * do documento (ou, com `order: 'bfs'`, os mais rasos primeiro). Com `limit`, a busca é interrompida após
+ * o número de correspondências informado. Inclui detecção de ciclos. `Map`, `Set` e typed arrays também são percorridos.
+ * Caminhos em string são gerados por `stringifyPath`: notação de ponto para propriedades de objeto, notação de colchetes
+ * para índices de array (ex: 'a.b[0].c') e colchetes com aspas para chaves com caracteres especiais
+ * (ex: '["key with.dot"]'), de modo que sempre possam ser passados de volta para `deepGet` ou `parsePath`.
  *
  * @param {unknown} obj - O objeto ou array para pesquisar. Usando `unknown` encoraja verificação de tipo.
  * @param {unknown} valorAlvo - O valor a ser procurado.
- * @param {(a: unknown, b: unknown) => boolean} [funcaoComparacao=(a, b) => a === b] - Uma função para comparar valores.
- *   Padrão para igualdade estrita (`===`). Recebe o valor atual (`a`) e o `valorAlvo` (`b`).
- * @returns {string[]} Um array de caminhos em string indicando onde o `valorAlvo` foi encontrado de acordo com a `funcaoComparacao`.
+ * @param {((a: unknown, b: unknown) => boolean) | 'deep'} [funcaoComparacao=(a, b) => a === b] - Uma função para
+ *   comparar valores, ou `'deep'` para comparar objetos, arrays, `Map`, `Set` e datas pelo conteúdo (`deepEqual`).
+ *   Padrão para igualdade estrita (`===`). A função recebe o valor atual (`a`) e o `valorAlvo` (`b`).
+ * @param {FindByValueOptions} [opcoes] - Opções adicionais, como o formato e a ordem dos caminhos retornados,
+ *   o limite de correspondências e os limites de `SafetyOptions`.
+ * @returns {string[] | PathSegment[][]} Um array de caminhos indicando onde o `valorAlvo` foi encontrado de acordo com a `funcaoComparacao`,
+ *   como strings ou, com `pathFormat: 'segments'`, como arrays de segmentos.
  *   Retorna um array vazio se nenhuma correspondência for encontrada ou se o `obj` de entrada não for pesquisável (nulo, primitivo).
- * @throws {TypeError} Se `funcaoComparacao` for fornecida mas não for uma função.
+ * @throws {TypeError} Se `funcaoComparacao` for fornecida mas não for uma função nem `'deep'`.
+ * @throws {CallbackError} Se `funcaoComparacao` lançar uma exceção, com `onError: 'throw'` (padrão).
+ *   Com `'collect'` ou `'ignore'`, o valor é tratado como não correspondente.
+ * @throws {TraversalLimitError} Se `maxDepth` ou `maxNodes` for excedido com `onError: 'throw'`.
  *
  * @example
  * const meuObj = { a: 1, b: { c: 2, d: [{ e: 3 }, { e: 3 }] }, f: 3 };
- * deepFindByValue(meuObj, 3); // Retorna ['b.d[0].e', 'b.d[1].e', 'f'] (ordem pode variar devido ao DFS)
+ * deepFindByValue(meuObj, 3); // Retorna ['b.d[0].e', 'b.d[1].e', 'f'] (ordem do documento)
  * deepFindByValue(meuObj, 'ola'); // Retorna []
- * deepFindByValue(meuObj, { e: 3 }, (a, b) => JSON.stringify(a) === JSON.stringify(b)); // Retorna ['b.d[0]', 'b.d[1]']
+ * deepFindByValue(meuObj, { e: 3 }, 'deep'); // Retorna ['b.d[0]', 'b.d[1]']
+ * deepFindByValue(meuObj, 3, (a, b) => typeof a === 'number' && a >= b); // Retorna ['b.d[0].e', 'b.d[1].e', 'f']
+ * deepFindByValue(meuObj, 2, undefined, { pathFormat: 'segments' }); // Retorna [['b', 'c']]
+ * deepFindByValue(meuObj, 3, undefined, { order: 'bfs' }); // Retorna ['f', 'b.d[0].e', 'b.d[1].e']
+ * deepFindByValue(meuObj, 3, undefined, { limit: 1 }); // Retorna ['b.d[0].e']
+ * deepFindByValue({ 'x.y': 1 }, 1); // Retorna ['["x.y"]']
+ * deepFindByValue({ m: new Map([['k', new Set([3])]]) }, 3); // Retorna ['m.k[0]']
  * deepFindByValue(null, 3); // Retorna []
  * try {
  *   deepFindByValue(meuObj, 1, {} as any);
  * } catch (e) {
- *   console.error(e); // TypeError: deepFindByValue: funcaoComparacao deve ser uma função se fornecida.
+ *   console.error(e); // TypeError: deepFindByValue: funcaoComparacao deve ser uma função ou 'deep' se fornecida.
  * }
  */
 export function deepFindByValue(
   obj: unknown,
   targetValue: unknown,
-  compareFn: (a: unknown, b: unknown) => boolean = (a, b) => a === b
-): string[] {
-  if (compareFn !== undefined && typeof compareFn !== "function") {
-    throw new TypeError(
-      "deepFindByValue: funcaoComparacao deve ser uma função se fornecida."
+  compareFn: ValueComparator | undefined,
+  options: FindByValueOptions & { pathFormat: "segments" }
+): PathSegment[][];
+export function deepFindByValue(
+  obj: unknown,
+  targetValue: unknown,
+  compareFn?: ValueComparator,
+  options?: FindByValueOptions
+): string[];
+export function deepFindByValue(
+  obj: unknown,
+  targetValue: unknown,
+  compareFn: ValueComparator = (a, b) => a === b,
+  options: FindByValueOptions = {}
+): string[] | PathSegment[][] {
+  const compare = toValueCompare("deepFindByValue", compareFn);
+  const { limit = Infinity } = options;
+  const foundPaths: PathSegment[][] = [];
+
+  if (limit > 0) {
+    // DFS em pré-ordem (ou BFS) via deepWalk: a ordem não depende da execução
+    const scan = scanValues(
+      "deepFindByValue",
+      obj,
+      targetValue,
+      compare,
+      options
     );
+    for (const { path, matched } of scan) {
+      if (matched) {
+        foundPaths.push(path);
+        if (foundPaths.length >= limit) {
+          break;
+        }
+      }
+    }
   }
 
-  const foundPaths: string[] = [];
+  return options.pathFormat === "segments"
+    ? foundPaths
+    : foundPaths.map(stringifyPath);
+}
 
-  if (obj === null || typeof obj !== "object") {
-    return foundPaths; // Não é possível pesquisar em não-objetos/arrays ou nulo
+/**
+ * Retorna o caminho da primeira ocorrência de um valor, interrompendo a busca assim que ela é encontrada.
+ * Equivale a `deepFindByValue(obj, valorAlvo, funcaoComparacao, { ...opcoes, limit: 1 })[0]`.
+ *
+ * @param {unknown} obj - O objeto ou array para pesquisar.
+ * @param {unknown} valorAlvo - O valor a ser procurado.
+ * @param {ValueComparator} [funcaoComparacao=(a, b) => a === b] - Como em `deepFindByValue`.
+ * @param {FindByValueOptions} [opcoes] - Como em `deepFindByValue`; `order` define qual ocorrência é a primeira.
+ * @returns {string | PathSegment[] | undefined} O caminho da primeira ocorrência, ou `undefined`.
+ * @throws {TypeError} Se `funcaoComparacao` for fornecida mas não for uma função nem `'deep'`.
+ * @throws {CallbackError} Se `funcaoComparacao` lançar uma exceção, com `onError: 'throw'` (padrão).
+ * @throws {TraversalLimitError} Se `maxDepth` ou `maxNodes` for excedido com `onError: 'throw'`.
+ *
+ * @example
+ * const meuObj = { a: { b: 3 }, c: 3 };
+ * deepFindFirstByValue(meuObj, 3); // Retorna 'a.b'
+ * deepFindFirstByValue(meuObj, 3, undefined, { order: 'bfs' }); // Retorna 'c'
+ * deepFindFirstByValue(meuObj, 4); // Retorna undefined
+ */
+export function deepFindFirstByValue(
+  obj: unknown,
+  targetValue: unknown,
+  compareFn: ValueComparator | undefined,
+  options: Omit<FindByValueOptions, "limit"> & { pathFormat: "segments" }
+): PathSegment[] | undefined;
+export function deepFindFirstByValue(
+  obj: unknown,
+  targetValue: unknown,
+  compareFn?: ValueComparator,
+  options?: Omit<FindByValueOptions, "limit">
+): string | undefined;
+export function deepFindFirstByValue(
+  obj: unknown,
+  targetValue: unknown,
+  compareFn: ValueComparator = (a, b) => a === b,
+  options: Omit<FindByValueOptions, "limit"> = {}
+): string | PathSegment[] | undefined {
+  const compare = toValueCompare("deepFindFirstByValue", compareFn);
+  const scan = scanValues(
+    "deepFindFirstByValue",
+    obj,
+    targetValue,
+    compare,
+    options
+  );
+  for (const { path, matched } of scan) {
+    if (matched) {
+      return options.pathFormat === "segments" ? path : stringifyPath(path);
+    }
   }
+  return undefined;
+}
 
-  // Use uma pilha para DFS iterativo: armazena [valor, caminhoString]
-  const stack: [unknown, string][] = [[obj, ""]];
-  const visited = new Set<object>(); // Evitar loops infinitos em estruturas circulares
-
-  while (stack.length > 0) {
-    const [currentObj, currentPath] = stack.pop()!; // A asserção de não-nulo é ok devido à condição while
-
-    // Garantir que currentObj é um objeto/array e não nulo
-    if (currentObj === null || typeof currentObj !== "object") {
-      continue;
-    }
+/**
+ * Variante assíncrona de `deepFindByValue` para entradas muito grandes: produz os caminhos um a um,
+ * na mesma ordem, e devolve o controle ao event loop a cada `yieldEvery` valores comparados, para não
+ * bloquear o processo durante a busca. Interromper o `for await` encerra a busca; `signal` a cancela
+ * entre duas comparações.
+ *
+ * O objeto não deve ser alterado durante a busca: as alterações feitas enquanto ela está suspensa podem
+ * ou não ser vistas.
+ *
+ * @param {unknown} obj - O objeto ou array para pesquisar.
+ * @param {unknown} valorAlvo - O valor a ser procurado.
+ * @param {ValueComparator} [funcaoComparacao=(a, b) => a === b] - Como em `deepFindByValue`.
+ * @param {FindByValueAsyncOptions} [opcoes] - As opções de `deepFindByValue` e `yieldEvery`.
+ * @returns {AsyncGenerator<string> | AsyncGenerator<PathSegment[]>} Os caminhos das correspondências.
+ * @throws {TypeError} Se `funcaoComparacao` for fornecida mas não for uma função nem `'deep'` (ao chamar a função).
+ * @throws {CallbackError} Se `funcaoComparacao` lançar uma exceção, com `onError: 'throw'` (padrão).
+ * @throws {TraversalLimitError} Se `maxDepth` ou `maxNodes` for excedido com `onError: 'throw'`.
+ *
+ * @example
+ * for await (const path of deepFindByValueAsync(catalogoGrande, 'B2-P', undefined, { limit: 10 })) {
+ *   console.log(path); // 'produtos[1].variantes[0].sku'
+ * }
+ */
+export function deepFindByValueAsync(
+  obj: unknown,
+  targetValue: unknown,
+  compareFn: ValueComparator | undefined,
+  options: FindByValueAsyncOptions & { pathFormat: "segments" }
+): AsyncGenerator<PathSegment[]>;
+export function deepFindByValueAsync(
+  obj: unknown,
+  targetValue: unknown,
+  compareFn?: ValueComparator,
+  options?: FindByValueAsyncOptions
+): AsyncGenerator<string>;
+export function deepFindByValueAsync(
+  obj: unknown,
+  targetValue: unknown,
+  compareFn: ValueComparator = (a, b) => a === b,
+  options: FindByValueAsyncOptions = {}
+): AsyncGenerator<string | PathSegment[]> {
+  const compare = toValueCompare("deepFindByValueAsync", compareFn);
+  const { limit = Infinity, yieldEvery = 1000 } = options;
 
-    // Prevenir ciclos - verificar antes de processar filhos
-    if (visited.has(currentObj)) {
-      continue;
+  async function* search(): AsyncGenerator<string | PathSegment[]> {
+    if (limit <= 0) {
+      return;
     }
-    visited.add(currentObj);
-
-    // Iterar sobre chaves/índices
-    for (const key in currentObj) {
-      if (Object.prototype.hasOwnProperty.call(currentObj, key)) {
-        const value = (currentObj as Record<string | number, unknown>)[key];
-
-        // Construir o novo segmento de caminho
-        let newPath: string;
-        if (currentPath === "") {
-          // Nível raiz
-          newPath = String(key); // Garantir que a chave é string para o caminho
-        } else if (Array.isArray(currentObj)) {
-          // Usar notação de colchetes para índices de array
-          newPath = `${currentPath}[${key}]`;
-        } else {
-          // Usar notação de ponto para propriedades de objeto
-          // Lidar com chaves numéricas em objetos se necessário, embora menos comum
-          newPath = `${currentPath}.${key}`;
-        }
-
-        // Verificar se o valor corresponde usando a função de comparação
-        try {
-          if (compareFn(value, targetValue)) {
-            foundPaths.push(newPath);
-          }
-        } catch (error) {
-          // Registrar ou lidar com erros de comparação se necessário
-          console.warn(
-            `[deepFindByValue] Erro durante comparação no caminho "${newPath}": ${
-              error instanceof Error ? error.message : String(error)
-            }`
-          );
-        }
-
-        // Se o valor for um objeto ou array, adicioná-lo à pilha para pesquisar mais profundamente
-        if (value !== null && typeof value === "object") {
-          stack.push([value, newPath]);
+    let found = 0;
+    let sinceYield = 0;
+    const scan = scanValues(
+      "deepFindByValueAsync",
+      obj,
+      targetValue,
+      compare,
+      options
+    );
+    for (const { path, matched } of scan) {
+      if (matched) {
+        yield options.pathFormat === "segments" ? path : stringifyPath(path);
+        if (++found >= limit) {
+          return;
         }
       }
+      if (++sinceYield >= yieldEvery) {
+        sinceYield = 0;
+        await new Promise((resolve) => setImmediate(resolve));
+      }
     }
   }
 
-  // Como o DFS empurra filhos para a pilha e os processa por último, primeiro a ordem de descoberta
-  // pode aparecer em ordem inversa em relação aos irmãos.
-  // Muitas vezes, a ordem exata não é crítica, mas se necessário, pode ser ordenada.
-  return foundPaths;
+  return search();
 }
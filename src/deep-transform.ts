@@ -0,0 +1,380 @@
+import { walkEntries } from "./deep-walk";
+import type { TraversalOptions } from "./deep-walk";
+import type { PathSegment } from "./types";
+import { createTraversalGuard } from "./utils/traversalGuard";
+import type { TraversalGuard } from "./utils/traversalGuard";
+
+/**
+ * Valor que, retornado por um callback de `deepTransform`, `deepMapValues` ou `deepMapKeys`,
+ * remove a entrada (e toda a sua subárvore) do resultado. Elementos removidos de arrays e `Set`
+ * não deixam buracos.
+ */
+export const DROP: unique symbol = Symbol("deep-tools.drop");
+
+/**
+ * Uma entrada visitada por `deepTransform`.
+ */
+export interface TransformEntry {
+  /** A chave (propriedades de objeto e entradas de `Map`) ou índice (arrays e posição em `Set`). */
+  key: PathSegment;
+  /** O valor original da entrada. */
+  value: unknown;
+  /** Caminho até o valor na estrutura **original**, em segmentos. */
+  path: PathSegment[];
+  /** O contêiner original que contém a entrada. */
+  parent: object;
+  /** Profundidade da entrada (filhos diretos da raiz têm profundidade 1). */
+  depth: number;
+  /**
+   * Troca a chave da entrada no resultado. Só tem efeito em objetos e `Map`; elementos de
+   * arrays e membros de `Set` mantêm a sua posição.
+   */
+  rename(key: PathSegment): void;
+}
+
+/**
+ * Visitante de `deepTransform`. Retorna o valor que ocupa a entrada no resultado:
+ * - o próprio `entry.value`: mantém a entrada, descendo nela se for um contêiner;
+ * - outro valor: substitui a entrada (e a subárvore), sem descer no novo valor;
+ * - `DROP`: remove a entrada.
+ */
+export type TransformVisitor = (entry: TransformEntry) => unknown;
+
+/**
+ * Função de `deepMapValues`: recebe cada valor folha e retorna o novo valor (ou `DROP`).
+ *
+ * @param {unknown} value - O valor original.
+ * @param {PathSegment} key - A chave ou índice do valor.
+ * @param {PathSegment[]} path - O caminho do valor na estrutura original.
+ * @param {number} depth - A profundidade do valor.
+ */
+export type ValueMapper = (
+  value: unknown,
+  key: PathSegment,
+  path: PathSegment[],
+  depth: number
+) => unknown;
+
+/**
+ * Função de `deepMapKeys`: recebe cada chave de objeto ou `Map` e retorna a nova chave (ou `DROP`).
+ *
+ * @param {PathSegment} key - A chave original.
+ * @param {unknown} value - O valor associado à chave.
+ * @param {PathSegment[]} path - O caminho do valor na estrutura original.
+ * @param {number} depth - A profundidade do valor.
+ */
+export type KeyMapper = (
+  key: PathSegment,
+  value: unknown,
+  path: PathSegment[],
+  depth: number
+) => PathSegment | typeof DROP;
+
+type Container =
+  | unknown[]
+  | Map<unknown, unknown>
+  | Set<unknown>
+  | Record<PathSegment, unknown>;
+
+/**
+ * Contêineres reconstruídos pela transformação: arrays, `Map`, `Set` e objetos simples e, com
+ * `instances`, também instâncias de classes e `Error`. `Date`, typed arrays e demais tipos nativos
+ * são tratados como valores folha.
+ */
+function isTraversable(value: unknown, instances = false): value is Container {
+  if (value === null || typeof value !== "object") {
+    return false;
+  }
+  if (Array.isArray(value) || value instanceof Map || value instanceof Set) {
+    return true;
+  }
+  const proto = Object.getPrototypeOf(value);
+  if (proto === Object.prototype || proto === null) {
+    return true;
+  }
+  const tag = Object.prototype.toString.call(value);
+  return instances && (tag === "[object Object]" || tag === "[object Error]");
+}
+
+/**
+ * Cria um contêiner vazio do mesmo tipo de `value`. Entradas de `Map` cujas chaves não são
+ * percorridas por `deepWalk` (ex: chaves objeto) são mantidas por referência, já que nunca são visitadas.
+ * Instâncias mantêm o protótipo e as propriedades próprias não enumeráveis (ex: `message` e `stack`
+ * de um `Error`), que também não são visitadas.
+ */
+function emptyCopy(value: Container, options: TransformOptions): Container {
+  if (Array.isArray(value)) {
+    return [];
+  }
+  if (value instanceof Map) {
+    const copy = new Map();
+    value.forEach((entryValue, key) => {
+      const visited =
+        typeof key === "string" ||
+        typeof key === "number" ||
+        (options.includeSymbols && typeof key === "symbol");
+      if (!visited) {
+        copy.set(key, entryValue);
+      }
+    });
+    return copy;
+  }
+  if (value instanceof Set) {
+    return new Set();
+  }
+  const proto = Object.getPrototypeOf(value);
+  const copy = Object.create(proto);
+  if (proto !== Object.prototype && proto !== null) {
+    for (const key of Reflect.ownKeys(value)) {
+      if (!Object.prototype.propertyIsEnumerable.call(value, key)) {
+        Object.defineProperty(
+          copy,
+          key,
+          Object.getOwnPropertyDescriptor(value, key)!
+        );
+      }
+    }
+  }
+  return copy;
+}
+
+/**
+ * Opções aceitas por `deepTransform`, `deepMapValues` e `deepMapKeys`.
+ */
+export interface TransformOptions extends TraversalOptions {
+  /**
+   * Tratamento de referências repetidas, como em `deepWalk`:
+   * - `'visited'` (padrão): cada objeto é copiado uma única vez, e todas as suas ocorrências
+   *   apontam para a mesma cópia;
+   * - `'ancestors'`: objetos compartilhados por vários ramos são transformados separadamente em
+   *   cada caminho (útil quando o visitante decide pelo caminho); apenas ciclos reais apontam para
+   *   a cópia do ancestral.
+   */
+  cycles?: "visited" | "ancestors";
+}
+
+/** Opções de `transformStructure`: as de `TransformOptions` e as usadas apenas internamente. */
+export interface StructureOptions extends TransformOptions {
+  /**
+   * Reconstrói também instâncias de classes e `Error` (propriedades próprias enumeráveis, com o mesmo
+   * protótipo) em vez de mantê-las como folhas, para que o visitante alcance os valores dentro delas.
+   */
+  instances?: boolean;
+}
+
+function writeEntry(copy: Container, key: PathSegment, value: unknown): void {
+  if (Array.isArray(copy)) {
+    copy.push(value);
+  } else if (copy instanceof Map) {
+    copy.set(key, value);
+  } else if (copy instanceof Set) {
+    copy.add(value);
+  } else {
+    // defineProperty evita que uma chave "__proto__" troque o protótipo da cópia
+    Object.defineProperty(copy, key, {
+      value,
+      enumerable: true,
+      writable: true,
+      configurable: true,
+    });
+  }
+}
+
+/**
+ * Reconstrói uma estrutura aninhada chamando `visitor` para cada entrada, em pré-ordem (ordem do
+ * documento). O visitante decide se cada entrada é mantida, substituída ou removida, e pode renomear
+ * chaves. O resultado é sempre uma nova estrutura: arrays, `Map`, `Set` e objetos simples mantidos
+ * são copiados, e a entrada original não é modificada.
+ *
+ * Referências compartilhadas e circulares são detectadas como nos finders (cada objeto é expandido uma
+ * única vez) e preservadas: um objeto que aparece várias vezes na entrada aparece como a mesma cópia
+ * no resultado, e ciclos apontam para as cópias. Raízes que não são contêineres são retornadas como estão.
+ *
+ * Se o visitante lançar uma exceção com `onError` `'collect'` ou `'ignore'`, a entrada é mantida como está.
+ *
+ * @template R O tipo esperado do resultado.
+ * @param {unknown} obj - A estrutura a transformar.
+ * @param {TransformVisitor} visitor - Chamado para cada entrada; retorna o valor da entrada no resultado ou `DROP`.
+ * @param {TransformOptions} [opcoes] - Getters, chaves `symbol`, tratamento de referências repetidas e limites.
+ * @returns {R} A nova estrutura.
+ * @throws {TypeError} Se `visitor` não for uma função.
+ * @throws {CallbackError} Se o visitante lançar uma exceção, com `onError: 'throw'`.
+ * @throws {TraversalLimitError} Se `maxDepth` ou `maxNodes` for excedido com `onError: 'throw'`.
+ *
+ * @example
+ * const dados = { nome: ' Ana ', senha: 'x', itens: [{ preco: '10' }] };
+ * deepTransform(dados, (entry) => {
+ *   if (entry.key === 'senha') return DROP;
+ *   if (entry.key === 'preco') return Number(entry.value);
+ *   return entry.value;
+ * });
+ * // { nome: ' Ana ', itens: [{ preco: 10 }] }
+ */
+export function deepTransform<R = unknown>(
+  obj: unknown,
+  visitor: TransformVisitor,
+  options: TransformOptions = {}
+): R {
+  if (typeof visitor !== "function") {
+    throw new TypeError("deepTransform: visitor deve ser uma função.");
+  }
+  return transformStructure("deepTransform", obj, visitor, options);
+}
+
+/**
+ * Implementação de `deepTransform`, com o nome da função pública usado nos erros. Um guarda já
+ * criado pode ser passado para compartilhar os limites com outra passada da mesma chamada.
+ */
+export function transformStructure<R = unknown>(
+  fnName: string,
+  obj: unknown,
+  visitor: TransformVisitor,
+  options: StructureOptions,
+  guard: TraversalGuard = createTraversalGuard(fnName, options)
+): R {
+  const { cycles = "visited", instances = false } = options;
+  if (!isTraversable(obj, instances)) {
+    return obj as R;
+  }
+
+  const root = emptyCopy(obj, options);
+  const copies = new Map<object, Container>([[obj, root]]); // Original -> cópia, preserva referências compartilhadas/circulares
+  // Contêineres expandidos no ramo atual, por profundidade (a raiz na profundidade 0)
+  const originals: object[] = [obj];
+  const branch: Container[] = [root];
+
+  const walk = walkEntries(
+    obj,
+    { ...options, cycles, maxDepth: undefined },
+    guard
+  );
+  for (const entry of walk) {
+    let key = entry.key;
+    const result = guard.call(entry.path, entry.value, () =>
+      visitor({
+        key: entry.key,
+        value: entry.value,
+        path: entry.path,
+        parent: entry.parent,
+        depth: entry.depth,
+        rename: (newKey) => {
+          key = newKey;
+        },
+      })
+    );
+
+    if (result === DROP) {
+      entry.skip();
+      continue;
+    }
+
+    let output = result;
+    if (!Object.is(result, entry.value) || !isTraversable(result, instances)) {
+      entry.skip(); // Valores substituídos e folhas não são percorridos
+    } else if (entry.seen) {
+      // Referência compartilhada ou circular: aponta para a cópia já criada
+      output =
+        cycles === "ancestors"
+          ? branch[originals.lastIndexOf(result, entry.depth - 1)]
+          : copies.get(result);
+    } else {
+      output = emptyCopy(result, options);
+      copies.set(result, output as Container);
+      originals.length = branch.length = entry.depth;
+      originals.push(result);
+      branch.push(output as Container);
+    }
+
+    // Em pré-ordem, o último contêiner expandido na profundidade anterior é o pai da entrada
+    writeEntry(branch[entry.depth - 1], key, output);
+  }
+
+  return root as R;
+}
+
+/**
+ * Aplica `fn` a cada valor folha (tudo o que não é array, `Map`, `Set` ou objeto simples) de uma
+ * estrutura aninhada, retornando uma nova estrutura com o mesmo formato. Retornar `DROP` remove o valor.
+ * Referências compartilhadas e circulares são preservadas como em `deepTransform`.
+ *
+ * @template R O tipo esperado do resultado.
+ * @param {unknown} obj - A estrutura a transformar.
+ * @param {ValueMapper} fn - Recebe `(value, key, path, depth)` e retorna o novo valor ou `DROP`.
+ * @param {TransformOptions} [opcoes] - Getters, chaves `symbol`, tratamento de referências repetidas e limites.
+ * @returns {R} A nova estrutura.
+ * @throws {TypeError} Se `fn` não for uma função.
+ * @throws {CallbackError} Se `fn` lançar uma exceção, com `onError: 'throw'` (com `'collect'` ou `'ignore'`, a entrada é mantida).
+ *
+ * @example
+ * deepMapValues({ nome: ' Ana ', tags: [' a ', 1] }, (v) =>
+ *   typeof v === 'string' ? v.trim() : v
+ * ); // { nome: 'Ana', tags: ['a', 1] }
+ *
+ * deepMapValues({ criado: '2024-01-01T00:00:00Z' }, (v) =>
+ *   typeof v === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(v) ? new Date(v) : v
+ * ); // { criado: Date }
+ */
+export function deepMapValues<R = unknown>(
+  obj: unknown,
+  fn: ValueMapper,
+  options: TransformOptions = {}
+): R {
+  if (typeof fn !== "function") {
+    throw new TypeError("deepMapValues: fn deve ser uma função.");
+  }
+  return transformStructure<R>(
+    "deepMapValues",
+    obj,
+    (entry) =>
+      isTraversable(entry.value)
+        ? entry.value
+        : fn(entry.value, entry.key, entry.path, entry.depth),
+    options
+  );
+}
+
+/**
+ * Renomeia as chaves de objetos e `Map` em qualquer profundidade com `fn`, retornando uma nova
+ * estrutura. Índices de arrays e posições de `Set` não são passados para `fn`. Retornar `DROP` remove
+ * a entrada; se duas chaves forem renomeadas para a mesma, a última prevalece.
+ * Referências compartilhadas e circulares são preservadas como em `deepTransform`.
+ *
+ * @template R O tipo esperado do resultado.
+ * @param {unknown} obj - A estrutura a transformar.
+ * @param {KeyMapper} fn - Recebe `(key, value, path, depth)` e retorna a nova chave ou `DROP`.
+ * @param {TransformOptions} [opcoes] - Getters, chaves `symbol`, tratamento de referências repetidas e limites.
+ * @returns {R} A nova estrutura.
+ * @throws {TypeError} Se `fn` não for uma função.
+ * @throws {CallbackError} Se `fn` lançar uma exceção, com `onError: 'throw'` (com `'collect'` ou `'ignore'`, a entrada é mantida).
+ *
+ * @example
+ * const camel = (k: PathSegment) =>
+ *   typeof k === 'string' ? k.replace(/_([a-z])/g, (_, c) => c.toUpperCase()) : k;
+ * deepMapKeys({ user_name: 'Ana', home_address: { zip_code: '1' } }, camel);
+ * // { userName: 'Ana', homeAddress: { zipCode: '1' } }
+ */
+export function deepMapKeys<R = unknown>(
+  obj: unknown,
+  fn: KeyMapper,
+  options: TransformOptions = {}
+): R {
+  if (typeof fn !== "function") {
+    throw new TypeError("deepMapKeys: fn deve ser uma função.");
+  }
+  return transformStructure<R>(
+    "deepMapKeys",
+    obj,
+    (entry) => {
+      if (Array.isArray(entry.parent) || entry.parent instanceof Set) {
+        return entry.value;
+      }
+      const key = fn(entry.key, entry.value, entry.path, entry.depth);
+      if (key === DROP) {
+        return DROP;
+      }
+      entry.rename(key);
+      return entry.value;
+    },
+    options
+  );
+}
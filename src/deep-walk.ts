@@ -0,0 +1,405 @@
+import type { PathSegment, SafetyOptions } from "./types";
+import { createTraversalGuard } from "./utils/traversalGuard";
+import type { TraversalGuard } from "./utils/traversalGuard";
+
+/**
+ * Uma entrada produzida por `deepWalk`: uma chave de um objeto ou índice de um array
+ * encontrada durante a travessia, junto com os controles da travessia.
+ */
+export interface WalkEntry {
+  /**
+   * A chave (propriedades de objeto e entradas de `Map`) ou índice (elementos de array e
+   * posição de membros de `Set`) da entrada.
+   */
+  key: PathSegment;
+  /** O valor associado à chave. */
+  value: unknown;
+  /** Caminho completo até o valor, em segmentos. */
+  path: PathSegment[];
+  /** O objeto, array, `Map` ou `Set` que contém a chave. */
+  parent: object;
+  /** Profundidade da entrada (filhos diretos da raiz têm profundidade 1). */
+  depth: number;
+  /**
+   * `true` se o valor é um objeto que já foi visitado (ou, com `cycles: 'ancestors'`,
+   * um ancestral da entrada) e por isso não será expandido novamente.
+   */
+  seen: boolean;
+  /** Impede a travessia de descer no valor desta entrada. Só tem efeito em pré-ordem. */
+  skip(): void;
+  /** Encerra a travessia após esta entrada. */
+  stop(): void;
+}
+
+/**
+ * Opções que controlam quais chaves são percorridas, compartilhadas por `deepWalk` e pelos finders,
+ * junto com o tratamento de erros e os limites de `SafetyOptions`.
+ */
+export interface TraversalOptions extends SafetyOptions {
+  /**
+   * Quando `true`, também percorre getters de objetos simples e instâncias de classes: acessores
+   * não enumeráveis e acessores definidos no protótipo (ex: `get total()` de uma classe).
+   * Getters que lançam erros são ignorados. Padrão: `false`.
+   */
+  includeGetters?: boolean;
+  /**
+   * Quando `true`, também percorre chaves `symbol` enumeráveis (e chaves `symbol` de `Map`).
+   * Caminhos com esses segmentos só podem ser usados em forma de array. Padrão: `false`.
+   */
+  includeSymbols?: boolean;
+}
+
+/**
+ * Opções aceitas por `deepWalk` e `deepVisit`.
+ */
+export interface WalkOptions extends TraversalOptions {
+  /** Estratégia de travessia: `'dfs'` (padrão, ordem do documento) ou `'bfs'` (mais rasas primeiro). */
+  strategy?: "dfs" | "bfs";
+  /**
+   * Momento em que cada entrada é produzida em relação aos seus descendentes:
+   * `'pre'` (padrão) antes deles, `'post'` depois deles. `'post'` requer `strategy: 'dfs'`.
+   */
+  order?: "pre" | "post";
+  /**
+   * Profundidade máxima das entradas produzidas (filhos diretos da raiz têm profundidade 1).
+   * Entradas mais profundas simplesmente não são percorridas, sem gerar erros.
+   */
+  maxDepth?: number;
+  /**
+   * Tratamento de referências repetidas:
+   * - `'visited'` (padrão): cada objeto é expandido no máximo uma vez, como nos finders.
+   * - `'ancestors'`: apenas ciclos reais (um objeto dentro de si mesmo) são interrompidos;
+   *   objetos compartilhados por vários ramos são expandidos em cada um deles.
+   */
+  cycles?: "visited" | "ancestors";
+}
+
+/**
+ * Retorna as entradas [chave, valor] de um contêiner, na ordem do documento:
+ * - Arrays e typed arrays: índices como números;
+ * - `Map`: as chaves do `Map` (apenas strings e números, ou também `symbol` com `includeSymbols`,
+ *   pois outras chaves não podem ser representadas em um caminho);
+ * - `Set`: a posição de cada membro na ordem de inserção, como número;
+ * - Demais objetos: chaves próprias enumeráveis, mais getters e símbolos se solicitado.
+ */
+function childEntries(
+  node: object,
+  options: TraversalOptions
+): [PathSegment, unknown][] {
+  if (node instanceof Map) {
+    const entries: [PathSegment, unknown][] = [];
+    node.forEach((value, key) => {
+      if (
+        typeof key === "string" ||
+        typeof key === "number" ||
+        (options.includeSymbols && typeof key === "symbol")
+      ) {
+        entries.push([key, value]);
+      }
+    });
+    return entries;
+  }
+  if (node instanceof Set) {
+    return [...node].map((member, index) => [index, member]);
+  }
+
+  const indexed = Array.isArray(node) || isTypedArray(node);
+  const entries: [PathSegment, unknown][] = Object.entries(node).map(
+    ([key, value]) => [indexed ? Number(key) : key, value]
+  );
+
+  if (
+    options.includeGetters &&
+    Object.prototype.toString.call(node) === "[object Object]"
+  ) {
+    const known = new Set<PathSegment>(Object.keys(node));
+    // Acessores próprios não enumeráveis e acessores herdados, até Object.prototype
+    for (
+      let target: object | null = node;
+      target !== null && target !== Object.prototype;
+      target = Object.getPrototypeOf(target)
+    ) {
+      for (const key of Object.getOwnPropertyNames(target)) {
+        const descriptor = Object.getOwnPropertyDescriptor(target, key);
+        if (known.has(key) || !descriptor?.get) {
+          continue;
+        }
+        known.add(key);
+        try {
+          entries.push([key, descriptor.get.call(node)]);
+        } catch {
+          // Getters que lançam erros são ignorados
+        }
+      }
+    }
+  }
+
+  if (options.includeSymbols) {
+    for (const symbol of Object.getOwnPropertySymbols(node)) {
+      if (Object.prototype.propertyIsEnumerable.call(node, symbol)) {
+        entries.push([symbol, (node as Record<symbol, unknown>)[symbol]]);
+      }
+    }
+  }
+
+  return entries;
+}
+
+function isTypedArray(value: object): boolean {
+  return ArrayBuffer.isView(value) && !(value instanceof DataView);
+}
+
+function isContainer(value: unknown): value is object {
+  return value !== null && typeof value === "object";
+}
+
+/**
+ * Estado interno de uma entrada: os controles chamados pelo consumidor
+ * e os ancestrais usados com `cycles: 'ancestors'`.
+ */
+interface EntryState {
+  entry: WalkEntry;
+  skipped: boolean;
+  ancestors: object[];
+}
+
+/**
+ * Percorre preguiçosamente um objeto ou array, produzindo uma `WalkEntry` para cada chave/índice
+ * encontrado em qualquer profundidade. A raiz em si não é produzida. Nada é percorrido além do
+ * que o consumidor pede: interromper a iteração (`break`, `entry.stop()`) encerra a travessia, e
+ * `entry.skip()` evita descer em um ramo.
+ *
+ * Com `maxNodes`, a travessia termina ao exceder o número de entradas (reportando um
+ * `TraversalLimitError` conforme `onError`), e um `signal` abortado interrompe a iteração.
+ *
+ * @param {unknown} obj - O objeto ou array a percorrer. Valores não pesquisáveis (nulo, primitivos) não produzem entradas.
+ * @param {WalkOptions} [opcoes] - Estratégia, ordem, profundidade máxima, tratamento de ciclos e limites.
+ * @returns {Generator<WalkEntry, void, undefined>} Um gerador de entradas.
+ * @throws {TypeError} Se `order: 'post'` for combinado com `strategy: 'bfs'`, ou se `onError` for inválido.
+ * @throws {TraversalLimitError} Se `maxNodes` for excedido com `onError: 'throw'`.
+ *
+ * @example
+ * const meuObj = { a: 1, b: { c: 2, d: [3] } };
+ * for (const entry of deepWalk(meuObj)) {
+ *   console.log(stringifyPath(entry.path), entry.depth);
+ * }
+ * // 'a' 1, 'b' 1, 'b.c' 2, 'b.d' 2, 'b.d[0]' 3
+ *
+ * for (const entry of deepWalk(meuObj)) {
+ *   if (entry.key === 'b') entry.skip(); // não desce em 'b'
+ * }
+ *
+ * [...deepWalk(meuObj, { order: 'post' })].map((e) => e.key); // ['a', 'c', 0, 'd', 'b']
+ */
+export function* deepWalk(
+  obj: unknown,
+  options: WalkOptions = {}
+): Generator<WalkEntry, void, undefined> {
+  // O `maxDepth` de deepWalk limita a travessia sem ser um erro
+  yield* walkEntries(
+    obj,
+    options,
+    createTraversalGuard("deepWalk", { ...options, maxDepth: undefined })
+  );
+}
+
+/**
+ * Implementação de `deepWalk` com um guarda fornecido pela função chamadora, que consulta o guarda
+ * antes de produzir cada entrada: entradas recusadas não são produzidas nem expandidas.
+ */
+export function* walkEntries(
+  obj: unknown,
+  options: WalkOptions,
+  guard: TraversalGuard
+): Generator<WalkEntry, void, undefined> {
+  const {
+    strategy = "dfs",
+    order = "pre",
+    maxDepth = Infinity,
+    cycles = "visited",
+  } = options;
+
+  if (order === "post" && strategy === "bfs") {
+    throw new TypeError("deepWalk: order 'post' requer strategy 'dfs'.");
+  }
+
+  if (!isContainer(obj)) {
+    return;
+  }
+
+  const visited = new Set<object>([obj]); // Evitar loops infinitos em estruturas circulares
+  let stopped = false;
+
+  const createState = (
+    key: PathSegment,
+    value: unknown,
+    parent: object,
+    parentPath: PathSegment[],
+    ancestors: object[]
+  ): EntryState => {
+    const state: EntryState = {
+      entry: {
+        key,
+        value,
+        path: [...parentPath, key],
+        parent,
+        depth: parentPath.length + 1,
+        seen: false,
+        skip: () => {
+          state.skipped = true;
+        },
+        stop: () => {
+          stopped = true;
+        },
+      },
+      skipped: false,
+      ancestors,
+    };
+    return state;
+  };
+
+  // Calculado no momento em que a entrada é alcançada, pois ramos anteriores podem ter visitado o valor
+  const markSeen = (state: EntryState): void => {
+    const { value } = state.entry;
+    state.entry.seen =
+      isContainer(value) &&
+      (cycles === "ancestors"
+        ? state.ancestors.includes(value)
+        : visited.has(value));
+  };
+
+  // Decide se o valor da entrada deve ser expandido, marcando-o como visitado
+  const shouldExpand = (
+    state: EntryState
+  ): state is EntryState & {
+    entry: { value: object };
+  } => {
+    const { value, depth } = state.entry;
+    if (state.skipped || !isContainer(value) || depth >= maxDepth) {
+      return false;
+    }
+    if (cycles === "ancestors") {
+      return !state.ancestors.includes(value);
+    }
+    if (visited.has(value)) {
+      return false;
+    }
+    visited.add(value);
+    return true;
+  };
+
+  const childStates = (state: EntryState & { entry: { value: object } }) => {
+    const { value, path } = state.entry;
+    const ancestors =
+      cycles === "ancestors" ? [...state.ancestors, value] : state.ancestors;
+    return childEntries(value, options).map(([key, child]) =>
+      createState(key, child, value, path, ancestors)
+    );
+  };
+
+  const rootStates = childEntries(obj, options).map(([key, value]) =>
+    createState(key, value, obj, [], [obj])
+  );
+
+  if (strategy === "bfs") {
+    const queue = rootStates;
+    for (let head = 0; head < queue.length; head++) {
+      const state = queue[head];
+      if (!guard.visit(state.entry.path, state.entry.depth)) {
+        if (guard.stopped) {
+          return;
+        }
+        continue;
+      }
+      markSeen(state);
+      yield state.entry;
+      if (stopped) {
+        return;
+      }
+      if (shouldExpand(state)) {
+        queue.push(...childStates(state));
+      }
+    }
+    return;
+  }
+
+  // DFS: cada quadro guarda as entradas de um nível e a entrada que o originou (para pós-ordem)
+  const stack: { states: EntryState[]; index: number; owner?: EntryState }[] = [
+    { states: rootStates, index: 0 },
+  ];
+
+  while (stack.length > 0) {
+    const frame = stack[stack.length - 1];
+
+    if (frame.index >= frame.states.length) {
+      stack.pop();
+      if (order === "post" && frame.owner) {
+        yield frame.owner.entry;
+        if (stopped) {
+          return;
+        }
+      }
+      continue;
+    }
+
+    const state = frame.states[frame.index++];
+    if (!guard.visit(state.entry.path, state.entry.depth)) {
+      if (guard.stopped) {
+        return;
+      }
+      continue;
+    }
+    markSeen(state);
+    if (order === "pre") {
+      yield state.entry;
+      if (stopped) {
+        return;
+      }
+    }
+
+    if (shouldExpand(state)) {
+      stack.push({ states: childStates(state), index: 0, owner: state });
+    } else if (order === "post") {
+      yield state.entry;
+      if (stopped) {
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * Versão com visitante de `deepWalk`: chama `visitor` para cada entrada, na ordem da travessia.
+ * O visitante pode usar `entry.skip()` e `entry.stop()` para controlar a travessia. Exceções do
+ * visitante são reportadas como `CallbackError` conforme `onError`.
+ *
+ * @param {unknown} obj - O objeto ou array a percorrer.
+ * @param {(entry: WalkEntry) => void} visitor - Função chamada para cada entrada.
+ * @param {WalkOptions} [opcoes] - As mesmas opções de `deepWalk`.
+ * @throws {TypeError} Se `visitor` não for uma função.
+ * @throws {CallbackError} Se o visitante lançar uma exceção, com `onError: 'throw'`.
+ *
+ * @example
+ * const chaves: string[] = [];
+ * deepVisit({ a: { b: 1 }, c: 2 }, (entry) => {
+ *   chaves.push(stringifyPath(entry.path));
+ *   if (entry.key === 'a') entry.skip();
+ * });
+ * chaves; // ['a', 'c']
+ */
+export function deepVisit(
+  obj: unknown,
+  visitor: (entry: WalkEntry) => void,
+  options: WalkOptions = {}
+): void {
+  if (typeof visitor !== "function") {
+    throw new TypeError("deepVisit: visitor deve ser uma função.");
+  }
+  const guard = createTraversalGuard("deepVisit", {
+    ...options,
+    maxDepth: undefined,
+  });
+  for (const entry of walkEntries(obj, options, guard)) {
+    guard.call(entry.path, undefined, () => visitor(entry));
+  }
+}
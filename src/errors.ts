@@ -0,0 +1,163 @@
+import type { PathSegment } from "./types";
+import { stringifyPath } from "./utils/stringifyPath";
+
+/**
+ * Erro lançado quando uma string de caminho não pode ser analisada.
+ * Indica a string original e a posição (índice baseado em zero) onde o problema foi encontrado.
+ *
+ * @example
+ * try {
+ *   parsePath('a[0');
+ * } catch (e) {
+ *   if (e instanceof PathSyntaxError) {
+ *     console.error(e.path, e.position); // 'a[0', 1
+ *   }
+ * }
+ */
+export class PathSyntaxError extends SyntaxError {
+  /** A string de caminho que falhou na análise. */
+  readonly path: string;
+  /** Posição (índice baseado em zero) do problema dentro de `path`. */
+  readonly position: number;
+
+  constructor(message: string, path: string, position: number) {
+    super(`${message} (posição ${position} em "${path}")`);
+    this.name = "PathSyntaxError";
+    this.path = path;
+    this.position = position;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Erro lançado por `applyPatch` quando uma operação não pode ser aplicada.
+ * Indica a operação que falhou e sua posição na lista de operações.
+ *
+ * @example
+ * try {
+ *   applyPatch({ a: 1 }, [{ op: 'remove', path: '/b' }]);
+ * } catch (e) {
+ *   if (e instanceof PatchError) {
+ *     console.error(e.index, e.operation); // 0, { op: 'remove', path: '/b' }
+ *   }
+ * }
+ */
+export class PatchError extends Error {
+  /** A operação que falhou. */
+  readonly operation: unknown;
+  /** Índice (baseado em zero) da operação na lista recebida. */
+  readonly index: number;
+
+  constructor(message: string, operation: unknown, index: number) {
+    super(`${message} (operação ${index})`);
+    this.name = "PatchError";
+    this.operation = operation;
+    this.index = index;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/** Caminho em segmentos para mensagens de erro; caminhos com símbolos não têm forma de `parsePath`. */
+function describePath(path: readonly PathSegment[]): string {
+  try {
+    return stringifyPath(path);
+  } catch {
+    return path.map(String).join(".");
+  }
+}
+
+/**
+ * Erro reportado quando uma travessia excede `maxDepth` ou `maxNodes` (veja `SafetyOptions`).
+ * Indica o limite excedido e o caminho do primeiro valor além dele.
+ *
+ * @example
+ * try {
+ *   deepFindByValue(payload, 'x', undefined, { maxNodes: 10_000 });
+ * } catch (e) {
+ *   if (e instanceof TraversalLimitError) {
+ *     console.error(e.limit, e.max, e.path); // 'maxNodes', 10000, ['itens', 9998, 'id']
+ *   }
+ * }
+ */
+export class TraversalLimitError extends RangeError {
+  /** O limite excedido. */
+  readonly limit: "maxDepth" | "maxNodes";
+  /** O valor configurado para o limite. */
+  readonly max: number;
+  /** Caminho, em segmentos, do primeiro valor além do limite. */
+  readonly path: PathSegment[];
+
+  constructor(
+    message: string,
+    limit: "maxDepth" | "maxNodes",
+    max: number,
+    path: PathSegment[]
+  ) {
+    super(`${message} (${limit}: ${max}, em "${describePath(path)}")`);
+    this.name = "TraversalLimitError";
+    this.limit = limit;
+    this.max = max;
+    this.path = path;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Erro reportado quando um callback do usuário (comparador, predicado, visitante, customizer) lança
+ * uma exceção durante uma travessia. O erro original fica em `cause`.
+ *
+ * @example
+ * try {
+ *   deepFindByValue({ a: { b: null } }, 1, (v: any) => v.b.c === 1);
+ * } catch (e) {
+ *   if (e instanceof CallbackError) {
+ *     console.error(e.path, e.cause); // ['a', 'b'], TypeError: Cannot read properties of null
+ *   }
+ * }
+ */
+export class CallbackError extends Error {
+  /** Caminho, em segmentos, do valor que estava sendo processado. */
+  readonly path: PathSegment[];
+  /** A exceção lançada pelo callback. */
+  readonly cause: unknown;
+
+  constructor(message: string, path: PathSegment[], cause: unknown) {
+    super(
+      `${message} em "${describePath(path)}": ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`
+    );
+    this.name = "CallbackError";
+    this.path = path;
+    this.cause = cause;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Erro lançado quando um caminho é recusado pelas `PathSecurityOptions`: contém um segmento que
+ * alcança protótipos (`__proto__`, `constructor`, `prototype`) ou uma raiz fora de `allowedRoots`.
+ *
+ * @example
+ * try {
+ *   deepSet({}, '__proto__.admin', true);
+ * } catch (e) {
+ *   if (e instanceof UnsafePathError) {
+ *     console.error(e.segment, e.path); // '__proto__', ['__proto__', 'admin']
+ *   }
+ * }
+ */
+export class UnsafePathError extends TypeError {
+  /** O caminho recusado, em segmentos. */
+  readonly path: PathSegment[];
+  /** O segmento que causou a recusa. */
+  readonly segment: PathSegment;
+
+  constructor(message: string, path: PathSegment[], segment: PathSegment) {
+    super(`${message} (em "${describePath(path)}")`);
+    this.name = "UnsafePathError";
+    this.path = path;
+    this.segment = segment;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
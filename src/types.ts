@@ -0,0 +1,318 @@
+/**
+ * Um segmento individual de um caminho: uma chave de propriedade, um índice de array,
+ * uma chave de `Map` ou a posição de um membro de `Set`. Chaves `symbol` só aparecem em
+ * caminhos produzidos com `includeSymbols` e não têm representação em string.
+ */
+export type PathSegment = string | number | symbol;
+
+/**
+ * Representa um caminho dentro de um objeto, que pode ser uma string separada por pontos,
+ * ou um array de chaves e índices.
+ *
+ * @example
+ * 'a.b.c'
+ * ['a', 'b', 0, 'c']
+ * 'a.b[0].c'
+ * 'a["chave com.ponto"].b'
+ */
+export type ObjectPath = string | readonly PathSegment[];
+
+/**
+ * Proteção contra poluição de protótipos em caminhos fornecidos pelo usuário (ex: vindos de query
+ * strings). Ativa por padrão nas funções de escrita (`deepSet`, `deepUnset`, `deepUpdate`, as
+ * variantes imutáveis e `applyPatch`); opcional em `deepGet`.
+ */
+export interface PathSecurityOptions {
+  /**
+   * Tratamento de segmentos `__proto__`, `constructor` e `prototype`:
+   * - `'reject'`: lança `UnsafePathError` (padrão nas funções de escrita);
+   * - `'ignore'`: a operação não tem efeito (leituras retornam o valor padrão);
+   * - `'allow'`: sem verificação (padrão em `deepGet`).
+   */
+  unsafeSegments?: "reject" | "ignore" | "allow";
+  /**
+   * Chaves permitidas no primeiro segmento do caminho (índices e chaves comparados como strings).
+   * Caminhos com outra raiz lançam `UnsafePathError`, ou não têm efeito com `unsafeSegments: 'ignore'`.
+   */
+  allowedRoots?: readonly PathSegment[];
+}
+
+/**
+ * O que fazer com erros recuperáveis de uma travessia: exceções de callbacks do usuário
+ * (`CallbackError`) e limites excedidos (`TraversalLimitError`).
+ * - `'throw'` (padrão): lança o erro, interrompendo a função;
+ * - `'collect'`: acrescenta o erro a `errors` e continua;
+ * - `'ignore'`: descarta o erro e continua.
+ */
+export type ErrorPolicy = "throw" | "collect" | "ignore";
+
+/**
+ * Tratamento de erros e limites de segurança, aceitos por todas as funções que percorrem estruturas
+ * (`deepWalk`, finders, `deepQuery`, `deepTransform`, `deepPick`, `deepFlatten`, `deepClone`,
+ * `deepMergeWith`, `deepDiff`...), para entradas não confiáveis ou muito grandes.
+ *
+ * Ao continuar depois de um erro (`'collect'` ou `'ignore'`): um callback que falhou conta como
+ * "sem efeito" (nenhuma correspondência, valor mantido); valores além de `maxDepth` são ignorados;
+ * ao exceder `maxNodes` a travessia termina e o resultado é parcial. Cada limite é reportado uma vez.
+ */
+export interface SafetyOptions {
+  /** Política para erros de callbacks e limites excedidos. Padrão: `'throw'`. */
+  onError?: ErrorPolicy;
+  /** Array que recebe os erros com `onError: 'collect'` (obrigatório nesse modo). */
+  errors?: Error[];
+  /**
+   * Profundidade máxima dos valores visitados (filhos diretos da raiz têm profundidade 1).
+   * Em `deepWalk`, `deepFindAllByKey` e `deepFlatten`, `maxDepth` mantém o significado próprio
+   * de cada função e não gera erros. Padrão: sem limite.
+   */
+  maxDepth?: number;
+  /** Número máximo de valores visitados. Padrão: sem limite. */
+  maxNodes?: number;
+  /**
+   * Cancela a travessia: quando o sinal é abortado, a função lança `signal.reason`
+   * (independentemente de `onError`).
+   */
+  signal?: AbortSignal;
+}
+
+/** Limite de profundidade dos tipos de caminho, para evitar recursão infinita em tipos recursivos. */
+type PrevDepth = [never, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+/** Valores que não têm caminhos internos. */
+type PathLeaf =
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | null
+  | undefined
+  | Date
+  | RegExp
+  | ((...args: never[]) => unknown)
+  | (abstract new (...args: never[]) => unknown);
+
+type IsAny<T> = 0 extends 1 & T ? true : false;
+
+/**
+ * `true` para tipos cujos caminhos não podem ser verificados: `unknown`, `any` e objetos
+ * sem chaves conhecidas (`{}`, `object`).
+ */
+type IsUntyped<T> = IsAny<T> extends true
+  ? true
+  : unknown extends T
+  ? true
+  : [keyof T] extends [never]
+  ? T extends object
+    ? true
+    : false
+  : false;
+
+/** Chaves que exigem colchetes com aspas (mesma regra de `stringifyPath`). */
+type NeedsQuotes<K extends string> = K extends
+  | ""
+  | `${string}${"." | "[" | "]" | "'" | '"' | "\\" | " "}${string}`
+  ? true
+  : false;
+
+/** Chave entre colchetes com aspas duplas ou simples, como aceito por `parsePath`. */
+type QuotedKey<K extends string> = `["${K}"]` | `['${K}']`;
+
+/** Formata uma chave de objeto como o primeiro segmento de um caminho. */
+type FirstKey<K extends string | number> = K extends number
+  ? `${K}`
+  : NeedsQuotes<K & string> extends true
+  ? QuotedKey<K & string>
+  : K;
+
+/** Formata uma chave de objeto como um segmento que segue outro. */
+type NextKey<K extends string | number> = K extends number
+  ? `.${K}`
+  : NeedsQuotes<K & string> extends true
+  ? QuotedKey<K & string>
+  : `.${K}`;
+
+/** Typed arrays (`Uint8Array`, `Float64Array`...), acessados apenas por índice. */
+type TypedArrayLike = ArrayBufferView & { readonly [index: number]: unknown };
+
+/** Continuações possíveis depois de um valor do tipo `V` (começando com `.` ou `[`). */
+type SubPath<V, D extends number> = [D] extends [never]
+  ? `.${string}` | `[${string}`
+  : IsUntyped<V> extends true
+  ? `.${string}` | `[${string}`
+  : V extends string
+  ? ".length"
+  : V extends PathLeaf
+  ? never
+  : V extends ReadonlyMap<infer K, infer E>
+  ? [K] extends [string | number]
+    ? NextKey<K> | `${NextKey<K>}${SubPath<NonNullable<E>, PrevDepth[D]>}`
+    : `.${string}` | `[${string}`
+  : V extends ReadonlySet<infer E>
+  ? `[${number}]` | `[${number}]${SubPath<NonNullable<E>, PrevDepth[D]>}`
+  : V extends TypedArrayLike
+  ? `[${number}]` | `.${number}` | ".length"
+  : V extends readonly (infer E)[]
+  ?
+      | ".length"
+      | `[${number}]`
+      | `.${number}`
+      | `[${number}]${SubPath<NonNullable<E>, PrevDepth[D]>}`
+      | `.${number}${SubPath<NonNullable<E>, PrevDepth[D]>}`
+  : {
+      [K in keyof V & (string | number)]-?:
+        | NextKey<K>
+        | `${NextKey<K>}${SubPath<NonNullable<V[K]>, PrevDepth[D]>}`;
+    }[keyof V & (string | number)];
+
+/**
+ * Todos os caminhos em string válidos para o tipo `T`, na sintaxe de `parsePath`: notação de ponto
+ * para propriedades, colchetes para índices (`items[0]`, também aceito como `items.0`) e colchetes com
+ * aspas para chaves com caracteres especiais (`["key with.dot"]`). Propriedades opcionais e anuláveis
+ * são percorridas; abaixo de `unknown`/`any` qualquer continuação é aceita.
+ *
+ * @example
+ * type User = { name: string; address?: { city: string }; tags: string[] };
+ * type P = Path<User>;
+ * // 'name' | 'address' | 'address.city' | 'tags' | `tags[${number}]` | `tags.${number}`
+ */
+export type Path<T, D extends number = 10> = [D] extends [never]
+  ? string
+  : IsUntyped<T> extends true
+  ? string
+  : T extends PathLeaf
+  ? never
+  : T extends ReadonlyMap<infer K, infer E>
+  ? [K] extends [string | number]
+    ? FirstKey<K> | `${FirstKey<K>}${SubPath<NonNullable<E>, PrevDepth[D]>}`
+    : string
+  : T extends ReadonlySet<infer E>
+  ? `[${number}]` | `[${number}]${SubPath<NonNullable<E>, PrevDepth[D]>}`
+  : T extends TypedArrayLike
+  ? `[${number}]` | `${number}` | "length"
+  : T extends readonly (infer E)[]
+  ?
+      | "length"
+      | `[${number}]`
+      | `${number}`
+      | `[${number}]${SubPath<NonNullable<E>, PrevDepth[D]>}`
+      | `${number}${SubPath<NonNullable<E>, PrevDepth[D]>}`
+  : {
+      [K in keyof T & (string | number)]-?:
+        | FirstKey<K>
+        | `${FirstKey<K>}${SubPath<NonNullable<T[K]>, PrevDepth[D]>}`;
+    }[keyof T & (string | number)];
+
+/** Divide um caminho em string nos seus segmentos, como `parsePath` (índices ficam como strings). */
+type SplitPath<P extends string> =
+  P extends `${infer Head}[${infer Inner}]${infer Rest}`
+    ? [
+        ...SplitPath<Head>,
+        Inner extends `"${infer Quoted}"` | `'${infer Quoted}'`
+          ? Quoted
+          : Inner,
+        ...SplitPath<Rest>
+      ]
+    : P extends `.${infer Rest}`
+    ? SplitPath<Rest>
+    : P extends `${infer Head}.${infer Rest}`
+    ? [Head, ...SplitPath<Rest>]
+    : P extends ""
+    ? []
+    : [P];
+
+/** Marcador interno para segmentos inexistentes no tipo. */
+declare const invalidSegment: unique symbol;
+type InvalidSegment = typeof invalidSegment;
+
+/** Tipo do filho `K` de `T`; atravessar `null`/`undefined` resulta em `Nullish`. */
+type ChildValue<T, K, Nullish = undefined> = T extends null | undefined
+  ? Nullish
+  : IsUntyped<T> extends true
+  ? unknown
+  : T extends ReadonlyMap<unknown, infer E>
+  ? E | undefined
+  : T extends ReadonlySet<infer E>
+  ? E | undefined
+  : T extends readonly unknown[]
+  ? K extends number | `${number}`
+    ? `${K}` extends keyof T
+      ? T[`${K}` & keyof T]
+      : T[number]
+    : K extends keyof T
+    ? T[K]
+    : InvalidSegment
+  : K extends keyof T
+  ? T[K]
+  : `${K & (string | number)}` extends keyof T
+  ? T[`${K & (string | number)}` & keyof T]
+  : K extends `${infer N extends number}`
+  ? N extends keyof T
+    ? T[N]
+    : InvalidSegment
+  : InvalidSegment;
+
+/** Tipo do valor ao fim de uma lista de segmentos. */
+type ValueAtSegments<
+  T,
+  S extends readonly unknown[],
+  Nullish = undefined
+> = S extends readonly [infer Head, ...infer Rest]
+  ? ValueAtSegments<ChildValue<T, Head, Nullish>, Rest, Nullish>
+  : T;
+
+/**
+ * O tipo do valor em um caminho `P` (string ou tupla de segmentos) dentro de `T`, como resolvido
+ * por `deepGet`. Atravessar uma propriedade opcional ou anulável acrescenta `undefined` ao resultado;
+ * um caminho vazio resolve para `undefined`, e um caminho inexistente para `unknown`.
+ *
+ * @example
+ * type User = { name: string; address?: { city: string }; tags: string[] };
+ * type A = PathValue<User, 'address.city'>; // string | undefined
+ * type B = PathValue<User, 'tags[0]'>;      // string
+ * type C = PathValue<User, ['name']>;       // string
+ */
+export type PathValue<T, P> = P extends string
+  ? string extends P
+    ? unknown
+    : ResolveSegments<T, SplitPath<P>>
+  : P extends readonly PathSegment[]
+  ? number extends P["length"]
+    ? unknown
+    : ResolveSegments<T, P>
+  : unknown;
+
+/**
+ * Em uniões, membros sem o segmento contribuem com `undefined`; o caminho só é inexistente
+ * quando nenhum membro o possui.
+ */
+type ResolveSegments<T, S extends readonly unknown[]> = S extends readonly []
+  ? undefined
+  : [Exclude<ValueAtSegments<T, S>, InvalidSegment>] extends [never]
+  ? unknown
+  : InvalidSegment extends ValueAtSegments<T, S>
+  ? Exclude<ValueAtSegments<T, S>, InvalidSegment> | undefined
+  : ValueAtSegments<T, S>;
+
+/**
+ * `P` se for um caminho válido para `T`; caso contrário, os caminhos válidos (o que produz o erro
+ * de tipo e o autocompletar). Caminhos que não são literais (ex: `string`), objetos `unknown` e
+ * raízes primitivas não são verificados.
+ */
+export type ValidPath<T, P> = IsUntyped<T> extends true
+  ? P
+  : [T] extends [PathLeaf]
+  ? P
+  : P extends string
+  ? string extends P
+    ? P
+    : P extends Path<T>
+    ? P
+    : Path<T>
+  : P extends readonly PathSegment[]
+  ? number extends P["length"]
+    ? P
+    : [Exclude<ValueAtSegments<T, P, never>, InvalidSegment>] extends [never]
+    ? never
+    : P
+  : P;
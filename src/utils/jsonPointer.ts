@@ -0,0 +1,74 @@
+import { PathSyntaxError } from "../errors";
+import type { ObjectPath } from "../types";
+import { toPathSegments } from "./parsePath";
+
+/**
+ * Converte um `ObjectPath` em um JSON Pointer (RFC 6901). Cada segmento é prefixado com `/`,
+ * com `~` escapado como `~0` e `/` como `~1`. O caminho vazio resulta em `''` (o documento inteiro).
+ *
+ * @param {ObjectPath} path - O caminho a converter, em string ou array de segmentos.
+ * @returns {string} O JSON Pointer equivalente.
+ * @throws {PathSyntaxError} Se `path` for uma string malformada.
+ * @throws {TypeError} Se `path` contiver um segmento `symbol`.
+ *
+ * @example
+ * toJsonPointer('b.d[0].e')          // '/b/d/0/e'
+ * toJsonPointer(['a/b', 'c~d'])      // '/a~1b/c~0d'
+ * toJsonPointer([])                  // ''
+ */
+export function toJsonPointer(path: ObjectPath): string {
+  return toPathSegments(path)
+    .map((segment) => {
+      if (typeof segment === "symbol") {
+        throw new TypeError(
+          "toJsonPointer: segmentos symbol não podem ser representados em um JSON Pointer."
+        );
+      }
+      return `/${String(segment).replace(/~/g, "~0").replace(/\//g, "~1")}`;
+    })
+    .join("");
+}
+
+/**
+ * Converte um JSON Pointer (RFC 6901) em um array de segmentos, desfazendo os escapes `~1` e `~0`.
+ * Os segmentos são sempre strings, como no RFC: índices de array (`'0'`) são resolvidos
+ * normalmente por `deepGet` e pelas demais funções da biblioteca.
+ *
+ * @param {string} pointer - O JSON Pointer. Deve ser vazio ou começar com `/`.
+ * @returns {string[]} Os segmentos do caminho.
+ * @throws {PathSyntaxError} Se o ponteiro não começar com `/` ou contiver um escape inválido.
+ *
+ * @example
+ * fromJsonPointer('/b/d/0/e')        // ['b', 'd', '0', 'e']
+ * fromJsonPointer('/a~1b/c~0d')      // ['a/b', 'c~d']
+ * fromJsonPointer('')                // []
+ */
+export function fromJsonPointer(pointer: string): string[] {
+  if (typeof pointer !== "string") {
+    throw new TypeError("fromJsonPointer: pointer deve ser uma string.");
+  }
+  if (pointer === "") {
+    return [];
+  }
+  if (pointer[0] !== "/") {
+    throw new PathSyntaxError(
+      "fromJsonPointer: o ponteiro deve começar com '/'",
+      pointer,
+      0
+    );
+  }
+
+  const invalidEscape = /~(?![01])/.exec(pointer);
+  if (invalidEscape) {
+    throw new PathSyntaxError(
+      "fromJsonPointer: escape inválido, use '~0' ou '~1'",
+      pointer,
+      invalidEscape.index
+    );
+  }
+
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
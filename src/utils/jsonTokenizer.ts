@@ -0,0 +1,275 @@
+/**
+ * Um token produzido por `createJsonTokenizer`:
+ * - `start` / `end`: abertura e fechamento de um objeto ou array;
+ * - `key`: o nome de uma propriedade (seguido pelo valor dela);
+ * - `value`: um valor primitivo (string, número, booleano ou `null`).
+ */
+export type JsonToken =
+  | { type: "start"; kind: "object" | "array" }
+  | { type: "end" }
+  | { type: "key"; key: string }
+  | { type: "value"; value: string | number | boolean | null };
+
+/**
+ * Um analisador léxico incremental de JSON: recebe o texto em partes, que podem dividir tokens em
+ * qualquer posição, e entrega cada token assim que ele termina.
+ */
+export interface JsonTokenizer {
+  /** Processa a próxima parte do texto. */
+  write(text: string): void;
+  /** Indica o fim da entrada, finalizando um número ou literal pendente. */
+  end(): void;
+}
+
+type Mode =
+  | "value"
+  | "valueOrEnd"
+  | "key"
+  | "keyOrEnd"
+  | "colon"
+  | "commaOrEnd"
+  | "string"
+  | "number"
+  | "literal"
+  | "done";
+
+const NUMBER = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+const NUMBER_CHAR = /[0-9+\-.eE]/;
+const WHITESPACE = /[ \t\n\r]/;
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+/**
+ * Cria um analisador léxico de um único documento JSON, validando a gramática (vírgulas, dois-pontos,
+ * fechamento de contêineres). A memória usada é proporcional à profundidade do documento e ao maior
+ * token, e não ao tamanho da entrada.
+ *
+ * @param {string} fnName - A função chamadora, usada nas mensagens de erro.
+ * @param {(token: JsonToken) => void} onToken - Recebe cada token, na ordem do documento.
+ * @returns {JsonTokenizer} O analisador.
+ * @throws {SyntaxError} (em `write` e `end`) Se o texto não for um JSON válido, com a posição do erro.
+ */
+export function createJsonTokenizer(
+  fnName: string,
+  onToken: (token: JsonToken) => void
+): JsonTokenizer {
+  let mode: Mode = "value";
+  const stack: ("object" | "array")[] = [];
+  let text = ""; // String, número ou literal em construção
+  let isKey = false;
+  let pendingEscape: string | undefined; // `''` após '\', `'u...'` coletando os dígitos de '\uXXXX'
+  let position = 0;
+
+  const fail = (message: string): never => {
+    throw new SyntaxError(
+      `${fnName}: JSON inválido: ${message} (posição ${position})`
+    );
+  };
+
+  const afterValue = () => {
+    mode = stack.length === 0 ? "done" : "commaOrEnd";
+  };
+
+  const emitValue = (value: string | number | boolean | null) => {
+    onToken({ type: "value", value });
+    afterValue();
+  };
+
+  const finishScalar = () => {
+    const scalar = text;
+    text = "";
+    if (mode === "number") {
+      if (!NUMBER.test(scalar)) {
+        fail(`número inválido "${scalar}"`);
+      }
+      emitValue(Number(scalar));
+    } else if (scalar === "true" || scalar === "false") {
+      emitValue(scalar === "true");
+    } else if (scalar === "null") {
+      emitValue(null);
+    } else {
+      fail(`literal inválido "${scalar}"`);
+    }
+  };
+
+  const startValue = (ch: string) => {
+    if (ch === "{" || ch === "[") {
+      const kind = ch === "{" ? "object" : "array";
+      stack.push(kind);
+      onToken({ type: "start", kind });
+      mode = kind === "object" ? "keyOrEnd" : "valueOrEnd";
+    } else if (ch === '"') {
+      isKey = false;
+      mode = "string";
+    } else if (ch === "-" || (ch >= "0" && ch <= "9")) {
+      text = ch;
+      mode = "number";
+    } else if (ch >= "a" && ch <= "z") {
+      text = ch;
+      mode = "literal";
+    } else {
+      fail(`caractere inesperado "${ch}"`);
+    }
+  };
+
+  const closeContainer = () => {
+    stack.pop();
+    onToken({ type: "end" });
+    afterValue();
+  };
+
+  // Consome parte de uma string a partir de `start`; retorna o índice do próximo caractere a processar
+  const readString = (chunk: string, start: number): number => {
+    if (pendingEscape !== undefined) {
+      const ch = chunk[start];
+      if (pendingEscape === "") {
+        if (ch === "u") {
+          pendingEscape = "u";
+        } else if (Object.prototype.hasOwnProperty.call(ESCAPES, ch)) {
+          text += ESCAPES[ch];
+          pendingEscape = undefined;
+        } else {
+          fail(`escape inválido "\\${ch}"`);
+        }
+      } else {
+        if (!/[0-9a-fA-F]/.test(ch)) {
+          fail("escape \\u inválido");
+        }
+        pendingEscape += ch;
+        if (pendingEscape.length === 5) {
+          text += String.fromCharCode(parseInt(pendingEscape.slice(1), 16));
+          pendingEscape = undefined;
+        }
+      }
+      position++;
+      return start + 1;
+    }
+
+    let end = start;
+    while (end < chunk.length) {
+      const code = chunk.charCodeAt(end);
+      if (code === 34 || code === 92) {
+        break; // '"' ou '\'
+      }
+      if (code < 0x20) {
+        position += end - start;
+        fail("caractere de controle em string");
+      }
+      end++;
+    }
+    text += chunk.slice(start, end);
+    position += end - start;
+    if (end === chunk.length) {
+      return end;
+    }
+
+    position++;
+    if (chunk[end] === "\\") {
+      pendingEscape = "";
+    } else {
+      const value = text;
+      text = "";
+      if (isKey) {
+        onToken({ type: "key", key: value });
+        mode = "colon";
+      } else {
+        emitValue(value);
+      }
+    }
+    return end + 1;
+  };
+
+  return {
+    write(chunk) {
+      let i = 0;
+      while (i < chunk.length) {
+        if (mode === "string") {
+          i = readString(chunk, i);
+          continue;
+        }
+        const ch = chunk[i];
+        if (mode === "number" || mode === "literal") {
+          if (
+            mode === "number" ? NUMBER_CHAR.test(ch) : ch >= "a" && ch <= "z"
+          ) {
+            text += ch;
+            i++;
+            position++;
+            continue;
+          }
+          finishScalar(); // O caractere atual é processado no novo modo
+          continue;
+        }
+        if (WHITESPACE.test(ch)) {
+          i++;
+          position++;
+          continue;
+        }
+
+        switch (mode) {
+          case "valueOrEnd":
+            if (ch === "]") {
+              closeContainer();
+            } else {
+              startValue(ch);
+            }
+            break;
+          case "value":
+            startValue(ch);
+            break;
+          case "keyOrEnd":
+          case "key":
+            if (ch === "}" && mode === "keyOrEnd") {
+              closeContainer();
+            } else if (ch === '"') {
+              isKey = true;
+              mode = "string";
+            } else {
+              fail(`esperado nome de propriedade, encontrado "${ch}"`);
+            }
+            break;
+          case "colon":
+            if (ch !== ":") {
+              fail(`esperado ':', encontrado "${ch}"`);
+            }
+            mode = "value";
+            break;
+          case "commaOrEnd": {
+            const kind = stack[stack.length - 1];
+            const close = kind === "object" ? "}" : "]";
+            if (ch === ",") {
+              mode = kind === "object" ? "key" : "value";
+            } else if (ch === close) {
+              closeContainer();
+            } else {
+              fail(`esperado ',' ou '${close}', encontrado "${ch}"`);
+            }
+            break;
+          }
+          case "done":
+            fail(`caractere inesperado "${ch}" após o fim do documento`);
+        }
+        i++;
+        position++;
+      }
+    },
+
+    end() {
+      if (mode === "number" || mode === "literal") {
+        finishScalar();
+      }
+      if (mode !== "done") {
+        fail("fim inesperado da entrada");
+      }
+    },
+  };
+}
@@ -1,3 +1,6 @@
+import { PathSyntaxError } from "../errors";
+import type { ObjectPath, PathSegment } from "../types";
+
 /**
  * Analisa uma string de caminho em um array de chaves. Suporta múltiplos formatos de caminho
  * incluindo notação de ponto e colchetes com strings ou números.
@@ -6,62 +9,150 @@
  * Esta função é capaz de processar os seguintes formatos de caminho:
  * - Notação de ponto simples: 'user.name'
  * - Notação de colchetes com números: 'users[0].name'
+ * - Índices negativos, contados a partir do fim do array: 'items[-1]'
  * - Notação de colchetes com strings: "users['name']" ou 'users["name"]'
+ * - Aspas escapadas dentro de colchetes: 'data["diz \\"oi\\""]'
  * - Combinações: 'users[0].addresses["home"].street'
  *
+ * Índices entre colchetes sem aspas (`[0]`, `[-1]`) são retornados como números; todos os outros
+ * segmentos (inclusive `a.0`) são retornados como strings. Assim,
+ * `parsePath(stringifyPath(segmentos))` reproduz exatamente os segmentos originais.
+ *
  * @param {string | null | undefined} pathString - A string de caminho para analisar.
  *   Pode ser uma string contendo o caminho, null, ou undefined.
  *
- * @returns {string[]} Um array contendo todas as chaves encontradas no caminho.
+ * @returns {PathSegment[]} Um array contendo todas as chaves encontradas no caminho.
  *   Retorna um array vazio se pathString for inválido (null, undefined, ou string vazia).
+ * @throws {PathSyntaxError} Se a string estiver malformada, por exemplo com um `[` ou aspas não fechados.
  *
  * @example
  * parsePath('user.name')               // ['user', 'name']
- * parsePath('users[0].address')        // ['users', '0', 'address']
+ * parsePath('users[0].address')        // ['users', 0, 'address']
+ * parsePath('items[-1]')               // ['items', -1]
  * parsePath('data["key-name"]')        // ['data', 'key-name']
+ * parsePath('data["key with.dot"]')    // ['data', 'key with.dot']
  * parsePath(null)                      // []
  * parsePath('single')                  // ['single']
+ * parsePath('users[0')                 // lança PathSyntaxError: '[' não fechado
  */
-export function parsePath(pathString: string | null | undefined): string[] {
+export function parsePath(
+  pathString: string | null | undefined
+): PathSegment[] {
   // Validação inicial da string de entrada
   if (typeof pathString !== "string" || pathString.trim() === "") {
     return [];
   }
 
-  const keys: string[] = [];
-  // Regex complexa que captura diferentes formatos de caminho:
-  // - Grupo 1 e 2: Capturam chaves entre aspas: ['chave'] ou ["chave"]
-  // - Grupo 3: Captura índices numéricos: [0]
-  // - Grupo 4: Captura nomes simples de propriedades: usuario.nome
-  const segmentRegex = /\.?(?:\[(['"])(.*?)\1\]|\[(\d+)\]|([^.\[\]]+))/g;
-  let match;
+  const keys: PathSegment[] = [];
+  const length = pathString.length;
+  let i = 0;
 
-  while ((match = segmentRegex.exec(pathString)) !== null) {
-    // Processa chaves entre aspas (simples ou duplas)
-    if (match[2] !== undefined) {
-      keys.push(match[2]);
+  // Após um segmento entre colchetes, só pode vir '.', '[' ou o fim do caminho
+  const expectSeparator = (position: number) => {
+    if (position < length && !".[".includes(pathString[position])) {
+      throw new PathSyntaxError(
+        "parsePath: esperado '.' ou '[' após ']'",
+        pathString,
+        position
+      );
     }
-    // Processa índices numéricos
-    else if (match[3] !== undefined) {
-      keys.push(match[3]);
+  };
+
+  while (i < length) {
+    const char = pathString[i];
+
+    // Separadores de ponto não produzem segmentos
+    if (char === ".") {
+      i++;
+      continue;
     }
-    // Processa nomes simples de propriedades
-    else if (match[4] !== undefined) {
-      keys.push(match[4]);
+
+    if (char === "]") {
+      throw new PathSyntaxError("parsePath: ']' inesperado", pathString, i);
     }
 
-    // Proteção contra loops infinitos do regex
-    if (match.index === segmentRegex.lastIndex) {
-      segmentRegex.lastIndex++;
-      console.warn(
-        `[parsePath] Regex pode ter entrado em loop em path: "${pathString}". Avançando manualmente.`
-      );
+    if (char === "[") {
+      const quote = pathString[i + 1];
+
+      // Chaves entre aspas: ['chave'] ou ["chave"], com suporte a \' \" e \\
+      if (quote === "'" || quote === '"') {
+        let key = "";
+        let j = i + 2;
+        while (j < length && pathString[j] !== quote) {
+          if (pathString[j] === "\\" && j + 1 < length) {
+            j++;
+          }
+          key += pathString[j];
+          j++;
+        }
+        if (j >= length) {
+          throw new PathSyntaxError(
+            "parsePath: aspas não fechadas",
+            pathString,
+            i + 1
+          );
+        }
+        if (pathString[j + 1] !== "]") {
+          throw new PathSyntaxError(
+            "parsePath: esperado ']' após a chave entre aspas",
+            pathString,
+            j + 1
+          );
+        }
+        keys.push(key);
+        i = j + 2;
+        expectSeparator(i);
+        continue;
+      }
+
+      // Índices numéricos ou chaves simples entre colchetes: [0], [-1] ou [chave]
+      const close = pathString.indexOf("]", i + 1);
+      if (close === -1) {
+        throw new PathSyntaxError("parsePath: '[' não fechado", pathString, i);
+      }
+      const content = pathString.slice(i + 1, close);
+      if (content === "" || content.includes("[")) {
+        throw new PathSyntaxError(
+          "parsePath: conteúdo inválido entre colchetes",
+          pathString,
+          i
+        );
+      }
+      keys.push(/^-?(?:0|[1-9]\d*)$/.test(content) ? Number(content) : content);
+      i = close + 1;
+      expectSeparator(i);
+      continue;
     }
-  }
 
-  if (keys.length === 0 && pathString && !/[.\[\]]/.test(pathString)) {
-    keys.push(pathString);
+    // Nomes simples de propriedades: usuario.nome
+    let j = i;
+    while (j < length && !".[]".includes(pathString[j])) {
+      j++;
+    }
+    keys.push(pathString.slice(i, j));
+    i = j;
   }
 
   return keys;
 }
+
+/**
+ * Normaliza um `ObjectPath` (string ou array) em um array de segmentos.
+ * Strings são analisadas com `parsePath`; arrays são copiados como estão.
+ *
+ * @param {ObjectPath | null | undefined} path - O caminho a normalizar.
+ * @returns {PathSegment[]} Os segmentos do caminho, ou um array vazio para `null`/`undefined`.
+ *
+ * @example
+ * toPathSegments('a.b[0]')     // ['a', 'b', 0]
+ * toPathSegments(['a', 0])     // ['a', 0]
+ * toPathSegments(undefined)    // []
+ */
+export function toPathSegments(
+  path: ObjectPath | null | undefined
+): PathSegment[] {
+  if (typeof path === "string" || path === null || path === undefined) {
+    return parsePath(path);
+  }
+  return path.slice();
+}
@@ -0,0 +1,80 @@
+import { UnsafePathError } from "../errors";
+import type { PathSecurityOptions, PathSegment } from "../types";
+
+/** Segmentos que alcançam protótipos a partir de qualquer objeto. */
+const UNSAFE_SEGMENTS = new Set<PathSegment>([
+  "__proto__",
+  "constructor",
+  "prototype",
+]);
+
+/**
+ * Verifica se um segmento alcança protótipos (`__proto__`, `constructor` ou `prototype`).
+ */
+export function isUnsafeSegment(segment: PathSegment): boolean {
+  return UNSAFE_SEGMENTS.has(segment);
+}
+
+/**
+ * Aplica as `PathSecurityOptions` a um caminho já normalizado.
+ *
+ * @param {string} fnName - A função chamadora, usada nas mensagens de erro.
+ * @param {PathSegment[]} segments - Os segmentos do caminho.
+ * @param {PathSecurityOptions} options - As opções recebidas pela função.
+ * @param {'reject' | 'ignore' | 'allow'} defaultMode - O modo quando `unsafeSegments` não é informado.
+ * @returns {boolean} `false` se o caminho deve ser ignorado (`unsafeSegments: 'ignore'`).
+ * @throws {UnsafePathError} Se o caminho for recusado no modo `'reject'`, ou sair de `allowedRoots`
+ *   sem `'ignore'`.
+ */
+export function checkPathSecurity(
+  fnName: string,
+  segments: PathSegment[],
+  options: PathSecurityOptions,
+  defaultMode: "reject" | "ignore" | "allow"
+): boolean {
+  const { unsafeSegments = defaultMode, allowedRoots } = options;
+  if (
+    unsafeSegments !== "reject" &&
+    unsafeSegments !== "ignore" &&
+    unsafeSegments !== "allow"
+  ) {
+    throw new TypeError(
+      `${fnName}: unsafeSegments deve ser 'reject', 'ignore' ou 'allow'.`
+    );
+  }
+
+  if (allowedRoots !== undefined && segments.length > 0) {
+    const [root] = segments;
+    const allowed = allowedRoots.some((key) =>
+      typeof key === "symbol" || typeof root === "symbol"
+        ? key === root
+        : String(key) === String(root)
+    );
+    if (!allowed) {
+      if (unsafeSegments === "ignore") {
+        return false;
+      }
+      throw new UnsafePathError(
+        `${fnName}: chave raiz não permitida`,
+        segments,
+        root
+      );
+    }
+  }
+
+  if (unsafeSegments === "allow") {
+    return true;
+  }
+  const unsafe = segments.find(isUnsafeSegment);
+  if (unsafe === undefined) {
+    return true;
+  }
+  if (unsafeSegments === "ignore") {
+    return false;
+  }
+  throw new UnsafePathError(
+    `${fnName}: segmento inseguro "${String(unsafe)}"`,
+    segments,
+    unsafe
+  );
+}
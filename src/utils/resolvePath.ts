@@ -0,0 +1,114 @@
+import type { PathSegment } from "../types";
+
+/**
+ * Encontra a chave de um `Map` que corresponde a um segmento. Como caminhos em string
+ * só produzem strings e números, o segmento `'1'` também encontra a chave numérica `1`
+ * e vice-versa. Se nenhuma das formas existir, o próprio segmento é retornado.
+ *
+ * @param {Map<unknown, unknown>} map - O `Map` consultado.
+ * @param {PathSegment} segment - O segmento do caminho.
+ * @returns {unknown} A chave existente no `Map`, ou `segment` se não houver correspondência.
+ */
+export function resolveMapKey(
+  map: Map<unknown, unknown>,
+  segment: PathSegment
+): unknown {
+  if (map.has(segment)) {
+    return segment;
+  }
+  const alternate =
+    typeof segment === "number" ? String(segment) : Number(segment);
+  return String(alternate) === String(segment) && map.has(alternate)
+    ? alternate
+    : segment;
+}
+
+/**
+ * Lê um único segmento de um valor. Trata os casos especiais da biblioteca:
+ * - `Map`: o segmento é usado como chave (`map.get`), tentando também a forma
+ *   numérica/string equivalente (`'1'` encontra a chave `1` e vice-versa).
+ * - `Set`: o segmento é a posição do membro na ordem de inserção (`[0]` é o primeiro membro),
+ *   aceitando índices negativos.
+ * - Arrays e typed arrays: índices negativos são contados a partir do fim (`-1` é o último elemento).
+ * - Primitivos (ex: strings) expõem suas propriedades, como `length`.
+ *
+ * @param {unknown} container - O valor de onde ler.
+ * @param {PathSegment} segment - A chave ou índice a ler.
+ * @param {boolean} [ownOnly=false] - Quando `true`, propriedades herdadas (do protótipo) não são lidas.
+ * @returns {unknown} O valor encontrado, ou `undefined` se `container` for nulo/indefinido
+ *   ou não tiver a chave.
+ */
+export function getChild(
+  container: unknown,
+  segment: PathSegment,
+  ownOnly = false
+): unknown {
+  if (container === null || container === undefined) {
+    return undefined;
+  }
+
+  if (container instanceof Map) {
+    return container.get(resolveMapKey(container, segment));
+  }
+
+  if (container instanceof Set) {
+    if (
+      typeof segment === "symbol" ||
+      !/^-?(?:0|[1-9]\d*)$/.test(String(segment))
+    ) {
+      return undefined;
+    }
+    const index = Number(segment);
+    const members = [...container];
+    return members[index < 0 ? members.length + index : index];
+  }
+
+  let key = segment;
+  if (
+    (Array.isArray(container) || ArrayBuffer.isView(container)) &&
+    typeof segment === "number" &&
+    segment < 0
+  ) {
+    key = (container as ArrayLike<unknown>).length + segment;
+  }
+
+  const target = Object(container) as Record<PathSegment, unknown>;
+  if (ownOnly && !Object.prototype.hasOwnProperty.call(target, key)) {
+    return undefined;
+  }
+  return target[key];
+}
+
+/**
+ * Resolve um caminho já normalizado em segmentos, segmento a segmento, usando `getChild`.
+ *
+ * @param {unknown} obj - O valor raiz.
+ * @param {PathSegment[]} segments - Os segmentos do caminho.
+ * @param {boolean} [ownOnly=false] - Quando `true`, apenas propriedades próprias são percorridas.
+ * @returns {unknown} O valor no caminho, ou `undefined` se algum segmento não existir.
+ *   Um caminho vazio resolve para `undefined`.
+ *
+ * @example
+ * resolvePath({ a: [1, 2, 3] }, ['a', -1])              // 3
+ * resolvePath({ m: new Map([['k', 1]]) }, ['m', 'k'])   // 1
+ * resolvePath({ s: new Set(['x', 'y']) }, ['s', 1])     // 'y'
+ * resolvePath({ a: 1 }, [])                             // undefined
+ */
+export function resolvePath(
+  obj: unknown,
+  segments: PathSegment[],
+  ownOnly = false
+): unknown {
+  if (segments.length === 0) {
+    return undefined;
+  }
+
+  let current: unknown = obj;
+  for (const segment of segments) {
+    if (current === null || current === undefined) {
+      return undefined;
+    }
+    current = getChild(current, segment, ownOnly);
+  }
+  return current;
+}
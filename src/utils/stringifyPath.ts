@@ -0,0 +1,46 @@
+import type { PathSegment } from "../types";
+
+/**
+ * Chaves que podem ser escritas com notação de ponto sem ambiguidade:
+ * sem separadores, aspas, barras invertidas ou espaços.
+ */
+const SIMPLE_KEY = /^[^.[\]'"\\\s]+$/;
+
+/**
+ * Converte um array de segmentos em uma string de caminho que pode ser analisada de volta
+ * por `parsePath`. Números viram índices entre colchetes (`[0]`), chaves simples usam
+ * notação de ponto e chaves com caracteres especiais (pontos, colchetes, aspas, espaços
+ * ou string vazia) são escritas entre aspas duplas com escape: `["key with.dot"]`.
+ *
+ * Garante que `parsePath(stringifyPath(segmentos))` reproduza os segmentos originais,
+ * desde que segmentos numéricos sejam índices inteiros.
+ *
+ * @param {PathSegment[]} segments - Os segmentos do caminho.
+ * @returns {string} A representação em string do caminho. Retorna `''` para um array vazio.
+ * @throws {TypeError} Se algum segmento for um `symbol`, que não tem representação em string.
+ *
+ * @example
+ * stringifyPath(['b', 'd', 0, 'e'])          // 'b.d[0].e'
+ * stringifyPath(['key with.dot'])            // '["key with.dot"]'
+ * stringifyPath(['a', 'diz "oi"'])           // 'a["diz \\"oi\\""]'
+ * stringifyPath([0, 'nome'])                 // '[0].nome'
+ */
+export function stringifyPath(segments: readonly PathSegment[]): string {
+  let result = "";
+
+  for (const segment of segments) {
+    if (typeof segment === "symbol") {
+      throw new TypeError(
+        "stringifyPath: segmentos symbol não podem ser representados em string; use o caminho em segmentos."
+      );
+    } else if (typeof segment === "number") {
+      result += `[${segment}]`;
+    } else if (SIMPLE_KEY.test(segment)) {
+      result += result === "" ? segment : `.${segment}`;
+    } else {
+      result += `["${segment.replace(/["\\]/g, "\\$&")}"]`;
+    }
+  }
+
+  return result;
+}
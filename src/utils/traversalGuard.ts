@@ -0,0 +1,137 @@
+import { CallbackError, TraversalLimitError } from "../errors";
+import type { PathSegment, SafetyOptions } from "../types";
+
+/**
+ * Aplica as `SafetyOptions` de uma chamada: conta os valores visitados, verifica os limites e o
+ * sinal de cancelamento e encaminha os erros conforme `onError`.
+ */
+export interface TraversalGuard {
+  /** `true` depois que `maxNodes` foi excedido: a travessia deve terminar. */
+  readonly stopped: boolean;
+  /**
+   * Registra a visita a um valor. Retorna `false` se ele não deve ser visitado (além de `maxDepth`,
+   * ou travessia encerrada por `maxNodes`).
+   * @throws O motivo do cancelamento, se `signal` foi abortado, ou o erro do limite com `onError: 'throw'`.
+   */
+  visit(path: PathSegment[], depth: number): boolean;
+  /**
+   * Executa um callback do usuário. Se ele lançar, o erro é reportado como `CallbackError` e
+   * `fallback` é retornado. Erros do próprio guarda (limites, cancelamento) lançados por travessias
+   * internas ao callback (ex: a função `clone` recebida pelo customizer) são propagados como estão.
+   */
+  call<T>(path: PathSegment[], fallback: T, fn: () => T): T;
+  /**
+   * Cria um guarda para uma segunda passada sobre valores já contados por este: ele respeita
+   * `maxDepth`, o sinal de cancelamento e o encerramento por `maxNodes`, mas não conta os valores
+   * nem reporta os limites novamente.
+   */
+  uncounted(): TraversalGuard;
+}
+
+/**
+ * Cria o guarda de uma chamada de `fnName`, validando `onError` e `errors`.
+ * @throws {TypeError} Se `onError` for inválido ou `'collect'` não vier com um array em `errors`.
+ */
+export function createTraversalGuard(
+  fnName: string,
+  options: SafetyOptions
+): TraversalGuard {
+  const {
+    onError = "throw",
+    errors,
+    maxDepth = Infinity,
+    maxNodes = Infinity,
+    signal,
+  } = options;
+  if (onError !== "throw" && onError !== "collect" && onError !== "ignore") {
+    throw new TypeError(
+      `${fnName}: onError deve ser 'throw', 'collect' ou 'ignore'.`
+    );
+  }
+  if (onError === "collect" && !Array.isArray(errors)) {
+    throw new TypeError(
+      `${fnName}: onError 'collect' requer um array em errors.`
+    );
+  }
+
+  let nodes = 0;
+  let stopped = false;
+  let depthReported = false;
+
+  const report = (error: Error): void => {
+    if (onError === "throw") {
+      throw error;
+    }
+    if (onError === "collect") {
+      errors!.push(error);
+    }
+  };
+
+  const guard: TraversalGuard = {
+    get stopped() {
+      return stopped;
+    },
+    visit(path, depth) {
+      signal?.throwIfAborted();
+      if (stopped) {
+        return false;
+      }
+      if (depth > maxDepth) {
+        if (!depthReported) {
+          depthReported = true;
+          report(
+            new TraversalLimitError(
+              `${fnName}: profundidade máxima excedida`,
+              "maxDepth",
+              maxDepth,
+              path
+            )
+          );
+        }
+        return false;
+      }
+      if (++nodes > maxNodes) {
+        stopped = true;
+        report(
+          new TraversalLimitError(
+            `${fnName}: número máximo de valores excedido`,
+            "maxNodes",
+            maxNodes,
+            path
+          )
+        );
+        return false;
+      }
+      return true;
+    },
+    call(path, fallback, fn) {
+      try {
+        return fn();
+      } catch (error) {
+        if (
+          error instanceof TraversalLimitError ||
+          error instanceof CallbackError ||
+          (signal?.aborted && error === signal.reason)
+        ) {
+          throw error;
+        }
+        report(new CallbackError(`${fnName}: erro no callback`, path, error));
+        return fallback;
+      }
+    },
+    uncounted() {
+      return {
+        get stopped() {
+          return stopped;
+        },
+        visit(_path, depth) {
+          signal?.throwIfAborted();
+          return !stopped && depth <= maxDepth;
+        },
+        call: guard.call,
+        uncounted: () => guard.uncounted(),
+      };
+    },
+  };
+  return guard;
+}